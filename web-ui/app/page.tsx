@@ -6,9 +6,9 @@ import Link from "next/link";
 import BannerAd from "../components/BannerAd";
 import { UrlInput } from "../components/UrlInput";
 import { DownloadQueue } from "../components/DownloadQueue";
-import { api } from "../lib/api";
-import { DownloadProgress } from "../lib/downloader";
-import { TidalTrack, TidalAlbum, TidalPlaylist } from "../lib/tidal-client";
+import { api, DownloadResult } from "../lib/api";
+import { useDownloadQueue } from "../hooks/useDownloadQueue";
+import { TidalTrack, TidalAlbum, TidalPlaylist, TidalArtist, TidalVideo, TidalMix } from "../lib/tidal-client";
 import { addDownloadHistory, subscribeToDownloadHistory, incrementDownloadCount, subscribeToDownloadCount, DownloadHistoryItem } from "../lib/download-history";
 import { Menu, X, User } from "lucide-react";
 import { useTheme } from "next-themes";
@@ -20,11 +20,8 @@ interface AuthStatus {
 }
 
 export default function Home() {
-  const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState("");
   const [status, setStatus] = useState<AuthStatus>({ logged_in: false });
-  const [downloadProgress, setDownloadProgress] = useState<DownloadProgress | null>(null);
-  const [logs, setLogs] = useState<string[]>([]);
   const [isMenuOpen, setIsMenuOpen] = useState(false);
   const [isDesktopMenuOpen, setIsDesktopMenuOpen] = useState(false);
   const [history, setHistory] = useState<DownloadHistoryItem[]>([]);
@@ -46,6 +43,7 @@ export default function Home() {
   };
 
   useEffect(() => {
+    // eslint-disable-next-line react-hooks/set-state-in-effect
     setMounted(true);
   }, []);
 
@@ -78,87 +76,90 @@ export default function Home() {
     }
   };
 
-
-
-  const handleUrlDownload = async (url: string) => {
-    setIsLoading(true);
-    setError("");
-    setDownloadProgress({ stage: 'fetching', progress: 0, message: 'Starting download...' });
-    setLogs([]); // Reset logs for new download
-
-    try {
-      const result = await api.download(
-        { url },
-        (progress) => {
-          setDownloadProgress(progress);
-        },
-        (logMessage) => {
-          setLogs(prev => [...prev, logMessage]);
-        }
-      ) as { status: string; type?: string; data?: TidalTrack | TidalAlbum | TidalPlaylist; isAtmos?: boolean };
-
-      // Add to history if successful
-      if (result.status === 'completed' && result.data) {
-        const now = new Date();
-        const dateStr = now.toLocaleDateString() + ' ' + now.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
-
-        let historyItem: DownloadHistoryItem | null = null;
-
-        if (result.type === 'TRACK') {
-          const track = result.data as TidalTrack;
-          historyItem = {
-            id: Date.now().toString(),
-            title: track.title,
-            artist: track.artist?.name || 'Unknown',
-            type: 'Track',
-            date: dateStr,
-            isAtmos: result.isAtmos
-          };
-        } else if (result.type === 'ALBUM') {
-          const album = result.data as TidalAlbum;
-          historyItem = {
-            id: Date.now().toString(),
-            title: album.title,
-            artist: album.artist?.name || 'Unknown',
-            type: 'Album',
-            date: dateStr,
-            isAtmos: result.isAtmos
-          };
-        } else if (result.type === 'PLAYLIST') {
-          const playlist = result.data as TidalPlaylist;
-          historyItem = {
-            id: Date.now().toString(),
-            title: playlist.title,
-            artist: 'Tidal Playlist',
-            type: 'Playlist',
-            date: dateStr,
-            isAtmos: result.isAtmos
-          };
-        }
-
-        if (historyItem) {
-          // Fire-and-forget: don't await these to prevent blocking UI reset
-          addToHistory(historyItem).catch(err => console.warn('History save failed:', err));
-          incrementDownloadCount().catch(err => console.warn('Stats update failed:', err));
-        }
+  // Add finished queue jobs to the cloud history
+  const handleJobComplete = (result: DownloadResult) => {
+    if (result.data) {
+      const now = new Date();
+      const dateStr = now.toLocaleDateString() + ' ' + now.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+      let historyItem: DownloadHistoryItem | null = null;
+
+      if (result.type === 'TRACK') {
+        const track = result.data as TidalTrack;
+        historyItem = {
+          id: Date.now().toString(),
+          title: track.title,
+          artist: track.artist?.name || 'Unknown',
+          type: 'Track',
+          date: dateStr,
+          isAtmos: result.isAtmos
+        };
+      } else if (result.type === 'ALBUM') {
+        const album = result.data as TidalAlbum;
+        historyItem = {
+          id: Date.now().toString(),
+          title: album.title,
+          artist: album.artist?.name || 'Unknown',
+          type: 'Album',
+          date: dateStr,
+          isAtmos: result.isAtmos
+        };
+      } else if (result.type === 'PLAYLIST') {
+        const playlist = result.data as TidalPlaylist;
+        historyItem = {
+          id: Date.now().toString(),
+          title: playlist.title,
+          artist: 'Tidal Playlist',
+          type: 'Playlist',
+          date: dateStr,
+          isAtmos: result.isAtmos
+        };
+      } else if (result.type === 'ARTIST') {
+        const artist = result.data as TidalArtist;
+        historyItem = {
+          id: Date.now().toString(),
+          title: 'Discography',
+          artist: artist.name,
+          type: 'Artist',
+          date: dateStr,
+          isAtmos: result.isAtmos
+        };
+      } else if (result.type === 'VIDEO') {
+        const video = result.data as TidalVideo;
+        historyItem = {
+          id: Date.now().toString(),
+          title: video.title,
+          artist: video.artist?.name || 'Unknown',
+          type: 'Video',
+          date: dateStr,
+        };
+      } else if (result.type === 'MIX') {
+        const mix = result.data as TidalMix;
+        historyItem = {
+          id: Date.now().toString(),
+          title: mix.title,
+          artist: 'Tidal Mix',
+          type: 'Mix',
+          date: dateStr,
+          isAtmos: result.isAtmos
+        };
       }
 
-    } catch (err) {
-      console.error("Download failed", err);
-      const message = err instanceof Error ? err.message : "Unknown error";
-      setError(`Failed to download: ${message}`);
-      setDownloadProgress({ stage: 'error', progress: 0, message });
-    } finally {
-      setIsLoading(false);
-      // Clear progress after a delay on success
-      setTimeout(() => {
-        if (downloadProgress?.stage === 'complete') {
-          setDownloadProgress(null);
-        }
-      }, 5000);
+      if (historyItem) {
+        // Fire-and-forget: don't await these to prevent blocking UI reset
+        addToHistory(historyItem).catch(err => console.warn('History save failed:', err));
+        incrementDownloadCount().catch(err => console.warn('Stats update failed:', err));
+      }
     }
   };
 
+  const { jobs, progress: downloadProgress, logs, addUrls, move, pause, resume, retry, retryFailed, cancel, clearFinished } = useDownloadQueue(handleJobComplete);
+
+  const handleUrlDownload = (urls: string[]) => {
+    setError("");
+    addUrls(urls);
+  };
+
   const handleLogout = async () => {
     // Show confirmation dialog
     if (!confirm('Are you sure you want to logout?')) {
@@ -304,12 +305,23 @@ export default function Home() {
 
         <div className="space-y-12">
           <BannerAd />
-          <UrlInput onDownload={handleUrlDownload} isLoading={isLoading} />
+          <UrlInput onDownload={handleUrlDownload} />
 
           <div className="grid grid-cols-1 md:grid-cols-2 gap-6 md:gap-8">
             <div className="space-y-2">
               <h2 className="text-base md:text-2xl font-normal text-on-surface">Downloads</h2>
-              <DownloadQueue progress={downloadProgress} logs={logs} />
+              <DownloadQueue
+                progress={downloadProgress}
+                logs={logs}
+                jobs={jobs}
+                onMove={move}
+                onPause={pause}
+                onResume={resume}
+                onRetry={retry}
+                onRetryFailed={retryFailed}
+                onCancel={cancel}
+                onClearFinished={clearFinished}
+              />
             </div>
 
             <div className="space-y-2">
@@ -3,17 +3,70 @@
 
 import { useEffect, useState } from "react";
 import { useRouter } from "next/navigation";
-import { getSettings, saveSettings, TidalSettings } from "@/lib/settings";
+import { getSettings, LyricsEmbedMode, saveSettings, TidalSettings } from "@/lib/settings";
 import { isAuthenticated } from "@/lib/auth";
-import { Save, CheckCircle } from "lucide-react";
+import { formatMediaPath, TEMPLATE_PLACEHOLDERS } from "@/lib/path-template";
+import { TidalTrack, TidalAlbum, TidalPlaylist } from "@/lib/tidal-client";
+import { clearOutputDirectory, getStoredOutputDirectory, isDirectoryPickerSupported, pickOutputDirectory } from "@/lib/output-directory";
+import { Save, CheckCircle, FolderOpen } from "lucide-react";
 import Link from "next/link";
 
+// Sample media used to render the live preview of path templates
+const PREVIEW_ALBUM: TidalAlbum = {
+    id: 77646168,
+    title: "Random Access Memories",
+    duration: 4478,
+    numberOfTracks: 13,
+    numberOfVolumes: 2,
+    explicit: false,
+    audioQuality: "LOSSLESS",
+    releaseDate: "2013-05-17",
+    artist: { id: 8847, name: "Daft Punk" },
+    artists: [{ id: 8847, name: "Daft Punk" }],
+    cover: "",
+};
+
+const PREVIEW_TRACK: TidalTrack = {
+    id: 77646172,
+    title: "Get Lucky (feat. Pharrell Williams & Nile Rodgers)",
+    duration: 369,
+    trackNumber: 8,
+    volumeNumber: 1,
+    explicit: false,
+    audioQuality: "LOSSLESS",
+    isrc: "USQX91300108",
+    artist: { id: 8847, name: "Daft Punk" },
+    artists: [{ id: 8847, name: "Daft Punk" }, { id: 3536, name: "Pharrell Williams" }],
+    album: { id: PREVIEW_ALBUM.id, title: PREVIEW_ALBUM.title, cover: "" },
+};
+
+const PREVIEW_PLAYLIST: TidalPlaylist = {
+    uuid: "36ea71a8-445e-41a4-82ab-6628c581535d",
+    title: "Disco Classics",
+    numberOfTracks: 120,
+    duration: 27000,
+    image: "",
+    squareImage: "",
+    created: "",
+    lastUpdated: "",
+};
+
+const TEMPLATE_FIELDS: Array<{ key: keyof TidalSettings; label: string }> = [
+    { key: "format_track", label: "Track" },
+    { key: "format_album", label: "Album" },
+    { key: "format_playlist", label: "Playlist" },
+    { key: "format_mix", label: "Mix" },
+    { key: "format_video", label: "Video" },
+];
+
 export default function SettingsPage() {
     const router = useRouter();
     const [settings, setSettings] = useState<TidalSettings | null>(null);
     const [isLoading, setIsLoading] = useState(true);
     const [isSaving, setIsSaving] = useState(false);
     const [saveSuccess, setSaveSuccess] = useState(false);
+    const [folderSupported, setFolderSupported] = useState(false);
+    const [outputFolder, setOutputFolder] = useState<string | null>(null);
 
     useEffect(() => {
         // Check if user is authenticated
@@ -28,6 +81,13 @@ export default function SettingsPage() {
         // eslint-disable-next-line react-hooks/set-state-in-effect
         setSettings(loaded);
         setIsLoading(false);
+
+        if (isDirectoryPickerSupported()) {
+            getStoredOutputDirectory().then((handle) => {
+                setFolderSupported(true);
+                setOutputFolder(handle?.name ?? null);
+            });
+        }
     }, [router]);
 
     const handleChange = (key: keyof TidalSettings, value: string | boolean) => {
@@ -49,7 +109,35 @@ export default function SettingsPage() {
         setIsSaving(false);
     };
 
+    const handlePickFolder = async () => {
+        try {
+            const handle = await pickOutputDirectory();
+            setOutputFolder(handle.name);
+        } catch (error) {
+            // Closing the picker rejects with AbortError
+            if (error instanceof DOMException && error.name === "AbortError") return;
+            console.error("Failed to pick download folder:", error);
+            alert("Failed to set download folder.");
+        }
+    };
 
+    const handleClearFolder = async () => {
+        await clearOutputDirectory();
+        setOutputFolder(null);
+    };
+
+    const renderTemplatePreview = (template: string) => {
+        const path = formatMediaPath(template, {
+            track: PREVIEW_TRACK,
+            album: PREVIEW_ALBUM,
+            playlist: PREVIEW_PLAYLIST,
+            mix: { id: "0000000000000000000000000000", title: "My Daily Discovery" },
+            listPosition: 8,
+            listTotal: PREVIEW_PLAYLIST.numberOfTracks,
+            artistSeparator: settings?.metadata_artist_separator,
+        });
+        return `${path}.flac`;
+    };
 
     if (isLoading || !settings) {
         return <div className="p-8 text-center text-on-surface-variant animate-pulse">Loading settings...</div>;
@@ -112,6 +200,49 @@ export default function SettingsPage() {
                                 </div>
                             </label>
 
+                            <label className="flex items-center gap-3 cursor-pointer group">
+                                <div className="relative flex items-center">
+                                    <input
+                                        type="checkbox"
+                                        checked={settings.video_download}
+                                        onChange={(e) => handleChange("video_download", e.target.checked)}
+                                        className="peer h-4.5 w-4.5 cursor-pointer appearance-none rounded-md border-2 border-on-surface-variant transition-all checked:border-primary checked:bg-primary hover:border-primary focus:ring-2 focus:ring-primary/20"
+                                    />
+                                    <CheckCircle className="absolute left-1/2 top-1/2 -translate-x-1/2 -translate-y-1/2 w-3 h-3 text-on-primary opacity-0 peer-checked:opacity-100 transition-opacity pointer-events-none" />
+                                </div>
+                                <div className="flex flex-col">
+                                    <span className="text-sm text-on-surface group-hover:text-primary transition-colors">
+                                        Download Videos
+                                    </span>
+                                    <span className="text-xs text-on-surface-variant/60">
+                                        Also downloads the music videos in albums, playlists and mixes. Off by default.
+                                    </span>
+                                </div>
+                            </label>
+
+                            <div className="space-y-1.5">
+                                <label className="block text-sm font-medium text-on-surface-variant ml-1">
+                                    Video Quality
+                                </label>
+                                <div className="relative">
+                                    <select
+                                        value={settings.quality_video}
+                                        onChange={(e) => handleChange("quality_video", e.target.value as TidalSettings['quality_video'])}
+                                        className="w-full appearance-none bg-surface-container-high text-on-surface rounded-xl px-3 py-2.5 pr-10 border-none outline-none ring-1 ring-transparent focus:ring-2 focus:ring-primary transition-all duration-200 cursor-pointer text-sm"
+                                    >
+                                        <option value="1080">1080p</option>
+                                        <option value="720">720p</option>
+                                        <option value="480">480p</option>
+                                        <option value="360">360p</option>
+                                    </select>
+                                    <div className="pointer-events-none absolute inset-y-0 right-0 flex items-center px-3 text-on-surface-variant">
+                                        <svg className="h-4 w-4 fill-current" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20">
+                                            <path d="M9.293 12.95l.707.707L15.657 8l-1.414-1.414L10 10.828 5.757 6.586 4.343 8z" />
+                                        </svg>
+                                    </div>
+                                </div>
+                            </div>
+
                             <div className="space-y-1.5">
                                 <label className="block text-sm font-medium text-on-surface-variant ml-1">
                                     Cover Art Size
@@ -135,6 +266,79 @@ export default function SettingsPage() {
                                 </div>
                             </div>
 
+                            <div className="space-y-1.5">
+                                <label className="block text-sm font-medium text-on-surface-variant ml-1">
+                                    Download Retries
+                                </label>
+                                <div className="relative">
+                                    <select
+                                        value={settings.download_retry_attempts}
+                                        onChange={(e) => handleChange("download_retry_attempts", e.target.value as TidalSettings['download_retry_attempts'])}
+                                        className="w-full appearance-none bg-surface-container-high text-on-surface rounded-xl px-3 py-2.5 pr-10 border-none outline-none ring-1 ring-transparent focus:ring-2 focus:ring-primary transition-all duration-200 cursor-pointer text-sm"
+                                    >
+                                        <option value="0">Off</option>
+                                        <option value="1">1 retry</option>
+                                        <option value="3">3 retries</option>
+                                        <option value="5">5 retries</option>
+                                    </select>
+                                    <div className="pointer-events-none absolute inset-y-0 right-0 flex items-center px-3 text-on-surface-variant">
+                                        <svg className="h-4 w-4 fill-current" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20">
+                                            <path d="M9.293 12.95l.707.707L15.657 8l-1.414-1.414L10 10.828 5.757 6.586 4.343 8z" />
+                                        </svg>
+                                    </div>
+                                </div>
+                                <p className="text-xs text-on-surface-variant/60 ml-1">
+                                    Retries failed segments and chunks with increasing delays before failing the track.
+                                </p>
+                            </div>
+
+                            <div className="space-y-1.5">
+                                <label className="block text-sm font-medium text-on-surface-variant ml-1">
+                                    Embedded Lyrics
+                                </label>
+                                <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                                    <div className="relative">
+                                        <select
+                                            value={settings.lyrics_embed_flac}
+                                            onChange={(e) => handleChange("lyrics_embed_flac", e.target.value as LyricsEmbedMode)}
+                                            disabled={!settings.lyrics_embed}
+                                            className="w-full appearance-none bg-surface-container-high text-on-surface rounded-xl px-3 py-2.5 pr-10 border-none outline-none ring-1 ring-transparent focus:ring-2 focus:ring-primary transition-all duration-200 cursor-pointer text-sm disabled:opacity-50"
+                                            aria-label="FLAC"
+                                        >
+                                            <option value="both">FLAC: Synced + unsynced</option>
+                                            <option value="synced">FLAC: Synced</option>
+                                            <option value="unsynced">FLAC: Unsynced</option>
+                                        </select>
+                                        <div className="pointer-events-none absolute inset-y-0 right-0 flex items-center px-3 text-on-surface-variant">
+                                            <svg className="h-4 w-4 fill-current" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20">
+                                                <path d="M9.293 12.95l.707.707L15.657 8l-1.414-1.414L10 10.828 5.757 6.586 4.343 8z" />
+                                            </svg>
+                                        </div>
+                                    </div>
+                                    <div className="relative">
+                                        <select
+                                            value={settings.lyrics_embed_m4a}
+                                            onChange={(e) => handleChange("lyrics_embed_m4a", e.target.value as LyricsEmbedMode)}
+                                            disabled={!settings.lyrics_embed}
+                                            className="w-full appearance-none bg-surface-container-high text-on-surface rounded-xl px-3 py-2.5 pr-10 border-none outline-none ring-1 ring-transparent focus:ring-2 focus:ring-primary transition-all duration-200 cursor-pointer text-sm disabled:opacity-50"
+                                            aria-label="M4A"
+                                        >
+                                            <option value="both">M4A: Synced + unsynced</option>
+                                            <option value="synced">M4A: Synced</option>
+                                            <option value="unsynced">M4A: Unsynced</option>
+                                        </select>
+                                        <div className="pointer-events-none absolute inset-y-0 right-0 flex items-center px-3 text-on-surface-variant">
+                                            <svg className="h-4 w-4 fill-current" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20">
+                                                <path d="M9.293 12.95l.707.707L15.657 8l-1.414-1.414L10 10.828 5.757 6.586 4.343 8z" />
+                                            </svg>
+                                        </div>
+                                    </div>
+                                </div>
+                                <p className="text-xs text-on-surface-variant/60 ml-1">
+                                    Synced lyrics keep their timestamps (LRC). With both, FLAC gets LYRICS and UNSYNCEDLYRICS tags; M4A gets plain lyrics in ©lyr and the synced text in a LYRICS tag.
+                                </p>
+                            </div>
+
 
                             <div className="space-y-3 pt-1">
                                 <label className="flex items-center gap-3 cursor-pointer group">
@@ -152,6 +356,21 @@ export default function SettingsPage() {
                                     </span>
                                 </label>
 
+                                <label className="flex items-center gap-3 cursor-pointer group">
+                                    <div className="relative flex items-center">
+                                        <input
+                                            type="checkbox"
+                                            checked={settings.lyrics_file}
+                                            onChange={(e) => handleChange("lyrics_file", e.target.checked)}
+                                            className="peer h-4.5 w-4.5 cursor-pointer appearance-none rounded-md border-2 border-on-surface-variant transition-all checked:border-primary checked:bg-primary hover:border-primary focus:ring-2 focus:ring-primary/20"
+                                        />
+                                        <CheckCircle className="absolute left-1/2 top-1/2 -translate-x-1/2 -translate-y-1/2 w-3 h-3 text-on-primary opacity-0 peer-checked:opacity-100 transition-opacity pointer-events-none" />
+                                    </div>
+                                    <span className="text-sm text-on-surface group-hover:text-primary transition-colors">
+                                        Save lyrics as .lrc files next to tracks (.txt when not synced)
+                                    </span>
+                                </label>
+
                                 <label className="flex items-center gap-3 cursor-pointer group">
                                     <div className="relative flex items-center">
                                         <input
@@ -187,6 +406,26 @@ export default function SettingsPage() {
                                     </div>
                                 </label>
 
+                                <label className="flex items-center gap-3 cursor-pointer group">
+                                    <div className="relative flex items-center">
+                                        <input
+                                            type="checkbox"
+                                            checked={settings.metadata_musicbrainz_ids}
+                                            onChange={(e) => handleChange("metadata_musicbrainz_ids", e.target.checked)}
+                                            className="peer h-4.5 w-4.5 cursor-pointer appearance-none rounded-md border-2 border-on-surface-variant transition-all checked:border-primary checked:bg-primary hover:border-primary focus:ring-2 focus:ring-primary/20"
+                                        />
+                                        <CheckCircle className="absolute left-1/2 top-1/2 -translate-x-1/2 -translate-y-1/2 w-3 h-3 text-on-primary opacity-0 peer-checked:opacity-100 transition-opacity pointer-events-none" />
+                                    </div>
+                                    <div className="flex flex-col">
+                                        <span className="text-sm text-on-surface group-hover:text-primary transition-colors">
+                                            Embed MusicBrainz IDs and release info
+                                        </span>
+                                        <span className="text-xs text-on-surface-variant/60">
+                                            Adds recording, release and artist IDs, original date, label, catalog number and barcode for Picard and beets
+                                        </span>
+                                    </div>
+                                </label>
+
                                 <div className="space-y-1.5 pt-2">
                                     <label className="block text-sm font-medium text-on-surface-variant ml-1">
                                         Artist Separator
@@ -223,9 +462,56 @@ export default function SettingsPage() {
                                         />
                                         <CheckCircle className="absolute left-1/2 top-1/2 -translate-x-1/2 -translate-y-1/2 w-3 h-3 text-on-primary opacity-0 peer-checked:opacity-100 transition-opacity pointer-events-none" />
                                     </div>
-                                    <span className="text-sm text-on-surface group-hover:text-primary transition-colors">
-                                        Skip downloading existing files
-                                    </span>
+                                    <div className="flex flex-col">
+                                        <span className="text-sm text-on-surface group-hover:text-primary transition-colors">
+                                            Skip downloading existing files
+                                        </span>
+                                        <span className="text-xs text-on-surface-variant/60">
+                                            Album, playlist and mix downloads skip tracks whose files are already in the download folder. ZIP downloads always include every track.
+                                        </span>
+                                    </div>
+                                </label>
+
+                                {settings.skip_existing && (
+                                    <label className="flex items-center gap-3 cursor-pointer group">
+                                        <div className="relative flex items-center">
+                                            <input
+                                                type="checkbox"
+                                                checked={settings.skip_existing_upgrade}
+                                                onChange={(e) => handleChange("skip_existing_upgrade", e.target.checked)}
+                                                className="peer h-4.5 w-4.5 cursor-pointer appearance-none rounded-md border-2 border-on-surface-variant transition-all checked:border-primary checked:bg-primary hover:border-primary focus:ring-2 focus:ring-primary/20"
+                                            />
+                                            <CheckCircle className="absolute left-1/2 top-1/2 -translate-x-1/2 -translate-y-1/2 w-3 h-3 text-on-primary opacity-0 peer-checked:opacity-100 transition-opacity pointer-events-none" />
+                                        </div>
+                                        <div className="flex flex-col">
+                                            <span className="text-sm text-on-surface group-hover:text-primary transition-colors">
+                                                Re-download if quality improved
+                                            </span>
+                                            <span className="text-xs text-on-surface-variant/60">
+                                                Downloads a track again when it was saved below the quality now available.
+                                            </span>
+                                        </div>
+                                    </label>
+                                )}
+
+                                <label className="flex items-center gap-3 cursor-pointer group">
+                                    <div className="relative flex items-center">
+                                        <input
+                                            type="checkbox"
+                                            checked={settings.verify_flac_md5}
+                                            onChange={(e) => handleChange("verify_flac_md5", e.target.checked)}
+                                            className="peer h-4.5 w-4.5 cursor-pointer appearance-none rounded-md border-2 border-on-surface-variant transition-all checked:border-primary checked:bg-primary hover:border-primary focus:ring-2 focus:ring-primary/20"
+                                        />
+                                        <CheckCircle className="absolute left-1/2 top-1/2 -translate-x-1/2 -translate-y-1/2 w-3 h-3 text-on-primary opacity-0 peer-checked:opacity-100 transition-opacity pointer-events-none" />
+                                    </div>
+                                    <div className="flex flex-col">
+                                        <span className="text-sm text-on-surface group-hover:text-primary transition-colors">
+                                            Verify FLAC audio checksum
+                                        </span>
+                                        <span className="text-xs text-on-surface-variant/60">
+                                            Decodes every FLAC to check its MD5. Loads the audio processor (~30 MB) and slows down each track.
+                                        </span>
+                                    </div>
                                 </label>
 
                                 <label className="flex items-center gap-3 cursor-pointer group">
@@ -269,6 +555,182 @@ export default function SettingsPage() {
                                 </label>
                             </div>
 
+                            <div className="space-y-3 pt-4 border-t border-outline-variant/20">
+                                <div className="space-y-1">
+                                    <h2 className="text-sm font-medium text-on-surface-variant ml-1">
+                                        Artist Downloads
+                                    </h2>
+                                    <p className="text-xs text-on-surface-variant/60 ml-1">
+                                        Release types included when downloading an artist URL.
+                                    </p>
+                                </div>
+
+                                <label className="flex items-center gap-3 cursor-pointer group">
+                                    <div className="relative flex items-center">
+                                        <input
+                                            type="checkbox"
+                                            checked={settings.artist_include_albums}
+                                            onChange={(e) => handleChange("artist_include_albums", e.target.checked)}
+                                            className="peer h-4.5 w-4.5 cursor-pointer appearance-none rounded-md border-2 border-on-surface-variant transition-all checked:border-primary checked:bg-primary hover:border-primary focus:ring-2 focus:ring-primary/20"
+                                        />
+                                        <CheckCircle className="absolute left-1/2 top-1/2 -translate-x-1/2 -translate-y-1/2 w-3 h-3 text-on-primary opacity-0 peer-checked:opacity-100 transition-opacity pointer-events-none" />
+                                    </div>
+                                    <span className="text-sm text-on-surface group-hover:text-primary transition-colors">
+                                        Albums
+                                    </span>
+                                </label>
+
+                                <label className="flex items-center gap-3 cursor-pointer group">
+                                    <div className="relative flex items-center">
+                                        <input
+                                            type="checkbox"
+                                            checked={settings.artist_include_eps_singles}
+                                            onChange={(e) => handleChange("artist_include_eps_singles", e.target.checked)}
+                                            className="peer h-4.5 w-4.5 cursor-pointer appearance-none rounded-md border-2 border-on-surface-variant transition-all checked:border-primary checked:bg-primary hover:border-primary focus:ring-2 focus:ring-primary/20"
+                                        />
+                                        <CheckCircle className="absolute left-1/2 top-1/2 -translate-x-1/2 -translate-y-1/2 w-3 h-3 text-on-primary opacity-0 peer-checked:opacity-100 transition-opacity pointer-events-none" />
+                                    </div>
+                                    <span className="text-sm text-on-surface group-hover:text-primary transition-colors">
+                                        EPs &amp; Singles
+                                    </span>
+                                </label>
+
+                                <label className="flex items-center gap-3 cursor-pointer group">
+                                    <div className="relative flex items-center">
+                                        <input
+                                            type="checkbox"
+                                            checked={settings.artist_include_compilations}
+                                            onChange={(e) => handleChange("artist_include_compilations", e.target.checked)}
+                                            className="peer h-4.5 w-4.5 cursor-pointer appearance-none rounded-md border-2 border-on-surface-variant transition-all checked:border-primary checked:bg-primary hover:border-primary focus:ring-2 focus:ring-primary/20"
+                                        />
+                                        <CheckCircle className="absolute left-1/2 top-1/2 -translate-x-1/2 -translate-y-1/2 w-3 h-3 text-on-primary opacity-0 peer-checked:opacity-100 transition-opacity pointer-events-none" />
+                                    </div>
+                                    <span className="text-sm text-on-surface group-hover:text-primary transition-colors">
+                                        Compilations
+                                    </span>
+                                </label>
+
+                                <label className="flex items-center gap-3 cursor-pointer group">
+                                    <div className="relative flex items-center">
+                                        <input
+                                            type="checkbox"
+                                            checked={settings.artist_skip_duplicates}
+                                            onChange={(e) => handleChange("artist_skip_duplicates", e.target.checked)}
+                                            className="peer h-4.5 w-4.5 cursor-pointer appearance-none rounded-md border-2 border-on-surface-variant transition-all checked:border-primary checked:bg-primary hover:border-primary focus:ring-2 focus:ring-primary/20"
+                                        />
+                                        <CheckCircle className="absolute left-1/2 top-1/2 -translate-x-1/2 -translate-y-1/2 w-3 h-3 text-on-primary opacity-0 peer-checked:opacity-100 transition-opacity pointer-events-none" />
+                                    </div>
+                                    <div className="flex flex-col">
+                                        <span className="text-sm text-on-surface group-hover:text-primary transition-colors">
+                                            Skip duplicate releases
+                                        </span>
+                                        <span className="text-xs text-on-surface-variant/60">
+                                            Keeps one copy of explicit/clean and remastered variants (prefers explicit, then best quality).
+                                        </span>
+                                    </div>
+                                </label>
+
+                                <label className="flex items-center gap-3 cursor-pointer group">
+                                    <div className="relative flex items-center">
+                                        <input
+                                            type="checkbox"
+                                            checked={settings.artist_single_archive}
+                                            onChange={(e) => handleChange("artist_single_archive", e.target.checked)}
+                                            className="peer h-4.5 w-4.5 cursor-pointer appearance-none rounded-md border-2 border-on-surface-variant transition-all checked:border-primary checked:bg-primary hover:border-primary focus:ring-2 focus:ring-primary/20"
+                                        />
+                                        <CheckCircle className="absolute left-1/2 top-1/2 -translate-x-1/2 -translate-y-1/2 w-3 h-3 text-on-primary opacity-0 peer-checked:opacity-100 transition-opacity pointer-events-none" />
+                                    </div>
+                                    <div className="flex flex-col">
+                                        <span className="text-sm text-on-surface group-hover:text-primary transition-colors">
+                                            Single archive
+                                        </span>
+                                        <span className="text-xs text-on-surface-variant/60">
+                                            Puts the whole discography in one ZIP instead of one ZIP per album.
+                                        </span>
+                                    </div>
+                                </label>
+                            </div>
+
+                            {folderSupported && (
+                                <div className="space-y-3 pt-4 border-t border-outline-variant/20">
+                                    <div className="space-y-1">
+                                        <h2 className="text-sm font-medium text-on-surface-variant ml-1">
+                                            Download Folder
+                                        </h2>
+                                        <p className="text-xs text-on-surface-variant/60 ml-1">
+                                            Write each track straight into a library folder instead of saving a ZIP file.
+                                        </p>
+                                    </div>
+
+                                    <div className="flex flex-wrap items-center gap-3">
+                                        <button
+                                            type="button"
+                                            onClick={handlePickFolder}
+                                            className="flex items-center gap-2 px-4 py-2 bg-surface-container-high text-on-surface rounded-full hover:bg-surface-container-highest transition-colors text-sm font-medium"
+                                        >
+                                            <FolderOpen className="w-4 h-4" />
+                                            {outputFolder ? "Change folder" : "Choose folder"}
+                                        </button>
+                                        {outputFolder ? (
+                                            <>
+                                                <span className="text-sm text-on-surface font-mono truncate">{outputFolder}</span>
+                                                <button
+                                                    type="button"
+                                                    onClick={handleClearFolder}
+                                                    className="text-xs font-medium text-primary hover:underline"
+                                                >
+                                                    Use ZIP downloads
+                                                </button>
+                                            </>
+                                        ) : (
+                                            <span className="text-xs text-on-surface-variant/60">Not set, downloads are saved as ZIP files.</span>
+                                        )}
+                                    </div>
+                                </div>
+                            )}
+
+                            <div className="space-y-4 pt-4 border-t border-outline-variant/20">
+                                <div className="space-y-1">
+                                    <h2 className="text-sm font-medium text-on-surface-variant ml-1">
+                                        File Naming
+                                    </h2>
+                                    <p className="text-xs text-on-surface-variant/60 ml-1">
+                                        Use <code>/</code> to create folders inside the ZIP or download folder. Without a download folder, single tracks only use the file name part.
+                                    </p>
+                                </div>
+
+                                {TEMPLATE_FIELDS.map(({ key, label }) => (
+                                    <div key={key} className="space-y-1.5">
+                                        <label className="block text-sm font-medium text-on-surface-variant ml-1">
+                                            {label}
+                                        </label>
+                                        <input
+                                            type="text"
+                                            value={settings[key] as string}
+                                            onChange={(e) => handleChange(key, e.target.value)}
+                                            spellCheck={false}
+                                            className="w-full bg-surface-container-high text-on-surface rounded-xl px-3 py-2.5 border-none outline-none ring-1 ring-transparent focus:ring-2 focus:ring-primary transition-all duration-200 text-sm font-mono"
+                                        />
+                                        <p className="text-xs text-on-surface-variant/60 ml-1 font-mono break-all">
+                                            {renderTemplatePreview(settings[key] as string)}
+                                        </p>
+                                    </div>
+                                ))}
+
+                                <details className="text-xs text-on-surface-variant/80 ml-1">
+                                    <summary className="cursor-pointer hover:text-primary transition-colors">
+                                        Available placeholders
+                                    </summary>
+                                    <ul className="mt-2 grid gap-1">
+                                        {TEMPLATE_PLACEHOLDERS.map(({ key, description }) => (
+                                            <li key={key}>
+                                                <code className="text-primary">{`{${key}}`}</code> - {description}
+                                            </li>
+                                        ))}
+                                    </ul>
+                                </details>
+                            </div>
+
                             <div className="flex items-center gap-6 pt-2">
                                 <button
                                     onClick={handleSave}
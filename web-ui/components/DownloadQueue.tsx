@@ -1,16 +1,56 @@
 
 "use client";
 
-import { RotateCcw } from "lucide-react";
+import { useState } from "react";
+import { ArrowDown, ArrowUp, ListChecks, ListRestart, Pause, Play, RotateCcw, RotateCw, X } from "lucide-react";
 import { DownloadProgress, triggerSaveDialog } from "../lib/downloader";
+import { canRetryFailed, DownloadJob, JobStatus } from "../lib/download-queue";
 import { DownloadConsole } from "./DownloadConsole";
+import { TrackResultsTable } from "./TrackResultsTable";
 
 interface DownloadQueueProps {
     progress?: DownloadProgress | null;
     logs?: string[];
+    jobs?: DownloadJob[];
+    onMove?: (id: string, offset: number) => void;
+    onPause?: (id: string) => void;
+    onResume?: (id: string) => void;
+    onRetry?: (id: string) => void;
+    onRetryFailed?: (id: string) => void;
+    onCancel?: (id: string) => void;
+    onClearFinished?: () => void;
 }
 
-export function DownloadQueue({ progress, logs = [] }: DownloadQueueProps) {
+const JOB_STATUS_LABELS: Record<JobStatus, string> = {
+    pending: 'Queued',
+    active: 'Downloading',
+    paused: 'Paused',
+    done: 'Done',
+    failed: 'Failed',
+};
+
+const JOB_STATUS_CLASSES: Record<JobStatus, string> = {
+    pending: 'bg-surface-container-highest text-on-surface-variant',
+    active: 'bg-primary text-on-primary',
+    paused: 'bg-secondary-container text-on-secondary-container',
+    done: 'bg-green-500 text-white',
+    failed: 'bg-error text-on-error',
+};
+
+export function DownloadQueue({
+    progress,
+    logs = [],
+    jobs = [],
+    onMove,
+    onPause,
+    onResume,
+    onRetry,
+    onRetryFailed,
+    onCancel,
+    onClearFinished,
+}: DownloadQueueProps) {
+    const [expandedJobId, setExpandedJobId] = useState<string | null>(null);
+
     // For serverless mode, progress is passed in as a prop
     // For Python backend mode, we'd use SSE (legacy mode)
 
@@ -26,11 +66,15 @@ export function DownloadQueue({ progress, logs = [] }: DownloadQueueProps) {
             case 'processing': return 'Processing';
             case 'complete': return 'Complete';
             case 'error': return 'Error';
+            case 'cancelled': return 'Cancelled';
+            case 'paused': return 'Paused';
             default: return 'Idle';
         }
     };
 
     const isMultiTrack = progress?.totalTracks && progress.totalTracks > 1;
+    const hasFinished = jobs.some(job => job.status === 'done' || job.status === 'failed');
+    const iconButtonClass = "p-1 rounded-full text-on-surface-variant hover:bg-surface-container-highest disabled:opacity-30 transition-colors";
 
     return (
         <div className="bg-surface-container-high rounded-3xl p-6 shadow-md transition-shadow hover:shadow-lg">
@@ -95,7 +139,7 @@ export function DownloadQueue({ progress, logs = [] }: DownloadQueueProps) {
                     </div>
                     <div className="w-full bg-surface-container-highest rounded-full h-2 overflow-hidden">
                         <div
-                            className={`h-full rounded-full transition-all duration-300 ease-in-out ${progress.stage === 'error' ? 'bg-error' : 'bg-green-500'}`}
+                            className={`h-full rounded-full transition-all duration-300 ease-in-out ${progress.stage === 'error' ? 'bg-error' : progress.stage === 'cancelled' || progress.stage === 'paused' ? 'bg-on-surface-variant' : 'bg-green-500'}`}
                             style={{ width: `${getProgressPercent()}%` }}
                         />
                     </div>
@@ -106,6 +150,107 @@ export function DownloadQueue({ progress, logs = [] }: DownloadQueueProps) {
                 </div>
             )}
 
+            {jobs.length > 0 && (
+                <div className="mt-6">
+                    <div className="flex items-center justify-between mb-2">
+                        <span className="text-sm font-medium text-on-surface">
+                            Queue ({jobs.filter(job => job.status === 'pending' || job.status === 'active').length} remaining)
+                        </span>
+                        {hasFinished && onClearFinished && (
+                            <button
+                                onClick={onClearFinished}
+                                className="text-xs font-medium text-primary hover:underline"
+                            >
+                                Clear finished
+                            </button>
+                        )}
+                    </div>
+                    <ul className="space-y-2 max-h-64 overflow-y-auto">
+                        {jobs.map((job, index) => (
+                            <li
+                                key={job.id}
+                                className="text-sm bg-surface-container rounded-xl px-3 py-2"
+                            >
+                                <div className="flex items-center gap-2">
+                                    <span className={`text-xs font-bold px-2 py-0.5 rounded-full shrink-0 ${JOB_STATUS_CLASSES[job.status]}`}>
+                                        {JOB_STATUS_LABELS[job.status]}
+                                    </span>
+                                    <span className="flex-1 min-w-0">
+                                        <span className="block truncate text-on-surface" title={job.url}>
+                                            {job.title || job.url}
+                                        </span>
+                                        {job.error && (
+                                            <span className="block truncate text-xs text-error" title={job.error}>
+                                                {job.error}
+                                            </span>
+                                        )}
+                                    </span>
+                                    <div className="flex items-center gap-1 shrink-0">
+                                        {onMove && (
+                                            <>
+                                                <button
+                                                    onClick={() => onMove(job.id, -1)}
+                                                    disabled={index === 0}
+                                                    className={iconButtonClass}
+                                                    title="Move up"
+                                                >
+                                                    <ArrowUp className="w-4 h-4" />
+                                                </button>
+                                                <button
+                                                    onClick={() => onMove(job.id, 1)}
+                                                    disabled={index === jobs.length - 1}
+                                                    className={iconButtonClass}
+                                                    title="Move down"
+                                                >
+                                                    <ArrowDown className="w-4 h-4" />
+                                                </button>
+                                            </>
+                                        )}
+                                        {(job.status === 'pending' || job.status === 'active') && onPause && (
+                                            <button onClick={() => onPause(job.id)} className={iconButtonClass} title="Pause">
+                                                <Pause className="w-4 h-4" />
+                                            </button>
+                                        )}
+                                        {job.status === 'paused' && onResume && (
+                                            <button onClick={() => onResume(job.id)} className={iconButtonClass} title="Resume">
+                                                <Play className="w-4 h-4" />
+                                            </button>
+                                        )}
+                                        {job.results && job.results.length > 0 && (
+                                            <button
+                                                onClick={() => setExpandedJobId(expandedJobId === job.id ? null : job.id)}
+                                                className={iconButtonClass}
+                                                title={expandedJobId === job.id ? 'Hide track results' : 'Show track results'}
+                                            >
+                                                <ListChecks className="w-4 h-4" />
+                                            </button>
+                                        )}
+                                        {canRetryFailed(job) && onRetryFailed && (
+                                            <button onClick={() => onRetryFailed(job.id)} className={iconButtonClass} title="Retry failed tracks">
+                                                <ListRestart className="w-4 h-4" />
+                                            </button>
+                                        )}
+                                        {job.status === 'failed' && onRetry && (
+                                            <button onClick={() => onRetry(job.id)} className={iconButtonClass} title="Retry">
+                                                <RotateCw className="w-4 h-4" />
+                                            </button>
+                                        )}
+                                        {onCancel && (
+                                            <button onClick={() => onCancel(job.id)} className={iconButtonClass} title={job.status === 'active' ? 'Cancel' : 'Remove'}>
+                                                <X className="w-4 h-4" />
+                                            </button>
+                                        )}
+                                    </div>
+                                </div>
+                                {expandedJobId === job.id && job.results && (
+                                    <TrackResultsTable results={job.results} />
+                                )}
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+
             <DownloadConsole logs={logs} />
         </div>
     );
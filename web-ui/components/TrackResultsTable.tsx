@@ -0,0 +1,65 @@
+import { getTrackResultKey } from "../lib/download-queue";
+import { TrackResult } from "../lib/downloader";
+
+interface TrackResultsTableProps {
+    results: TrackResult[];
+}
+
+const STATUS_LABELS: Record<TrackResult['status'], string> = {
+    success: 'Downloaded',
+    skipped: 'Skipped',
+    failed: 'Failed',
+};
+
+const STATUS_CLASSES: Record<TrackResult['status'], string> = {
+    success: 'text-green-500',
+    skipped: 'text-on-surface-variant',
+    failed: 'text-error',
+};
+
+/**
+ * Per-track summary of a finished album, playlist or mix job
+ */
+export function TrackResultsTable({ results }: TrackResultsTableProps) {
+    const count = (status: TrackResult['status']) => results.filter(result => result.status === status).length;
+
+    const getQuality = (result: TrackResult) => {
+        if (result.isAtmos) return 'Dolby Atmos';
+        return result.audioQuality?.replace(/_/g, ' ') || '';
+    };
+
+    return (
+        <div className="mt-2 text-xs">
+            <div className="text-on-surface-variant mb-1">
+                {count('success')} downloaded, {count('skipped')} skipped, {count('failed')} failed
+            </div>
+            <div className="max-h-48 overflow-y-auto rounded-lg bg-surface-container-highest">
+                <table className="w-full text-left">
+                    <thead className="text-on-surface-variant">
+                        <tr>
+                            <th className="px-2 py-1 font-medium">#</th>
+                            <th className="px-2 py-1 font-medium">Track</th>
+                            <th className="px-2 py-1 font-medium">Status</th>
+                            <th className="px-2 py-1 font-medium">Quality</th>
+                            <th className="px-2 py-1 font-medium">Note</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {results.map(result => (
+                            <tr key={getTrackResultKey(result)} className="border-t border-surface-container">
+                                <td className="px-2 py-1 text-on-surface-variant">{result.position}</td>
+                                <td className="px-2 py-1 text-on-surface max-w-[12rem] truncate" title={result.title}>{result.title}</td>
+                                <td className={`px-2 py-1 font-medium ${STATUS_CLASSES[result.status]}`}>{STATUS_LABELS[result.status]}</td>
+                                <td className={`px-2 py-1 ${result.fallbackQuality ? 'text-orange-400' : 'text-on-surface-variant'}`}>
+                                    {getQuality(result)}
+                                    {result.fallbackQuality && ' (fallback)'}
+                                </td>
+                                <td className="px-2 py-1 text-on-surface-variant max-w-[14rem] truncate" title={result.reason}>{result.reason}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+        </div>
+    );
+}
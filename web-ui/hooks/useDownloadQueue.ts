@@ -0,0 +1,154 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { api, DownloadResult } from "../lib/api";
+import { DownloadPausedError, DownloadProgress } from "../lib/downloader";
+import { canRetryFailed, createJob, DownloadJob, getRetryableTrackIds, loadQueue, mergeTrackResults, moveJob, removeJobCheckpoint, saveQueue } from "../lib/download-queue";
+
+/**
+ * Runs queued download jobs one at a time and keeps the queue persisted
+ * @param onJobComplete - Called with the result of every successful job
+ */
+export function useDownloadQueue(onJobComplete?: (result: DownloadResult) => void) {
+    const [jobs, setJobs] = useState<DownloadJob[]>([]);
+    const [loaded, setLoaded] = useState(false);
+    const [progress, setProgress] = useState<DownloadProgress | null>(null);
+    const [logs, setLogs] = useState<string[]>([]);
+    const runningRef = useRef(false);
+    const activeRef = useRef<{ id: string; controller: AbortController } | null>(null);
+    const onJobCompleteRef = useRef(onJobComplete);
+
+    useEffect(() => {
+        onJobCompleteRef.current = onJobComplete;
+    }, [onJobComplete]);
+
+    // Restore the queue from IndexedDB
+    useEffect(() => {
+        loadQueue().then((restored) => {
+            setJobs(restored);
+            setLoaded(true);
+        });
+    }, []);
+
+    // Persist every change once the initial load is done
+    useEffect(() => {
+        if (loaded) {
+            saveQueue(jobs);
+        }
+    }, [jobs, loaded]);
+
+    const updateJob = useCallback((id: string, patch: Partial<DownloadJob>) => {
+        setJobs(prev => prev.map(job => job.id === id ? { ...job, ...patch } : job));
+    }, []);
+
+    const runJob = useCallback(async (job: DownloadJob) => {
+        const controller = new AbortController();
+        runningRef.current = true;
+        activeRef.current = { id: job.id, controller };
+        updateJob(job.id, { status: 'active', error: undefined });
+        setProgress({ stage: 'fetching', progress: 0, message: 'Starting download...' });
+
+        try {
+            const result = await api.download(
+                { url: job.url, track_ids: job.trackIds },
+                (p) => setProgress(p),
+                (logMessage) => setLogs(prev => [...prev, logMessage]),
+                controller.signal
+            );
+
+            const data = result.data as { title?: string; name?: string } | undefined;
+            const results = result.tracks ? mergeTrackResults(job.results, result.tracks, job.trackIds) : undefined;
+            const failures = results?.filter(track => track.status === 'failed').length || 0;
+            updateJob(job.id, {
+                status: 'done',
+                title: data?.title || data?.name,
+                results,
+                trackIds: undefined,
+                error: failures > 0 ? `${failures} of ${results?.length} tracks failed` : undefined,
+            });
+
+            if (result.status === 'completed') {
+                onJobCompleteRef.current?.(result);
+            }
+        } catch (err) {
+            if (controller.signal.aborted) {
+                // The downloader already reported the stage; paused jobs resume from their checkpoint later
+                if (controller.signal.reason instanceof DownloadPausedError) {
+                    updateJob(job.id, { status: 'paused' });
+                    return;
+                }
+                // Cancelled jobs leave the queue
+                setJobs(prev => prev.filter(item => item.id !== job.id));
+                return;
+            }
+            console.error("Download failed", err);
+            const message = err instanceof Error ? err.message : "Unknown error";
+            updateJob(job.id, { status: 'failed', error: message });
+            setProgress({ stage: 'error', progress: 0, message });
+        } finally {
+            runningRef.current = false;
+            activeRef.current = null;
+        }
+    }, [updateJob]);
+
+    // Start the next pending job whenever the queue is idle
+    useEffect(() => {
+        if (!loaded || runningRef.current) return;
+        const next = jobs.find(job => job.status === 'pending');
+        if (next) {
+            runJob(next);
+        }
+    }, [jobs, loaded, runJob]);
+
+    const addUrls = useCallback((urls: string[]) => {
+        setJobs(prev => [...prev, ...urls.map(createJob)]);
+    }, []);
+
+    const move = useCallback((id: string, offset: number) => {
+        setJobs(prev => moveJob(prev, id, offset));
+    }, []);
+
+    // The active job is aborted and set to paused once the downloader has stopped
+    const pause = useCallback((id: string) => {
+        if (activeRef.current?.id === id) {
+            activeRef.current.controller.abort(new DownloadPausedError());
+            return;
+        }
+        setJobs(prev => prev.map(job => job.id === id && job.status === 'pending' ? { ...job, status: 'paused' } : job));
+    }, []);
+
+    const resume = useCallback((id: string) => {
+        setJobs(prev => prev.map(job => job.id === id && job.status === 'paused' ? { ...job, status: 'pending' } : job));
+    }, []);
+
+    const retry = useCallback((id: string) => {
+        setJobs(prev => prev.map(job => job.id === id && job.status === 'failed' ? { ...job, status: 'pending', error: undefined } : job));
+    }, []);
+
+    // Runs the job again for its failed tracks only; results of the other tracks are kept
+    const retryFailed = useCallback((id: string) => {
+        setJobs(prev => prev.map(job => job.id === id && canRetryFailed(job)
+            ? { ...job, status: 'pending', error: undefined, trackIds: getRetryableTrackIds(job) }
+            : job));
+    }, []);
+
+    // Active jobs are aborted and removed once the downloader has stopped (it removes their checkpoint itself)
+    const cancel = useCallback((id: string) => {
+        if (activeRef.current?.id === id) {
+            activeRef.current.controller.abort();
+            return;
+        }
+        const removed = jobs.find(job => job.id === id && job.status !== 'active');
+        if (!removed) return;
+        setJobs(prev => prev.filter(job => job.id !== id || job.status === 'active'));
+        removeJobCheckpoint(removed);
+    }, [jobs]);
+
+    // Failed jobs keep their checkpoint for a retry until they are cleared
+    const clearFinished = useCallback(() => {
+        const isFinished = (job: DownloadJob) => job.status === 'done' || job.status === 'failed';
+        const removed = jobs.filter(isFinished);
+        setJobs(prev => prev.filter(job => !isFinished(job)));
+        removed.forEach(removeJobCheckpoint);
+    }, [jobs]);
+
+    return { jobs, progress, logs, addUrls, move, pause, resume, retry, retryFailed, cancel, clearFinished };
+}
@@ -4,9 +4,18 @@
  */
 
 import { getValidToken, isAuthenticated, startDeviceAuth, pollForToken, clearAuth, fetchUserInfo } from './auth';
-import { search as tidalSearch, parseTidalUrl } from './tidal-client';
+import { search as tidalSearch, parseTidalUrl, TidalTrack, TidalAlbum, TidalPlaylist, TidalArtist, TidalVideo, TidalMix } from './tidal-client';
 import { getSettings, saveSettings, TidalSettings } from './settings';
-import { downloadTrack, downloadAlbum, downloadPlaylist, DownloadProgress } from '@/lib/downloader';
+import { downloadTrack, downloadAlbum, downloadPlaylist, downloadArtist, downloadVideo, downloadMix, DownloadProgress, TrackResult } from '@/lib/downloader';
+
+export interface DownloadResult {
+    status: string;
+    type?: 'TRACK' | 'ALBUM' | 'PLAYLIST' | 'ARTIST' | 'VIDEO' | 'MIX';
+    data?: TidalTrack | TidalAlbum | TidalPlaylist | TidalArtist | TidalVideo | TidalMix;
+    isAtmos?: boolean;
+    /** Per-track results of album, playlist, mix and artist downloads */
+    tracks?: TrackResult[];
+}
 
 // Environment detection
 const isServerless = process.env.NEXT_PUBLIC_SERVERLESS === 'true' || typeof window !== 'undefined' && !window.location.hostname.includes('localhost');
@@ -68,15 +77,21 @@ export const api = {
 
     /**
      * Download media - triggers browser save dialog
+     * Aborting the signal stops the download and rejects with the abort reason
+     * `track_ids` limits album, playlist and mix downloads to those items (e.g. to retry failed tracks)
      */
     download: async (
-        data: { url?: string; media_id?: string; media_type?: string },
+        data: { url?: string; media_id?: string; media_type?: string; track_ids?: number[] },
         onProgress?: (progress: DownloadProgress) => void,
-        onLog?: (message: string) => void
-    ) => {
+        onLog?: (message: string) => void,
+        signal?: AbortSignal
+    ): Promise<DownloadResult> => {
         let trackId: string | null = null;
         let albumId: string | null = null;
         let playlistId: string | null = null;
+        let artistId: string | null = null;
+        let videoId: string | null = null;
+        let mixId: string | null = null;
 
         // Parse URL to get media type and ID
         if (data.url) {
@@ -88,6 +103,12 @@ export const api = {
                     albumId = parsed.id;
                 } else if (parsed.type === 'playlist') {
                     playlistId = parsed.id;
+                } else if (parsed.type === 'artist') {
+                    artistId = parsed.id;
+                } else if (parsed.type === 'video') {
+                    videoId = parsed.id;
+                } else if (parsed.type === 'mix') {
+                    mixId = parsed.id;
                 } else {
                     throw new Error(`${parsed.type} downloads not yet supported.`);
                 }
@@ -100,20 +121,35 @@ export const api = {
                 albumId = data.media_id;
             } else if (type === 'playlist') {
                 playlistId = data.media_id;
+            } else if (type === 'artist') {
+                artistId = data.media_id;
+            } else if (type === 'video') {
+                videoId = data.media_id;
+            } else if (type === 'mix') {
+                mixId = data.media_id;
             }
         }
 
         // Use client-side downloader
         if (isServerless || isAuthenticated()) {
             if (trackId) {
-                const result = await downloadTrack(trackId, onProgress, onLog);
+                const result = await downloadTrack(trackId, onProgress, onLog, signal);
                 return { status: 'completed', type: 'TRACK', data: result.track, isAtmos: result.isAtmos };
             } else if (albumId) {
-                const result = await downloadAlbum(albumId, onProgress, onLog);
-                return { status: 'completed', type: 'ALBUM', data: result.album, isAtmos: result.isAtmos };
+                const result = await downloadAlbum(albumId, onProgress, onLog, data.track_ids, signal);
+                return { status: 'completed', type: 'ALBUM', data: result.album, isAtmos: result.isAtmos, tracks: result.tracks };
             } else if (playlistId) {
-                const result = await downloadPlaylist(playlistId, onProgress, onLog);
-                return { status: 'completed', type: 'PLAYLIST', data: result.playlist, isAtmos: result.isAtmos };
+                const result = await downloadPlaylist(playlistId, onProgress, onLog, data.track_ids, signal);
+                return { status: 'completed', type: 'PLAYLIST', data: result.playlist, isAtmos: result.isAtmos, tracks: result.tracks };
+            } else if (artistId) {
+                const result = await downloadArtist(artistId, onProgress, onLog, signal);
+                return { status: 'completed', type: 'ARTIST', data: result.artist, isAtmos: result.isAtmos, tracks: result.tracks };
+            } else if (videoId) {
+                const result = await downloadVideo(videoId, onProgress, onLog, signal);
+                return { status: 'completed', type: 'VIDEO', data: result.video, isAtmos: false };
+            } else if (mixId) {
+                const result = await downloadMix(mixId, onProgress, onLog, data.track_ids, signal);
+                return { status: 'completed', type: 'MIX', data: result.mix, isAtmos: result.isAtmos, tracks: result.tracks };
             }
             throw new Error('Could not determine media type from input');
         }
@@ -123,6 +159,7 @@ export const api = {
             method: "POST",
             headers: { "Content-Type": "application/json" },
             body: JSON.stringify(data),
+            signal,
         });
         return res.json();
     },
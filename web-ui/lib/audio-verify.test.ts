@@ -0,0 +1,93 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { FFmpeg } from '@ffmpeg/ffmpeg';
+import { verifyAudioFile } from './audio-verify';
+
+const MD5 = '00112233445566778899aabbccddeeff';
+
+/**
+ * 16-bit stereo FLAC with a STREAMINFO block and one fake frame
+ */
+function flacFile(seconds: number, md5 = MD5): Uint8Array {
+    const sampleRate = 44100;
+    const totalSamples = seconds * sampleRate;
+    const streamInfo = new Uint8Array(34);
+    streamInfo[10] = sampleRate >> 12;
+    streamInfo[11] = (sampleRate >> 4) & 0xFF;
+    streamInfo[12] = ((sampleRate & 0x0F) << 4) | (1 << 1);
+    streamInfo[13] = 15 << 4;
+    new DataView(streamInfo.buffer).setUint32(14, totalSamples);
+    streamInfo.set(md5.match(/../g)!.map(byte => parseInt(byte, 16)), 18);
+
+    const file = new Uint8Array(4 + 4 + 34 + 4);
+    file.set([0x66, 0x4C, 0x61, 0x43], 0); // fLaC
+    file.set([0x80, 0, 0, 34], 4);
+    file.set(streamInfo, 8);
+    file.set([0xFF, 0xF8, 0x69, 0x08], 42);
+    return file;
+}
+
+function fakeFFmpeg(decodedMd5: string, exec?: () => Promise<number>): FFmpeg {
+    return {
+        writeFile: vi.fn(async () => true),
+        exec: vi.fn(exec || (async () => 0)),
+        readFile: vi.fn(async () => `MD5=${decodedMd5}\n`),
+        deleteFile: vi.fn(async () => true),
+    } as unknown as FFmpeg;
+}
+
+afterEach(() => {
+    vi.restoreAllMocks();
+});
+
+describe('verifyAudioFile', () => {
+    it('passes a FLAC whose decoded audio matches the STREAMINFO MD5', async () => {
+        const ffmpeg = fakeFFmpeg(MD5);
+        const result = await verifyAudioFile(flacFile(200), 'flac', 200, ffmpeg);
+
+        expect(result).toEqual({ ok: true, issues: [], duration: 200, md5Skipped: undefined });
+        expect(ffmpeg.exec).toHaveBeenCalledOnce();
+        expect(ffmpeg.deleteFile).toHaveBeenCalledTimes(2);
+    });
+
+    it('fails a FLAC whose decoded audio differs', async () => {
+        const result = await verifyAudioFile(flacFile(200), 'flac', 200, fakeFFmpeg('ffffffffffffffffffffffffffffffff'));
+        expect(result.ok).toBe(false);
+        expect(result.issues).toEqual(['FLAC audio MD5 does not match STREAMINFO']);
+    });
+
+    it('skips the MD5 check instead of failing when FFmpeg itself fails', async () => {
+        vi.spyOn(console, 'warn').mockImplementation(() => { });
+        const ffmpeg = fakeFFmpeg(MD5, async () => {
+            throw new Error('RuntimeError: memory access out of bounds');
+        });
+
+        const result = await verifyAudioFile(flacFile(200), 'flac', 200, ffmpeg);
+        expect(result.ok).toBe(true);
+        expect(result.md5Skipped).toBe('audio processor failed (RuntimeError: memory access out of bounds)');
+        expect(ffmpeg.deleteFile).toHaveBeenCalledTimes(2);
+    });
+
+    it('rethrows FFmpeg errors caused by an abort', async () => {
+        const controller = new AbortController();
+        const ffmpeg = fakeFFmpeg(MD5, async () => {
+            controller.abort();
+            throw new Error('called FFmpeg.terminate()');
+        });
+
+        await expect(verifyAudioFile(flacFile(200), 'flac', 200, ffmpeg, controller.signal)).rejects.toThrow('terminate');
+    });
+
+    it('reports why the MD5 check was skipped', async () => {
+        expect((await verifyAudioFile(flacFile(200), 'flac', 200)).md5Skipped).toBe('audio processor not available');
+        expect((await verifyAudioFile(flacFile(200, '0'.repeat(32)), 'flac', 200)).md5Skipped).toBe('no MD5 in STREAMINFO');
+    });
+
+    it('checks the container before decoding', async () => {
+        const ffmpeg = fakeFFmpeg(MD5);
+        const result = await verifyAudioFile(flacFile(100), 'flac', 200, ffmpeg);
+
+        expect(result.ok).toBe(false);
+        expect(result.issues).toEqual(['Duration is 100.0s, expected 200s']);
+        expect(ffmpeg.exec).not.toHaveBeenCalled();
+    });
+});
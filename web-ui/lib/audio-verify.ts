@@ -0,0 +1,342 @@
+/**
+ * Integrity checks for finished audio files
+ * Parses the output container to catch empty or truncated results before they're saved:
+ * - FLAC: STREAMINFO total samples against the expected duration, plus the audio MD5 when set
+ * - M4A: box structure and the sound track's mdhd duration against the expected duration
+ */
+
+import type { FFmpeg } from '@ffmpeg/ffmpeg';
+
+export interface VerificationResult {
+    ok: boolean;
+    issues: string[];
+    /** Duration found in the container, in seconds */
+    duration: number | null;
+    /** Why the FLAC audio MD5 wasn't checked, when it wasn't */
+    md5Skipped?: string;
+}
+
+/**
+ * Thrown for finished files that failed verification, so callers can tell them apart from download errors
+ */
+export class AudioVerificationError extends Error {
+    issues: string[];
+
+    constructor(issues: string[]) {
+        super(`Verification failed: ${issues.join('; ')}`);
+        this.name = 'AudioVerificationError';
+        this.issues = issues;
+    }
+}
+
+interface FlacStreamInfo {
+    sampleRate: number;
+    channels: number;
+    bitsPerSample: number;
+    totalSamples: number;
+    md5: string | null;
+}
+
+interface Mp4Box {
+    type: string;
+    start: number;
+    /** Start of the box payload */
+    dataStart: number;
+    end: number;
+}
+
+// PCM formats FFmpeg hashes the decoded FLAC samples as, by bit depth
+const PCM_CODECS: Record<number, string> = { 8: 'pcm_s8', 16: 'pcm_s16le', 24: 'pcm_s24le', 32: 'pcm_s32le' };
+
+// Tidal reports whole seconds, so allow for rounding plus encoder padding
+const DURATION_TOLERANCE_SECONDS = 2;
+const DURATION_TOLERANCE_RATIO = 0.02;
+
+function readType(data: Uint8Array, offset: number): string {
+    return String.fromCharCode(data[offset], data[offset + 1], data[offset + 2], data[offset + 3]);
+}
+
+function toHex(bytes: Uint8Array): string {
+    return Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Compare a container duration against the expected track length
+ */
+function checkDuration(actual: number, expected: number | undefined, issues: string[]): void {
+    if (!expected || expected <= 0) return;
+
+    const tolerance = Math.max(DURATION_TOLERANCE_SECONDS, expected * DURATION_TOLERANCE_RATIO);
+    if (Math.abs(actual - expected) > tolerance) {
+        issues.push(`Duration is ${actual.toFixed(1)}s, expected ${expected}s`);
+    }
+}
+
+/**
+ * Parse the STREAMINFO block of a FLAC file
+ * @returns STREAMINFO and the offset of the first audio frame, or null when the header is invalid
+ */
+export function parseFlacStreamInfo(data: Uint8Array): { info: FlacStreamInfo; audioOffset: number } | null {
+    if (data.length < 42 || readType(data, 0) !== 'fLaC') return null;
+
+    let info: FlacStreamInfo | null = null;
+    let offset = 4;
+    let isLast = false;
+
+    while (!isLast) {
+        if (offset + 4 > data.length) return null;
+
+        const header = data[offset];
+        isLast = (header & 0x80) !== 0;
+        const blockType = header & 0x7F;
+        const length = (data[offset + 1] << 16) | (data[offset + 2] << 8) | data[offset + 3];
+        const blockStart = offset + 4;
+
+        if (blockStart + length > data.length) return null;
+
+        if (blockType === 0 && length >= 34) {
+            const p = blockStart;
+            const md5 = data.subarray(p + 18, p + 34);
+            info = {
+                sampleRate: (data[p + 10] << 12) | (data[p + 11] << 4) | (data[p + 12] >> 4),
+                channels: ((data[p + 12] >> 1) & 0x07) + 1,
+                bitsPerSample: (((data[p + 12] & 0x01) << 4) | (data[p + 13] >> 4)) + 1,
+                totalSamples: (data[p + 13] & 0x0F) * 0x100000000 +
+                    (((data[p + 14] << 24) | (data[p + 15] << 16) | (data[p + 16] << 8) | data[p + 17]) >>> 0),
+                // An all-zero MD5 means the encoder didn't compute one
+                md5: md5.some(b => b !== 0) ? toHex(md5) : null,
+            };
+        }
+
+        offset = blockStart + length;
+    }
+
+    return info ? { info, audioOffset: offset } : null;
+}
+
+/**
+ * Check a FLAC file's structure and duration
+ */
+function verifyFlacContainer(data: Uint8Array, expectedDuration: number | undefined, issues: string[]): FlacStreamInfo | null {
+    const parsed = parseFlacStreamInfo(data);
+    if (!parsed) {
+        issues.push('Missing or truncated FLAC header');
+        return null;
+    }
+
+    const { info, audioOffset } = parsed;
+
+    // Audio frames start with the 14-bit sync code 0x3FFE
+    if (audioOffset + 2 > data.length || data[audioOffset] !== 0xFF || (data[audioOffset + 1] & 0xFE) !== 0xF8) {
+        issues.push('No audio frames after the FLAC header');
+    }
+
+    if (info.sampleRate === 0 || info.totalSamples === 0) {
+        issues.push('STREAMINFO has no sample count');
+        return info;
+    }
+
+    checkDuration(info.totalSamples / info.sampleRate, expectedDuration, issues);
+    return info;
+}
+
+/**
+ * List the boxes between two offsets
+ * Boxes running past `end` are reported through `issues` and end the walk
+ */
+function readBoxes(data: Uint8Array, start: number, end: number, issues: string[]): Mp4Box[] {
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    const boxes: Mp4Box[] = [];
+    let offset = start;
+
+    while (offset + 8 <= end) {
+        let size = view.getUint32(offset);
+        const type = readType(data, offset + 4);
+        let headerSize = 8;
+
+        if (size === 1) {
+            if (offset + 16 > end) break;
+            size = view.getUint32(offset + 8) * 0x100000000 + view.getUint32(offset + 12);
+            headerSize = 16;
+        } else if (size === 0) {
+            // Box extends to the end of the file
+            size = end - offset;
+        }
+
+        if (size < headerSize) {
+            issues.push(`Invalid size for '${type}' box`);
+            break;
+        }
+        if (offset + size > end) {
+            issues.push(`Truncated '${type}' box (${end - offset} of ${size} bytes)`);
+            break;
+        }
+
+        boxes.push({ type, start: offset, dataStart: offset + headerSize, end: offset + size });
+        offset += size;
+    }
+
+    return boxes;
+}
+
+/**
+ * Read the duration of the first sound track from moov/trak/mdia/mdhd
+ */
+function readSoundTrackDuration(data: Uint8Array, moov: Mp4Box, issues: string[]): number | null {
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+
+    for (const trak of readBoxes(data, moov.dataStart, moov.end, issues).filter(box => box.type === 'trak')) {
+        const mdia = readBoxes(data, trak.dataStart, trak.end, issues).find(box => box.type === 'mdia');
+        if (!mdia) continue;
+
+        const mdiaBoxes = readBoxes(data, mdia.dataStart, mdia.end, issues);
+        const hdlr = mdiaBoxes.find(box => box.type === 'hdlr');
+        const mdhd = mdiaBoxes.find(box => box.type === 'mdhd');
+        // hdlr: version/flags (4), pre_defined (4), handler_type (4)
+        if (!hdlr || !mdhd || readType(data, hdlr.dataStart + 8) !== 'soun') continue;
+
+        const version = data[mdhd.dataStart];
+        const timescale = version === 1 ? view.getUint32(mdhd.dataStart + 20) : view.getUint32(mdhd.dataStart + 12);
+        const duration = version === 1
+            ? view.getUint32(mdhd.dataStart + 24) * 0x100000000 + view.getUint32(mdhd.dataStart + 28)
+            : view.getUint32(mdhd.dataStart + 16);
+
+        return timescale > 0 ? duration / timescale : null;
+    }
+
+    return null;
+}
+
+/**
+ * Check an M4A file's structure and duration
+ */
+function verifyMp4Container(data: Uint8Array, expectedDuration: number | undefined, issues: string[]): number | null {
+    const boxes = readBoxes(data, 0, data.length, issues);
+
+    if (boxes[0]?.type !== 'ftyp') {
+        issues.push('Missing MP4 ftyp box');
+    }
+
+    const moov = boxes.find(box => box.type === 'moov');
+    const mdat = boxes.find(box => box.type === 'mdat');
+    if (!moov) {
+        issues.push('Missing MP4 moov box');
+        return null;
+    }
+    if (!mdat || mdat.end - mdat.dataStart === 0) {
+        issues.push('MP4 has no audio data');
+    }
+
+    const duration = readSoundTrackDuration(data, moov, issues);
+    // Fragmented files keep the real duration in their fragments
+    const isFragmented = boxes.some(box => box.type === 'moof');
+    if (duration === null || (duration === 0 && !isFragmented)) {
+        issues.push('No sound track duration in mdhd');
+        return null;
+    }
+
+    if (duration > 0) {
+        checkDuration(duration, expectedDuration, issues);
+    }
+    return duration;
+}
+
+/**
+ * Decode the FLAC audio with FFmpeg and compare it with the STREAMINFO MD5
+ * FLAC hashes the decoded samples as little-endian signed PCM at the stream's bit depth.
+ * @returns Why the check was skipped when FFmpeg itself failed (e.g. out of memory); the audio isn't blamed for that
+ */
+async function verifyFlacMd5(
+    ffmpegInstance: FFmpeg,
+    data: Uint8Array,
+    info: FlacStreamInfo,
+    issues: string[],
+    signal?: AbortSignal
+): Promise<string | undefined> {
+    const codec = PCM_CODECS[info.bitsPerSample];
+    if (!info.md5 || !codec) return;
+
+    const inputFile = 'verify.flac';
+    const outputFile = 'verify.md5';
+
+    try {
+        // Copy, since writeFile transfers the buffer to the FFmpeg worker
+        await ffmpegInstance.writeFile(inputFile, new Uint8Array(data), { signal });
+        const exitCode = await ffmpegInstance.exec([
+            '-v', 'error',
+            '-i', inputFile,
+            '-map', '0:a:0',
+            '-c:a', codec,
+            '-f', 'md5',
+            outputFile,
+        ], undefined, { signal });
+
+        if (exitCode !== 0) {
+            issues.push('FLAC audio could not be decoded');
+            return;
+        }
+
+        const output = await ffmpegInstance.readFile(outputFile, 'utf8', { signal });
+        const decodedMd5 = String(output).trim().replace(/^MD5=/, '').toLowerCase();
+        if (decodedMd5 !== info.md5) {
+            issues.push('FLAC audio MD5 does not match STREAMINFO');
+        }
+    } catch (e) {
+        if (signal?.aborted) throw e;
+        console.warn('FLAC MD5 check failed:', e);
+        return `audio processor failed (${e instanceof Error ? e.message : String(e)})`;
+    } finally {
+        for (const file of [inputFile, outputFile]) {
+            try {
+                await ffmpegInstance.deleteFile(file);
+            } catch { }
+        }
+    }
+}
+
+/**
+ * Verify a finished FLAC or M4A file
+ * @param expectedDuration - Track length in seconds (TidalTrack.duration)
+ * @param ffmpegInstance - Used for the FLAC MD5 check; skipped (and reported in md5Skipped) when omitted
+ */
+export async function verifyAudioFile(
+    data: Uint8Array,
+    format: string,
+    expectedDuration?: number,
+    ffmpegInstance?: FFmpeg | null,
+    signal?: AbortSignal
+): Promise<VerificationResult> {
+    const issues: string[] = [];
+
+    if (data.length === 0) {
+        return { ok: false, issues: ['File is empty'], duration: null };
+    }
+
+    let duration: number | null = null;
+    let md5Skipped: string | undefined;
+
+    if (format === 'flac') {
+        const info = verifyFlacContainer(data, expectedDuration, issues);
+        if (info && info.sampleRate > 0) {
+            duration = info.totalSamples / info.sampleRate;
+        }
+        // Decoding is only worth it for structurally sound files
+        if (info && issues.length === 0) {
+            if (!info.md5) {
+                md5Skipped = 'no MD5 in STREAMINFO';
+            } else if (!PCM_CODECS[info.bitsPerSample]) {
+                md5Skipped = `unsupported bit depth (${info.bitsPerSample})`;
+            } else if (!ffmpegInstance) {
+                md5Skipped = 'audio processor not available';
+            } else {
+                md5Skipped = await verifyFlacMd5(ffmpegInstance, data, info, issues, signal);
+            }
+        }
+    } else if (format === 'm4a' || format === 'mp4') {
+        duration = verifyMp4Container(data, expectedDuration, issues);
+    } else {
+        issues.push(`Unsupported format: ${format}`);
+    }
+
+    return { ok: issues.length === 0, issues, duration, md5Skipped };
+}
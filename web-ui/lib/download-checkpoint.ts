@@ -0,0 +1,215 @@
+/**
+ * Resumable download checkpoints in the origin private file system (OPFS)
+ * Each multi-track job keeps its track list snapshot, the outputs of finished tracks
+ * and the DASH segments of the track in progress, so a restarted job (after a crash,
+ * reload or failure) continues where it stopped instead of downloading everything again.
+ *
+ * Layout:
+ * checkpoints/<key>/manifest.json
+ * checkpoints/<key>/outputs/<index>
+ * checkpoints/<key>/segments/<scope>/<index>
+ */
+
+import type { TrackResult } from './downloader';
+import type { LyricsFile } from './lyrics';
+
+const CHECKPOINT_DIR = 'checkpoints';
+const MANIFEST_FILE = 'manifest.json';
+// Checkpoints of jobs that were never restarted are dropped after a week
+const CHECKPOINT_MAX_AGE = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * A finished item of a checkpointed job
+ */
+export interface CompletedItem {
+    /** Output path including extension */
+    path: string;
+    isAtmos?: boolean;
+    audioQuality?: string;
+    /** Lyrics sidecar, re-added with the stored output */
+    lyricsFile?: LyricsFile | null;
+    /** Per-track results of a finished sub-job (a release of an artist job) */
+    tracks?: TrackResult[];
+    /** Whether the output data was kept in the checkpoint (false when already written to the library folder) */
+    stored: boolean;
+}
+
+interface CheckpointManifest<T> {
+    items: T[] | null;
+    completed: Record<number, CompletedItem>;
+    updatedAt: number;
+}
+
+/**
+ * Downloaded segments of one stream
+ */
+export interface SegmentCheckpoint {
+    read(index: number): Promise<Uint8Array | null>;
+    write(index: number, data: Uint8Array): Promise<void>;
+}
+
+export interface DownloadCheckpoint<T> {
+    /** Track list saved by an earlier run, or null on a fresh start */
+    getItems(): T[] | null;
+    saveItems(items: T[]): Promise<void>;
+    getCompleted(index: number): CompletedItem | null;
+    completedCount(): number;
+    readOutput(index: number): Promise<Uint8Array | null>;
+    /**
+     * Mark an item as done, keeping its output when given
+     * Segments of the item are no longer needed and are removed.
+     */
+    completeItem(index: number, item: Omit<CompletedItem, 'stored'>, data?: Uint8Array | null): Promise<void>;
+    /** Segment store for one stream; `count` guards against a different stream layout on resume */
+    segments(scope: string, count: number): SegmentCheckpoint;
+}
+
+function isOpfsAvailable(): boolean {
+    return typeof navigator !== 'undefined' && typeof navigator.storage?.getDirectory === 'function';
+}
+
+async function getCheckpointRoot(): Promise<FileSystemDirectoryHandle> {
+    const root = await navigator.storage.getDirectory();
+    return root.getDirectoryHandle(CHECKPOINT_DIR, { create: true });
+}
+
+async function readFile(dir: FileSystemDirectoryHandle, name: string): Promise<Uint8Array | null> {
+    try {
+        const handle = await dir.getFileHandle(name);
+        const file = await handle.getFile();
+        return new Uint8Array(await file.arrayBuffer());
+    } catch {
+        // NotFoundError for a file that was never written
+        return null;
+    }
+}
+
+async function writeFile(dir: FileSystemDirectoryHandle, name: string, data: Uint8Array | string): Promise<void> {
+    const handle = await dir.getFileHandle(name, { create: true });
+    const writable = await handle.createWritable();
+    try {
+        await writable.write(data as BufferSource | string);
+        await writable.close();
+    } catch (error) {
+        await writable.abort().catch(() => { });
+        throw error;
+    }
+}
+
+/**
+ * Delete checkpoints that haven't been touched for a while
+ */
+async function removeStaleCheckpoints(root: FileSystemDirectoryHandle): Promise<void> {
+    // entries() comes from the dom.asynciterable lib, which this project doesn't include
+    const entries = (root as unknown as { entries(): AsyncIterable<[string, FileSystemHandle]> }).entries();
+    const now = Date.now();
+
+    for await (const [name, handle] of entries) {
+        if (handle.kind !== 'directory') continue;
+        const data = await readFile(handle as FileSystemDirectoryHandle, MANIFEST_FILE);
+        let updatedAt = 0;
+        try {
+            updatedAt = data ? JSON.parse(new TextDecoder().decode(data)).updatedAt : 0;
+        } catch { }
+        if (now - updatedAt > CHECKPOINT_MAX_AGE) {
+            await root.removeEntry(name, { recursive: true }).catch(() => { });
+        }
+    }
+}
+
+/**
+ * Open (or start) the checkpoint for a job
+ * Returns null where OPFS or createWritable isn't available, so the job runs without resuming.
+ * @param key - Stable job key, e.g. `playlist-<uuid>`
+ */
+export async function openCheckpoint<T>(key: string): Promise<DownloadCheckpoint<T> | null> {
+    if (!isOpfsAvailable()) return null;
+
+    try {
+        const root = await getCheckpointRoot();
+        await removeStaleCheckpoints(root);
+
+        const dir = await root.getDirectoryHandle(key, { create: true });
+        const probe = await dir.getFileHandle(MANIFEST_FILE, { create: true });
+        if (typeof probe.createWritable !== 'function') return null;
+
+        let manifest: CheckpointManifest<T> = { items: null, completed: {}, updatedAt: Date.now() };
+        const saved = await readFile(dir, MANIFEST_FILE);
+        if (saved && saved.length > 0) {
+            try {
+                manifest = JSON.parse(new TextDecoder().decode(saved));
+            } catch (error) {
+                console.warn(`Ignoring corrupt checkpoint ${key}:`, error);
+            }
+        }
+
+        const outputs = await dir.getDirectoryHandle('outputs', { create: true });
+
+        const saveManifest = async () => {
+            manifest.updatedAt = Date.now();
+            await writeFile(dir, MANIFEST_FILE, JSON.stringify(manifest));
+        };
+
+        return {
+            getItems: () => manifest.items,
+
+            saveItems: async (items) => {
+                // Copied, since downloaders adjust track titles in place
+                manifest.items = structuredClone(items);
+                await saveManifest();
+            },
+
+            getCompleted: (index) => manifest.completed[index] || null,
+
+            completedCount: () => Object.keys(manifest.completed).length,
+
+            readOutput: (index) => readFile(outputs, String(index)),
+
+            completeItem: async (index, item, data) => {
+                if (data) {
+                    await writeFile(outputs, String(index), data);
+                }
+                manifest.completed[index] = { ...item, stored: !!data };
+                await saveManifest();
+                await dir.removeEntry('segments', { recursive: true }).catch(() => { });
+            },
+
+            segments: (scope, count) => {
+                const getSegmentDir = async () => {
+                    const segmentsDir = await dir.getDirectoryHandle('segments', { create: true });
+                    return segmentsDir.getDirectoryHandle(`${scope}-${count}`, { create: true });
+                };
+                return {
+                    read: async (index) => readFile(await getSegmentDir(), String(index)),
+                    write: async (index, data) => writeFile(await getSegmentDir(), String(index), data),
+                };
+            },
+        };
+    } catch (error) {
+        console.warn(`Checkpoints unavailable for ${key}:`, error);
+        return null;
+    }
+}
+
+/**
+ * Delete a job's checkpoint once it has finished, was cancelled or left the queue
+ * Checkpoints of its sub-jobs (`<key>-...`, e.g. the releases of an artist job) are removed with it.
+ */
+export async function removeCheckpoint(key: string): Promise<void> {
+    if (!isOpfsAvailable()) return;
+
+    try {
+        const root = await getCheckpointRoot();
+        // keys() comes from the dom.asynciterable lib, which this project doesn't include
+        const names = (root as unknown as { keys(): AsyncIterable<string> }).keys();
+        const matches: string[] = [];
+        for await (const name of names) {
+            if (name === key || name.startsWith(`${key}-`)) matches.push(name);
+        }
+        for (const name of matches) {
+            await root.removeEntry(name, { recursive: true }).catch(() => { });
+        }
+    } catch {
+        // Nothing to remove
+    }
+}
@@ -29,7 +29,7 @@ export interface DownloadHistoryItem {
     id?: string;
     title: string;
     artist: string;
-    type: 'Track' | 'Album' | 'Playlist';
+    type: 'Track' | 'Album' | 'Playlist' | 'Artist' | 'Video' | 'Mix';
     date: string;
     timestamp?: Timestamp;
     isAtmos?: boolean;
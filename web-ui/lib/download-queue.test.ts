@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import type { TrackResult } from './downloader';
+import { getTrackResultKey, mergeTrackResults } from './download-queue';
+
+function result(trackId: number, position: number, status: TrackResult['status'], releaseId?: number): TrackResult {
+    return { trackId, position, releaseId, type: 'track', title: `Track ${trackId}`, status };
+}
+
+describe('getTrackResultKey', () => {
+    it('tells apart equal positions of different releases', () => {
+        const results = [result(11, 1, 'success', 100), result(21, 1, 'success', 200), result(12, 2, 'success', 100)];
+        expect(new Set(results.map(getTrackResultKey)).size).toBe(3);
+    });
+
+    it('tells apart a repeated track at different positions', () => {
+        expect(getTrackResultKey(result(5, 1, 'success'))).not.toBe(getTrackResultKey(result(5, 7, 'success')));
+    });
+});
+
+describe('mergeTrackResults', () => {
+    it('replaces only the retried results', () => {
+        const previous = [result(1, 1, 'success'), result(2, 2, 'failed'), result(3, 3, 'failed')];
+        const merged = mergeTrackResults(previous, [result(2, 2, 'success')], [2]);
+
+        expect(merged.map(item => [item.trackId, item.status])).toEqual([[1, 'success'], [2, 'success'], [3, 'failed']]);
+    });
+
+    it('does not let a result overwrite another release at the same position', () => {
+        const previous = [result(11, 1, 'failed', 100), result(21, 1, 'failed', 200)];
+        const merged = mergeTrackResults(previous, [result(21, 1, 'success', 200)], [21]);
+
+        expect(merged.map(item => [item.trackId, item.status])).toEqual([[11, 'failed'], [21, 'success']]);
+    });
+
+    it('takes the new results of a full run', () => {
+        const next = [result(1, 1, 'success')];
+        expect(mergeTrackResults([result(1, 1, 'failed'), result(2, 2, 'failed')], next)).toBe(next);
+    });
+});
@@ -0,0 +1,139 @@
+/**
+ * Download queue model with IndexedDB persistence
+ * Jobs survive page reloads; an interrupted active job is restarted on load and
+ * continues from its download checkpoint (see download-checkpoint.ts)
+ */
+
+import { removeCheckpoint } from './download-checkpoint';
+import { idbGet, idbPut, isIndexedDBAvailable } from './idb';
+import type { TrackResult } from './downloader';
+import { parseTidalUrl } from './tidal-client';
+
+export type JobStatus = 'pending' | 'active' | 'paused' | 'done' | 'failed';
+
+export interface DownloadJob {
+    id: string;
+    url: string;
+    status: JobStatus;
+    title?: string;
+    error?: string;
+    addedAt: number;
+    /** Per-track results of the last run */
+    results?: TrackResult[];
+    /** Limits the next run to these items, set when retrying failed tracks */
+    trackIds?: number[];
+}
+
+const QUEUE_KEY = 'jobs';
+
+/**
+ * Create a new pending job for a URL
+ */
+export function createJob(url: string): DownloadJob {
+    return {
+        id: `${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 8)}`,
+        url,
+        status: 'pending',
+        addedAt: Date.now(),
+    };
+}
+
+/**
+ * Extract every Tidal URL from pasted text.
+ * Handles newline, space and comma separated lists, as well as URLs glued
+ * together when a single-line input strips the newlines of a pasted list.
+ */
+export function extractTidalUrls(text: string): string[] {
+    const matches = text.match(/https?:\/\/[^\s,]+?(?=https?:\/\/|[\s,]|$)/g) || [];
+    return matches.filter(url => /tidal\.com\//i.test(url));
+}
+
+/**
+ * Load the persisted queue
+ * Jobs that were active when the page closed are set back to pending
+ */
+export async function loadQueue(): Promise<DownloadJob[]> {
+    if (!isIndexedDBAvailable()) return [];
+
+    try {
+        const jobs = await idbGet<DownloadJob[]>('queue', QUEUE_KEY);
+        return (jobs || []).map(job => job.status === 'active' ? { ...job, status: 'pending' } : job);
+    } catch (error) {
+        console.error('Failed to load download queue:', error);
+        return [];
+    }
+}
+
+/**
+ * Persist the queue
+ */
+export async function saveQueue(jobs: DownloadJob[]): Promise<void> {
+    if (!isIndexedDBAvailable()) return;
+
+    try {
+        await idbPut('queue', QUEUE_KEY, jobs);
+    } catch (error) {
+        console.error('Failed to save download queue:', error);
+    }
+}
+
+/**
+ * Delete the download checkpoint of a job that left the queue
+ * Uses the keys the downloader checkpoints under; single tracks and videos have none.
+ */
+export async function removeJobCheckpoint(job: DownloadJob): Promise<void> {
+    const parsed = parseTidalUrl(job.url);
+    if (!parsed || !['album', 'playlist', 'mix', 'artist'].includes(parsed.type)) return;
+    await removeCheckpoint(`${parsed.type}-${parsed.id}`);
+}
+
+/**
+ * Move a job up (-1) or down (+1) in the queue
+ */
+export function moveJob(jobs: DownloadJob[], id: string, offset: number): DownloadJob[] {
+    const index = jobs.findIndex(job => job.id === id);
+    const target = index + offset;
+    if (index === -1 || target < 0 || target >= jobs.length) return jobs;
+
+    const reordered = [...jobs];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    return reordered;
+}
+
+/**
+ * Check if a finished job has failed tracks that can be downloaded again on their own
+ */
+export function canRetryFailed(job: DownloadJob): boolean {
+    const type = parseTidalUrl(job.url)?.type;
+    return job.status === 'done' &&
+        (type === 'album' || type === 'playlist' || type === 'mix') &&
+        getRetryableTrackIds(job).length > 0;
+}
+
+/**
+ * IDs of failed tracks; unavailable playlist entries have no ID and can't be retried
+ */
+export function getRetryableTrackIds(job: DownloadJob): number[] {
+    return (job.results || [])
+        .filter(result => result.status === 'failed' && result.trackId > 0)
+        .map(result => result.trackId);
+}
+
+/**
+ * Identify a track result within its job: position within the release, plus the item
+ * (artist jobs list several releases, so positions repeat)
+ */
+export function getTrackResultKey(result: TrackResult): string {
+    return `${result.releaseId ?? ''}:${result.position}:${result.trackId}`;
+}
+
+/**
+ * Merge the results of a partial run into those of the previous full run
+ * @param trackIds - Items the partial run was limited to, or undefined for a full run
+ */
+export function mergeTrackResults(previous: TrackResult[] | undefined, next: TrackResult[], trackIds?: number[]): TrackResult[] {
+    if (!trackIds || !previous) return next;
+
+    const updated = new Map(next.map(result => [getTrackResultKey(result), result]));
+    return previous.map(result => updated.get(getTrackResultKey(result)) || result);
+}
@@ -0,0 +1,207 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { CompletedItem, DownloadCheckpoint } from './download-checkpoint';
+import { findLibraryEntry, LibraryEntry } from './library-index';
+import { DEFAULT_SETTINGS, getSettings, TidalSettings } from './settings';
+import { getAlbum, getArtistAlbums, paginateAlbumTracks, type TidalAlbum, type TidalTrack } from './tidal-client';
+import { downloadArtist, DownloadPausedError, shouldSkipExisting } from './downloader';
+
+vi.mock('./library-index', () => ({
+    findLibraryEntry: vi.fn(),
+    recordDownload: vi.fn(),
+}));
+
+vi.mock('./settings', async importOriginal => ({
+    ...await importOriginal<typeof import('./settings')>(),
+    getSettings: vi.fn(),
+}));
+
+vi.mock('./tidal-client', async importOriginal => ({
+    ...await importOriginal<typeof import('./tidal-client')>(),
+    getArtist: vi.fn(async (id: number) => ({ id, name: 'Artist' })),
+    getArtistAlbums: vi.fn(),
+    getAlbum: vi.fn(),
+    paginateAlbumTracks: vi.fn(),
+    getWorkerUrl: () => 'https://worker.test',
+}));
+
+// A library folder that already holds every file, so tracks are skipped without downloading
+vi.mock('./output-directory', () => ({
+    getWritableOutputDirectory: vi.fn(async () => ({ name: 'Library' })),
+    getStoredOutputDirectory: vi.fn(async () => ({ name: 'Library' })),
+    fileExistsInDirectory: vi.fn(async () => true),
+    writeFileToDirectory: vi.fn(async () => { }),
+}));
+
+// OPFS checkpoints kept in memory, removed by key prefix like the real ones
+const checkpoints = new Map<string, { items: unknown[] | null; completed: Record<number, CompletedItem> }>();
+vi.mock('./download-checkpoint', () => ({
+    openCheckpoint: vi.fn(async (key: string): Promise<DownloadCheckpoint<unknown>> => {
+        const manifest = checkpoints.get(key) || { items: null, completed: {} };
+        checkpoints.set(key, manifest);
+        return {
+            getItems: () => manifest.items,
+            saveItems: async items => {
+                manifest.items = items;
+            },
+            getCompleted: index => manifest.completed[index] || null,
+            completedCount: () => Object.keys(manifest.completed).length,
+            readOutput: async () => null,
+            completeItem: async (index, item, data) => {
+                manifest.completed[index] = { ...item, stored: !!data };
+            },
+            segments: () => ({ read: async () => null, write: async () => { } }),
+        };
+    }),
+    removeCheckpoint: vi.fn(async (key: string) => {
+        for (const name of [...checkpoints.keys()]) {
+            if (name === key || name.startsWith(`${key}-`)) checkpoints.delete(name);
+        }
+    }),
+}));
+
+const track = {
+    id: 1001,
+    title: 'Song',
+    isrc: 'USAAA0000001',
+    audioQuality: 'LOSSLESS',
+    artist: { id: 1, name: 'Artist' },
+} as TidalTrack;
+
+const MEDIA_PATH = 'Albums/Artist - Album/01. Artist - Song';
+
+function createOutput(keepsFiles: boolean, files: string[]) {
+    return { keepsFiles, hasFile: vi.fn(async (path: string) => files.includes(path)) };
+}
+
+function indexEntry(path: string, audioQuality = 'LOSSLESS'): LibraryEntry {
+    return { trackId: track.id, isrc: track.isrc, audioQuality, path, downloadedAt: 0 };
+}
+
+function settings(overrides: Partial<TidalSettings> = {}): TidalSettings {
+    return { ...DEFAULT_SETTINGS, skip_existing: true, ...overrides };
+}
+
+describe('shouldSkipExisting', () => {
+    beforeEach(() => {
+        vi.mocked(findLibraryEntry).mockReset().mockResolvedValue(null);
+    });
+
+    describe('library folder', () => {
+        it('skips a track whose file is in the folder', async () => {
+            const onLog = vi.fn();
+            const output = createOutput(true, [`${MEDIA_PATH}.flac`]);
+
+            expect(await shouldSkipExisting(track, MEDIA_PATH, output, settings(), onLog)).toBe(true);
+            expect(onLog).toHaveBeenCalledWith('Artist - Song | Skipped (exists)');
+        });
+
+        it('downloads a track again when its indexed file was deleted', async () => {
+            vi.mocked(findLibraryEntry).mockResolvedValue(indexEntry(`${MEDIA_PATH}.flac`));
+            const output = createOutput(true, []);
+
+            expect(await shouldSkipExisting(track, MEDIA_PATH, output, settings())).toBe(false);
+        });
+
+        it('finds the file at the path recorded in the index', async () => {
+            vi.mocked(findLibraryEntry).mockResolvedValue(indexEntry('Tracks/Artist - Song.flac'));
+            const output = createOutput(true, ['Tracks/Artist - Song.flac']);
+
+            expect(await shouldSkipExisting(track, MEDIA_PATH, output, settings())).toBe(true);
+        });
+
+        it('uses the index only to compare qualities for upgrades', async () => {
+            vi.mocked(findLibraryEntry).mockResolvedValue(indexEntry(`${MEDIA_PATH}.m4a`, 'HIGH'));
+            const onLog = vi.fn();
+            const output = createOutput(true, [`${MEDIA_PATH}.m4a`]);
+
+            expect(await shouldSkipExisting(track, MEDIA_PATH, output, settings({ skip_existing_upgrade: true }), onLog)).toBe(false);
+            expect(onLog).toHaveBeenCalledWith('Artist - Song | Quality improved (HIGH -> LOSSLESS), downloading again');
+            expect(await shouldSkipExisting(track, MEDIA_PATH, output, settings({ skip_existing_upgrade: false }))).toBe(true);
+        });
+    });
+
+    describe('ZIP archive', () => {
+        it('ignores the index, so a repeated download still gets its audio', async () => {
+            vi.mocked(findLibraryEntry).mockResolvedValue(indexEntry(`${MEDIA_PATH}.flac`));
+            const output = createOutput(false, ['Albums/Artist - Album/cover.jpg']);
+
+            expect(await shouldSkipExisting(track, MEDIA_PATH, output, settings())).toBe(false);
+            expect(findLibraryEntry).not.toHaveBeenCalled();
+        });
+
+        it('skips a track already added to the same archive', async () => {
+            const output = createOutput(false, [`${MEDIA_PATH}.m4a`]);
+            expect(await shouldSkipExisting(track, MEDIA_PATH, output, settings())).toBe(true);
+        });
+    });
+
+    it('never skips with skip_existing off', async () => {
+        const output = createOutput(true, [`${MEDIA_PATH}.flac`]);
+        expect(await shouldSkipExisting(track, MEDIA_PATH, output, settings({ skip_existing: false }))).toBe(false);
+        expect(output.hasFile).not.toHaveBeenCalled();
+    });
+});
+
+describe('downloadArtist', () => {
+    const releases = [1, 2, 3].map(id => ({ id, title: `Release ${id}`, artist: { id: 7, name: 'Artist' }, audioQuality: 'LOSSLESS' }) as TidalAlbum);
+
+    beforeEach(() => {
+        checkpoints.clear();
+        vi.mocked(findLibraryEntry).mockReset().mockResolvedValue(null);
+        vi.mocked(getSettings).mockReturnValue({ ...DEFAULT_SETTINGS, skip_existing: true, video_download: false, artist_single_archive: false });
+        vi.mocked(getArtistAlbums).mockResolvedValue(releases);
+        vi.mocked(getAlbum).mockReset().mockImplementation(async id => releases.find(release => release.id === id)!);
+        vi.mocked(paginateAlbumTracks).mockImplementation(async function* (albumId) {
+            const items = [1, 2].map(n => ({ id: Number(albumId) * 100 + n, title: `Track ${n}`, trackNumber: n, audioQuality: 'LOSSLESS', artist: { id: 7, name: 'Artist' } }) as TidalTrack);
+            yield { items, offset: 0, total: items.length };
+        });
+        vi.stubGlobal('fetch', vi.fn(async () => new Response(null, { status: 404 })));
+        vi.spyOn(console, 'warn').mockImplementation(() => { });
+    });
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+        vi.restoreAllMocks();
+    });
+
+    it('resumes a paused discography after the releases already saved', async () => {
+        const controller = new AbortController();
+        vi.mocked(getAlbum).mockImplementationOnce(async id => releases.find(release => release.id === id)!)
+            .mockImplementationOnce(async () => {
+                // Paused while release 2 starts
+                controller.abort(new DownloadPausedError());
+                throw controller.signal.reason;
+            });
+
+        await expect(downloadArtist(7, undefined, undefined, controller.signal)).rejects.toBeInstanceOf(DownloadPausedError);
+        expect(checkpoints.get('artist-7')?.completed[1]).toMatchObject({ tracks: [{ trackId: 101, releaseId: 1 }, { trackId: 102, releaseId: 1 }] });
+
+        vi.mocked(getAlbum).mockClear();
+        const onLog = vi.fn();
+        const result = await downloadArtist(7, undefined, onLog, new AbortController().signal);
+
+        // Release 1 isn't fetched or saved again
+        expect(vi.mocked(getAlbum).mock.calls.map(([id]) => id)).toEqual([2, 3]);
+        expect(onLog).toHaveBeenCalledWith('Artist | Resuming, 1/3 items already downloaded');
+        expect(result.albums.map(album => album.id)).toEqual([1, 2, 3]);
+        expect(result.tracks.map(track => [track.releaseId, track.position, track.status])).toEqual([
+            [1, 1, 'skipped'], [1, 2, 'skipped'],
+            [2, 1, 'skipped'], [2, 2, 'skipped'],
+            [3, 1, 'skipped'], [3, 2, 'skipped'],
+        ]);
+        // A finished job leaves no checkpoints behind
+        expect([...checkpoints.keys()]).toEqual([]);
+    });
+
+    it('drops the saved releases when the job is cancelled', async () => {
+        const controller = new AbortController();
+        vi.mocked(getAlbum).mockImplementationOnce(async id => releases.find(release => release.id === id)!)
+            .mockImplementationOnce(async () => {
+                controller.abort();
+                throw controller.signal.reason;
+            });
+
+        await expect(downloadArtist(7, undefined, undefined, controller.signal)).rejects.toThrow();
+        expect([...checkpoints.keys()]).toEqual([]);
+    });
+});
@@ -4,13 +4,25 @@
  */
 
 import { FFmpeg } from '@ffmpeg/ffmpeg';
-import JSZip from 'jszip';
-import { getStreamInfo, getStreamInfoAtmos, getTrack, getAlbum, getPlaylist, getAlbumTracks, getPlaylistTracks, getLyrics, getWorkerUrl, TidalTrack, TidalAlbum, TidalPlaylist, StreamInfo } from './tidal-client';
-import { getSettings } from './settings';
-import { injectReplayGain } from './m4a-utils';
-import { getGenresByISRC } from './musicbrainz';
-
-
+import { getStreamInfo, getStreamInfoAtmos, getTrack, getAlbum, getPlaylist, getArtist, getArtistAlbums, paginateAlbumTracks, paginatePlaylistTracks, paginateAlbumItems, paginatePlaylistItems, paginateMixItems, getMix, collectItems, getVideo, getVideoStreamInfo, getLyrics, getWorkerUrl, TidalLyrics, TidalTrack, TidalAlbum, TidalPlaylist, TidalArtist, TidalVideo, TidalMix, MediaItem, ArtistReleaseFilter, StreamInfo } from './tidal-client';
+import { getSettings, TidalSettings } from './settings';
+import { M4aTags, writeM4aTags } from './m4a-utils';
+import { extractFlacFromMp4, setVorbisComments, writeFlacMetadata } from './flac-utils';
+import { parseMasterPlaylist, parseMediaPlaylist, selectVariant } from './hls-utils';
+import { getMusicBrainzTags, MusicBrainzTags } from './musicbrainz';
+import { formatMediaPath, getPathBasename, getPathDirectory, sanitizePathSegment } from './path-template';
+import { fileExistsInDirectory, getStoredOutputDirectory, getWritableOutputDirectory, writeFileToDirectory } from './output-directory';
+import { findLibraryEntry, recordDownload } from './library-index';
+import { createZipSink, createZipWriter, ZipSink, ZipWriter } from './zip-writer';
+import { CompletedItem, DownloadCheckpoint, openCheckpoint, removeCheckpoint, SegmentCheckpoint } from './download-checkpoint';
+import { AudioVerificationError, parseFlacStreamInfo, verifyAudioFile } from './audio-verify';
+import { httpErrorFromResponse, IncompleteResponseError, isExpiredUrlError, RetryOptions, sleep, withRetry } from './retry';
+import { createLyricsFile, EmbeddedLyrics, getEmbeddedLyrics, LyricsFile } from './lyrics';
+
+
+
+// Expired stream URLs are re-requested at most this many times per download
+const MAX_MANIFEST_REFRESHES = 2;
 
 // FFmpeg instance (lazy loaded)
 let ffmpeg: FFmpeg | null = null;
@@ -20,21 +32,23 @@ let ffmpegLoaded = false;
  * Fetch cover art with fallback resolution.
  * Tries 1280x1280, falls back to 640x640.
  * @param coverId The cover ID (e.g., from album.cover or playlist.image)
+ * @param signal Optional signal to cancel the request
  * @returns Uint8Array of cover art data, or null if fetch fails.
  */
-async function fetchCoverArtBlob(coverId: string): Promise<Uint8Array | null> {
+async function fetchCoverArtBlob(coverId: string, signal?: AbortSignal): Promise<Uint8Array | null> {
     if (!coverId) return null;
     const workerUrl = getWorkerUrl();
     const sizes = [1280, 640];
 
     for (const size of sizes) {
         try {
-            const coverProxyUrl = `${workerUrl}/cover?id=${coverId}&size=${size}`;
-            const response = await fetch(coverProxyUrl);
+            const coverProxyUrl = `${workerUrl}/cover/${coverId}/${size}`;
+            const response = await fetch(coverProxyUrl, { signal });
             if (response.ok) {
                 return new Uint8Array(await response.arrayBuffer());
             }
         } catch (e) {
+            if (signal?.aborted) throw e;
             console.warn(`Failed to fetch cover art at size ${size}:`, e);
         }
     }
@@ -71,8 +85,65 @@ async function releaseWakeLock(sentinel: WakeLockSentinel | null): Promise<void>
     }
 }
 
+/**
+ * Retry settings for CDN requests
+ * @param label - Used in the console warning for each retry
+ */
+function getRetryOptions(label: string, signal?: AbortSignal): RetryOptions {
+    return {
+        attempts: parseInt(getSettings().download_retry_attempts, 10) || 0,
+        signal,
+        onRetry: (error, attempt, delay) => {
+            console.warn(`${label} failed, retry ${attempt} in ${delay}ms:`, error);
+        },
+    };
+}
+
+/**
+ * Remove files from the FFmpeg virtual FS
+ * Missing files are ignored, so this is safe to call after a failed or cancelled exec
+ */
+async function cleanupFFmpegFiles(ffmpegInstance: FFmpeg, files: string[]): Promise<void> {
+    for (const file of files) {
+        try {
+            await ffmpegInstance.deleteFile(file);
+        } catch { }
+    }
+}
+
+/**
+ * Abort reason for pausing a job
+ * The downloader stops as on cancel, but keeps the job checkpoint so the next run resumes from it.
+ */
+export class DownloadPausedError extends Error {
+    constructor() {
+        super('Download paused');
+        this.name = 'DownloadPausedError';
+    }
+}
+
+/**
+ * Check if a job was stopped to be paused rather than cancelled
+ */
+function isPaused(signal?: AbortSignal): boolean {
+    return signal?.reason instanceof DownloadPausedError;
+}
+
+/**
+ * Report a job that was stopped through its AbortSignal
+ */
+function reportCancelled(label: string, signal?: AbortSignal, onProgress?: ProgressCallback, onLog?: (message: string) => void): void {
+    if (isPaused(signal)) {
+        onProgress?.({ stage: 'paused', progress: 0, message: 'Download paused' });
+        onLog?.(`${label} | Paused`);
+        return;
+    }
+    onProgress?.({ stage: 'cancelled', progress: 0, message: 'Download cancelled' });
+    onLog?.(`${label} | Cancelled`);
+}
+
 export interface DownloadProgress {
-    stage: 'fetching' | 'processing' | 'complete' | 'error';
+    stage: 'fetching' | 'processing' | 'complete' | 'error' | 'cancelled' | 'paused';
     progress: number; // 0-100
     message: string;
     currentTrack?: number;
@@ -89,14 +160,54 @@ export interface TrackDownloadResult {
     isAtmos: boolean;
 }
 
+/**
+ * Outcome of one item of an album, playlist or mix download
+ */
+export interface TrackResult {
+    /** Track or video ID; 0 for unavailable playlist entries */
+    trackId: number;
+    /** 1-based position in the list */
+    position: number;
+    /** Release the track was downloaded with, in artist jobs; positions only repeat across releases */
+    releaseId?: number;
+    type: 'track' | 'video';
+    title: string;
+    status: 'success' | 'skipped' | 'failed';
+    reason?: string;
+    isAtmos?: boolean;
+    audioQuality?: string;
+    /** Delivered below the requested quality, or without Dolby Atmos */
+    fallbackQuality?: boolean;
+}
+
 export interface AlbumDownloadResult {
     album: TidalAlbum;
     isAtmos: boolean;
+    tracks: TrackResult[];
 }
 
 export interface PlaylistDownloadResult {
     playlist: TidalPlaylist;
     isAtmos: boolean;
+    tracks: TrackResult[];
+}
+
+export interface MixDownloadResult {
+    mix: TidalMix;
+    isAtmos: boolean;
+    tracks: TrackResult[];
+}
+
+export interface VideoDownloadResult {
+    video: TidalVideo;
+}
+
+export interface ArtistDownloadResult {
+    artist: TidalArtist;
+    albums: TidalAlbum[];
+    isAtmos: boolean;
+    /** Per-track results of all releases */
+    tracks: TrackResult[];
 }
 
 export type ProgressCallback = (progress: DownloadProgress) => void;
@@ -150,10 +261,12 @@ async function loadFFmpeg(onProgress?: ProgressCallback): Promise<FFmpeg> {
 /**
  * Download a file from URL with progress tracking
  * Supports parallel Range-based downloading when multi_thread_download is enabled
+ * Transient failures are retried per chunk (or for the whole file) with backoff.
  */
 async function downloadWithProgress(
     url: string,
-    onProgress?: ProgressCallback
+    onProgress?: ProgressCallback,
+    signal?: AbortSignal
 ): Promise<ArrayBuffer> {
     const settings = getSettings();
     const CONCURRENCY_LIMIT = 4; // Number of parallel chunks
@@ -163,7 +276,7 @@ async function downloadWithProgress(
     let supportsRange = false;
 
     try {
-        const headResponse = await fetch(url, { method: 'HEAD' });
+        const headResponse = await fetch(url, { method: 'HEAD', signal });
         if (headResponse.ok) {
             const lengthHeader = headResponse.headers.get('Content-Length');
             contentLength = lengthHeader ? parseInt(lengthHeader, 10) : 0;
@@ -171,6 +284,7 @@ async function downloadWithProgress(
             supportsRange = acceptRanges === 'bytes' || acceptRanges !== 'none';
         }
     } catch (e) {
+        if (signal?.aborted) throw e;
         console.warn('HEAD request failed, falling back to single-stream download:', e);
     }
 
@@ -186,17 +300,25 @@ async function downloadWithProgress(
             const start = index * chunkSize;
             const end = Math.min(start + chunkSize - 1, contentLength - 1);
 
-            const response = await fetch(url, {
-                headers: {
-                    'Range': `bytes=${start}-${end}`
+            const buffer = await withRetry(async () => {
+                const response = await fetch(url, {
+                    headers: {
+                        'Range': `bytes=${start}-${end}`
+                    },
+                    signal,
+                });
+
+                if (!response.ok) {
+                    throw httpErrorFromResponse(response, 'Range download failed');
                 }
-            });
 
-            if (!response.ok && response.status !== 206) {
-                throw new Error(`Range download failed: ${response.status}`);
-            }
+                const chunk = await response.arrayBuffer();
+                if (chunk.byteLength !== end - start + 1) {
+                    throw new IncompleteResponseError(`Range download incomplete: ${chunk.byteLength}/${end - start + 1} bytes`);
+                }
+                return chunk;
+            }, getRetryOptions(`Range ${start}-${end}`, signal));
 
-            const buffer = await response.arrayBuffer();
             downloadedChunks[index] = new Uint8Array(buffer);
             completedBytes += buffer.byteLength;
 
@@ -224,54 +346,138 @@ async function downloadWithProgress(
         return combined.buffer;
     }
 
-    const response = await fetch(url);
+    return withRetry(async () => {
+        const response = await fetch(url, { signal });
 
-    if (!response.ok) {
-        throw new Error(`Download failed: ${response.status}`);
-    }
+        if (!response.ok) {
+            throw httpErrorFromResponse(response, 'Download failed');
+        }
 
-    const total = contentLength || parseInt(response.headers.get('Content-Length') || '0', 10);
+        const total = contentLength || parseInt(response.headers.get('Content-Length') || '0', 10);
 
-    const reader = response.body?.getReader();
-    if (!reader) {
-        throw new Error('Failed to get response reader');
-    }
+        const reader = response.body?.getReader();
+        if (!reader) {
+            throw new Error('Failed to get response reader');
+        }
 
-    const chunks: Uint8Array[] = [];
-    let received = 0;
+        const chunks: Uint8Array[] = [];
+        let received = 0;
 
-    while (true) {
-        const { done, value } = await reader.read();
+        while (true) {
+            const { done, value } = await reader.read();
 
-        if (done) break;
+            if (done) break;
 
-        chunks.push(value);
-        received += value.length;
+            chunks.push(value);
+            received += value.length;
 
-        if (total > 0) {
-            const progress = Math.round((received / total) * 100);
-            onProgress?.({ stage: 'fetching', progress, message: `Downloading... ${progress}%` });
+            if (total > 0) {
+                const progress = Math.round((received / total) * 100);
+                onProgress?.({ stage: 'fetching', progress, message: `Downloading... ${progress}%` });
+            }
+        }
+
+        // A dropped connection can end the body early without an error
+        if (total > 0 && received < total) {
+            throw new IncompleteResponseError(`Download incomplete: ${received}/${total} bytes`);
+        }
+
+        // Combine chunks
+        const combined = new Uint8Array(received);
+        let offset = 0;
+        for (const chunk of chunks) {
+            combined.set(chunk, offset);
+            offset += chunk.length;
+        }
+
+        return combined.buffer;
+    }, getRetryOptions('Download', signal));
+}
+
+/**
+ * Verify a finished track before it's saved
+ * Failures are logged and thrown as AudioVerificationError, so a corrupt file is never saved or recorded.
+ * With `verifyMd5` (the verify_flac_md5 setting), FLAC files with an audio MD5 are decoded to check it,
+ * loading FFmpeg if the native tagging path hasn't; otherwise only the container is checked.
+ */
+async function verifyTrackOutput(
+    data: Uint8Array,
+    format: string,
+    track: TidalTrack,
+    trackName: string,
+    verifyMd5: boolean,
+    onLog?: (message: string) => void,
+    signal?: AbortSignal
+): Promise<void> {
+    let ffmpegInstance = verifyMd5 && ffmpegLoaded ? ffmpeg : null;
+    if (verifyMd5 && !ffmpegInstance && format === 'flac' && parseFlacStreamInfo(data)?.info.md5) {
+        try {
+            ffmpegInstance = await loadFFmpeg();
+        } catch (e) {
+            console.warn('Failed to load FFmpeg for the FLAC MD5 check:', e);
         }
     }
+    signal?.throwIfAborted();
+
+    const result = await verifyAudioFile(data, format, track.duration, ffmpegInstance, signal);
+    if (!result.ok) {
+        console.error(`Verification failed for track ${track.id}:`, result.issues);
+        onLog?.(`${trackName} | Failed verification\n${result.issues.join('\n')}`);
+        throw new AudioVerificationError(result.issues);
+    }
+    if (verifyMd5 && result.md5Skipped) {
+        onLog?.(`${trackName} | [WARN] Skipped FLAC MD5 check: ${result.md5Skipped}`);
+    }
+}
 
-    // Combine chunks
-    const combined = new Uint8Array(received);
-    let offset = 0;
-    for (const chunk of chunks) {
-        combined.set(chunk, offset);
-        offset += chunk.length;
+/**
+ * Run a stream download, requesting a fresh manifest when the signed CDN URLs have expired
+ * (e.g. after long retry waits or when a job is resumed later)
+ */
+async function withManifestRefresh<M, T>(
+    manifest: M,
+    refreshManifest: () => Promise<M>,
+    download: (manifest: M) => Promise<T>,
+    onRefresh?: () => void
+): Promise<T> {
+    for (let refresh = 0; ; refresh++) {
+        try {
+            return await download(manifest);
+        } catch (error) {
+            if (refresh >= MAX_MANIFEST_REFRESHES || !isExpiredUrlError(error)) {
+                throw error;
+            }
+            onRefresh?.();
+            manifest = await refreshManifest();
+        }
     }
+}
 
-    return combined.buffer;
+/**
+ * Keep a downloaded segment for resuming
+ * A failed write only costs the resume, so it doesn't fail the download
+ */
+async function checkpointSegment(checkpoint: SegmentCheckpoint | null | undefined, index: number, data: Uint8Array): Promise<void> {
+    if (!checkpoint || data.length === 0) return;
+    try {
+        await checkpoint.write(index, data);
+    } catch (error) {
+        console.warn(`Failed to checkpoint segment ${index}:`, error);
+    }
 }
 
 /**
  * Download multiple segments and combine them
  * Supports concurrent downloads when multi_thread_download is enabled
+ * Each segment is retried by downloadWithProgress; if any is still missing the download fails,
+ * since a gap would produce a corrupt file.
+ * @param checkpoint - Optional store for finished segments; segments found there aren't fetched again
  */
 async function downloadSegments(
     urls: string[],
-    onProgress?: ProgressCallback
+    onProgress?: ProgressCallback,
+    checkpoint?: SegmentCheckpoint | null,
+    signal?: AbortSignal
 ): Promise<Uint8Array> {
     const settings = getSettings();
     const totalSegments = urls.length;
@@ -281,24 +487,38 @@ async function downloadSegments(
         // Instead of waiting for entire batches, start a new download as soon as one finishes
         const CONCURRENCY_LIMIT = 6;
         const downloadedChunks: (Uint8Array | null)[] = new Array(totalSegments).fill(null);
+        const failedSegments: number[] = [];
+        let expiredError: unknown = null;
         let completedSegments = 0;
         let nextIndex = 0; // Next segment index to start downloading
 
         // Worker function: downloads one segment and recursively picks up the next
         const downloadWorker = async (): Promise<void> => {
-            while (nextIndex < totalSegments) {
+            // Once the URLs have expired every remaining segment would fail too
+            while (nextIndex < totalSegments && !expiredError) {
                 const segmentIndex = nextIndex;
                 nextIndex++; // Claim this index immediately
 
                 const url = urls[segmentIndex];
                 try {
-                    const buffer = await downloadWithProgress(url);
-                    const chunk = new Uint8Array(buffer);
-                    downloadedChunks[segmentIndex] = chunk;
+                    const saved = await checkpoint?.read(segmentIndex);
+                    if (saved) {
+                        downloadedChunks[segmentIndex] = saved;
+                    } else {
+                        const buffer = await downloadWithProgress(url, undefined, signal);
+                        const chunk = new Uint8Array(buffer);
+                        downloadedChunks[segmentIndex] = chunk;
+                        await checkpointSegment(checkpoint, segmentIndex, chunk);
+                    }
                 } catch (error) {
+                    if (signal?.aborted) throw error;
                     console.error(`Failed to download segment ${segmentIndex}:`, error);
-                    // Store empty chunk to maintain order, will be handled in combine step
-                    downloadedChunks[segmentIndex] = new Uint8Array(0);
+                    if (isExpiredUrlError(error)) {
+                        expiredError = error;
+                    }
+                    // Keep going so the other segments are checkpointed; the download fails below
+                    failedSegments.push(segmentIndex);
+                    continue;
                 }
 
                 completedSegments++;
@@ -320,6 +540,13 @@ async function downloadSegments(
         // Wait for all workers to complete
         await Promise.all(workers);
 
+        if (expiredError) {
+            throw expiredError;
+        }
+        if (failedSegments.length > 0) {
+            throw new Error(`Failed to download ${failedSegments.length}/${totalSegments} segments`);
+        }
+
         // Combine all chunks in order
         let totalLength = 0;
         for (const chunk of downloadedChunks) {
@@ -344,6 +571,14 @@ async function downloadSegments(
         for (let i = 0; i < totalSegments; i++) {
             const url = urls[i];
 
+            // Reuse segments finished by an earlier run of the job
+            const saved = await checkpoint?.read(i);
+            if (saved) {
+                downloadedChunks.push(saved);
+                totalLength += saved.length;
+                continue;
+            }
+
             // Download each segment and properly await the result
             const buffer = await downloadWithProgress(url, (p) => {
                 if (p.stage === 'fetching') {
@@ -357,12 +592,13 @@ async function downloadSegments(
                         message: `Downloading segment ${i + 1}/${totalSegments}...`
                     });
                 }
-            });
+            }, signal);
 
             // Store the downloaded chunk
             const chunk = new Uint8Array(buffer);
             downloadedChunks.push(chunk);
             totalLength += chunk.length;
+            await checkpointSegment(checkpoint, i, chunk);
         }
 
         // Combine all chunks
@@ -378,49 +614,271 @@ async function downloadSegments(
 }
 
 /**
- * Format track metadata for filename
+ * Embed metadata into an audio file
+ * Tags are written natively; FFmpeg is only loaded to remux M4A and for FLAC that can't be unwrapped from its MP4 container.
+ */
+async function embedMetadata(
+    audioData: Uint8Array,
+    track: TidalTrack,
+    album: TidalAlbum | null,
+    coverData: Uint8Array | null,
+    lyrics: TidalLyrics | null,
+    musicBrainz: MusicBrainzTags | null,
+    inputFormat: string,
+    outputFormat: string, // 'flac' or 'm4a'
+    onProgress?: ProgressCallback,
+    streamInfo?: StreamInfo,
+    signal?: AbortSignal
+): Promise<Uint8Array> {
+    const settings = getSettings();
+
+    onProgress?.({ stage: 'processing', progress: 50, message: 'Embedding metadata...' });
+
+    let data: Uint8Array | null;
+    if (outputFormat === 'flac') {
+        data = tagFlac(audioData, inputFormat, track, album, coverData, musicBrainz, streamInfo, settings);
+        if (!data) {
+            const ffmpegInstance = await loadFFmpeg(onProgress);
+            data = await embedFlacMetadataWithFFmpeg(ffmpegInstance, audioData, track, album, coverData, musicBrainz, inputFormat, onProgress, streamInfo, signal);
+        }
+    } else {
+        const ffmpegInstance = await loadFFmpeg(onProgress);
+        const remuxed = await remuxToM4a(ffmpegInstance, audioData, inputFormat, signal);
+        onProgress?.({ stage: 'processing', progress: 90, message: 'Finalizing...' });
+        data = writeM4aTags(remuxed, getM4aTags(track, album, musicBrainz, coverData, streamInfo, settings));
+    }
+
+    // Lyrics are written past FFmpeg, whose metadata escaping can't carry multi-line values reliably
+    const embeddedLyrics = settings.lyrics_embed
+        ? getEmbeddedLyrics(lyrics, outputFormat === 'flac' ? settings.lyrics_embed_flac : settings.lyrics_embed_m4a)
+        : null;
+    if (embeddedLyrics) {
+        try {
+            data = await embedLyrics(data, outputFormat, embeddedLyrics);
+        } catch (e) {
+            console.warn('Failed to embed lyrics:', e);
+        }
+    }
+
+    return data;
+}
+
+// Picard's MP4 names for the MusicBrainz fields; the rest keep their Vorbis name
+const MUSICBRAINZ_MP4_NAMES: Record<string, string> = {
+    MUSICBRAINZ_TRACKID: 'MusicBrainz Track Id',
+    MUSICBRAINZ_ALBUMID: 'MusicBrainz Album Id',
+    MUSICBRAINZ_ARTISTID: 'MusicBrainz Artist Id',
+    MUSICBRAINZ_ALBUMARTISTID: 'MusicBrainz Album Artist Id',
+    MUSICBRAINZ_RELEASEGROUPID: 'MusicBrainz Release Group Id',
+};
+
+/**
+ * MusicBrainz IDs and release info keyed by their Vorbis comment (Picard) names
+ * MUSICBRAINZ_TRACKID holds the recording ID, as Picard writes it.
  */
+function getMusicBrainzFields(musicBrainz: MusicBrainzTags | null): Record<string, string | string[]> {
+    const fields: Record<string, string | string[]> = {};
+    if (!musicBrainz) return fields;
+
+    const set = (key: string, value: string | string[] | undefined) => {
+        if (value && value.length > 0) fields[key] = value;
+    };
+    set('MUSICBRAINZ_TRACKID', musicBrainz.recordingId);
+    set('MUSICBRAINZ_ALBUMID', musicBrainz.releaseId);
+    set('MUSICBRAINZ_ARTISTID', musicBrainz.artistIds);
+    set('MUSICBRAINZ_ALBUMARTISTID', musicBrainz.albumArtistIds);
+    set('MUSICBRAINZ_RELEASEGROUPID', musicBrainz.releaseGroupId);
+    set('ORIGINALDATE', musicBrainz.originalDate);
+    set('ORIGINALYEAR', musicBrainz.originalDate?.slice(0, 4));
+    set('LABEL', musicBrainz.label);
+    set('CATALOGNUMBER', musicBrainz.catalogNumber);
+    set('BARCODE', musicBrainz.barcode);
+    return fields;
+}
+
 /**
- * Format track metadata for filename
+ * Look up the MusicBrainz tags enabled in settings
+ * @returns null when neither genre lookup nor MusicBrainz IDs are enabled, or the track has no ISRC
  */
-function formatFilename(track: TidalTrack): string {
-    const artist = track.artist?.name || 'Unknown Artist';
-    const title = track.title || 'Unknown Track';
+async function lookupMusicBrainz(
+    track: TidalTrack,
+    album: TidalAlbum | null,
+    settings: TidalSettings,
+    signal?: AbortSignal
+): Promise<MusicBrainzTags | null> {
+    if (!track.isrc || !(settings.metadata_genre_lookup || settings.metadata_musicbrainz_ids)) {
+        return null;
+    }
 
-    // Sanitize filename
-    const sanitize = (str: string) => str
-        .replace(/[<>:"/\\|?*]/g, '')
-        .replace(/\s+/g, ' ')
-        .trim();
+    // In playlist mode the album is a stand-in, so match on the track's own album title
+    const release = settings.metadata_musicbrainz_ids ? { title: track.album?.title, barcode: album?.upc } : null;
+    const tags = await getMusicBrainzTags(track.isrc, release, signal);
 
-    return `${sanitize(artist)} - ${sanitize(title)}`;
+    if (!settings.metadata_musicbrainz_ids) {
+        return { genres: tags.genres, artistIds: [], albumArtistIds: [] };
+    }
+    return settings.metadata_genre_lookup ? tags : { ...tags, genres: [] };
 }
 
 /**
- * Embed metadata into audio file using FFmpeg
+ * Vorbis comments for a track, matching the tags the FFmpeg path writes
  */
-async function embedMetadata(
+function getVorbisComments(
+    track: TidalTrack,
+    album: TidalAlbum | null,
+    musicBrainz: MusicBrainzTags | null,
+    streamInfo: StreamInfo | undefined,
+    settings: TidalSettings
+): Array<[string, string]> {
+    const comments: Array<[string, string]> = [];
+    const add = (key: string, value: string | number | null | undefined) => {
+        if (value !== null && value !== undefined && value !== '') comments.push([key, String(value)]);
+    };
+
+    add('TITLE', track.title);
+    add('ARTIST', track.artists && track.artists.length > 0
+        ? track.artists.map(a => a.name).join(settings.metadata_artist_separator)
+        : track.artist?.name);
+    add('ALBUM', track.album?.title);
+    add('ALBUMARTIST', album?.artist?.name);
+    for (const genre of musicBrainz?.genres || []) {
+        add('GENRE', genre);
+    }
+    add('TRACKNUMBER', track.trackNumber);
+    add('TRACKTOTAL', track.trackNumber ? album?.numberOfTracks : null);
+    add('DISCNUMBER', track.volumeNumber);
+    add('DISCTOTAL', track.volumeNumber ? album?.numberOfVolumes : null);
+    add('DATE', album?.releaseDate);
+    add('COPYRIGHT', track.copyright || album?.copyright);
+    add('COMMENT', `https://tidal.com/browse/track/${track.id}`);
+    add('UPC', album?.upc);
+    add('ISRC', track.isrc);
+    if (track.explicit) add('EXPLICIT', 1);
+
+    add('REPLAYGAIN_TRACK_GAIN', streamInfo?.trackReplayGain != null ? `${streamInfo.trackReplayGain.toFixed(2)} dB` : null);
+    add('REPLAYGAIN_TRACK_PEAK', streamInfo?.trackPeakAmplitude?.toFixed(6));
+    add('REPLAYGAIN_ALBUM_GAIN', streamInfo?.albumReplayGain != null ? `${streamInfo.albumReplayGain.toFixed(2)} dB` : null);
+    add('REPLAYGAIN_ALBUM_PEAK', streamInfo?.albumPeakAmplitude?.toFixed(6));
+
+    for (const [key, value] of Object.entries(getMusicBrainzFields(musicBrainz))) {
+        for (const item of Array.isArray(value) ? value : [value]) {
+            add(key, item);
+        }
+    }
+
+    return comments;
+}
+
+/**
+ * iTunes tags for a track, matching the Vorbis comments written to FLAC
+ */
+function getM4aTags(
+    track: TidalTrack,
+    album: TidalAlbum | null,
+    musicBrainz: MusicBrainzTags | null,
+    coverData: Uint8Array | null,
+    streamInfo: StreamInfo | undefined,
+    settings: TidalSettings
+): M4aTags {
+    const custom: Record<string, string | string[]> = {};
+    if (streamInfo?.trackReplayGain != null) custom['REPLAYGAIN_TRACK_GAIN'] = `${streamInfo.trackReplayGain.toFixed(2)} dB`;
+    if (streamInfo?.trackPeakAmplitude != null) custom['REPLAYGAIN_TRACK_PEAK'] = streamInfo.trackPeakAmplitude.toFixed(6);
+    if (streamInfo?.albumReplayGain != null) custom['REPLAYGAIN_ALBUM_GAIN'] = `${streamInfo.albumReplayGain.toFixed(2)} dB`;
+    if (streamInfo?.albumPeakAmplitude != null) custom['REPLAYGAIN_ALBUM_PEAK'] = streamInfo.albumPeakAmplitude.toFixed(6);
+    if (album?.upc) custom['UPC'] = album.upc;
+    if (track.isrc) custom['ISRC'] = track.isrc;
+    for (const [key, value] of Object.entries(getMusicBrainzFields(musicBrainz))) {
+        custom[MUSICBRAINZ_MP4_NAMES[key] || key] = value;
+    }
+
+    return {
+        title: track.title,
+        artist: track.artists && track.artists.length > 0
+            ? track.artists.map(a => a.name).join(settings.metadata_artist_separator)
+            : track.artist?.name,
+        albumArtist: album?.artist?.name,
+        album: track.album?.title,
+        genre: musicBrainz?.genres.length ? musicBrainz.genres.join('; ') : undefined,
+        date: album?.releaseDate,
+        copyright: track.copyright || album?.copyright,
+        comment: `https://tidal.com/browse/track/${track.id}`,
+        track: track.trackNumber ? { number: track.trackNumber, total: album?.numberOfTracks } : undefined,
+        disc: track.volumeNumber ? { number: track.volumeNumber, total: album?.numberOfVolumes } : undefined,
+        explicit: track.explicit || undefined,
+        cover: coverData && settings.metadata_cover_embed ? coverData : undefined,
+        custom,
+    };
+}
+
+/**
+ * Remux the downloaded AAC stream into a plain (non-fragmented) M4A, without tags
+ */
+async function remuxToM4a(
+    ffmpegInstance: FFmpeg,
+    audioData: Uint8Array,
+    inputFormat: string,
+    signal?: AbortSignal
+): Promise<Uint8Array> {
+    const inputFile = `input.${inputFormat}`;
+    const outputFile = 'output.m4a';
+
+    try {
+        await ffmpegInstance.writeFile(inputFile, audioData, { signal });
+        await ffmpegInstance.exec(['-i', inputFile, '-map', '0:a', '-c:a', 'copy', outputFile], undefined, { signal });
+        return await ffmpegInstance.readFile(outputFile, undefined, { signal }) as Uint8Array;
+    } finally {
+        await cleanupFFmpegFiles(ffmpegInstance, [inputFile, outputFile]);
+    }
+}
+
+/**
+ * Tag FLAC without FFmpeg, unwrapping it from the DASH MP4 container first
+ * @returns null when the audio can't be unwrapped, so the caller falls back to FFmpeg
+ */
+function tagFlac(
+    audioData: Uint8Array,
+    inputFormat: string,
+    track: TidalTrack,
+    album: TidalAlbum | null,
+    coverData: Uint8Array | null,
+    musicBrainz: MusicBrainzTags | null,
+    streamInfo: StreamInfo | undefined,
+    settings: TidalSettings
+): Uint8Array | null {
+    const flacData = inputFormat === 'mp4' ? extractFlacFromMp4(audioData) : audioData;
+    if (!flacData) {
+        console.warn(`Could not unwrap FLAC for track ${track.id}, tagging with FFmpeg`);
+        return null;
+    }
+
+    // Tidal covers are JPEG; check for PNG in case that changes
+    const picture = coverData && settings.metadata_cover_embed
+        ? { data: coverData, mimeType: coverData[0] === 0x89 ? 'image/png' : 'image/jpeg' }
+        : null;
+
+    return writeFlacMetadata(flacData, getVorbisComments(track, album, musicBrainz, streamInfo, settings), picture);
+}
+
+/**
+ * Embed metadata into FLAC using FFmpeg
+ * Fallback for streams whose MP4 container can't be unwrapped natively (see tagFlac)
+ */
+async function embedFlacMetadataWithFFmpeg(
     ffmpegInstance: FFmpeg,
     audioData: Uint8Array,
     track: TidalTrack,
     album: TidalAlbum | null,
     coverData: Uint8Array | null,
-    lyrics: string | null,
-    genres: string[],
+    musicBrainz: MusicBrainzTags | null,
     inputFormat: string,
-    outputFormat: string, // 'flac' or 'm4a'
     onProgress?: ProgressCallback,
-    streamInfo?: StreamInfo
+    streamInfo?: StreamInfo,
+    signal?: AbortSignal
 ): Promise<Uint8Array> {
     const settings = getSettings();
 
-    onProgress?.({ stage: 'processing', progress: 50, message: 'Embedding metadata...' });
-
     const inputFile = `input.${inputFormat}`;
-    const outputFile = `output.${outputFormat}`;
-
-    // Write input file
-    await ffmpegInstance.writeFile(inputFile, audioData);
+    const outputFile = 'output.flac';
 
     // Prepare metadata arguments
     const metadataArgs: string[] = [];
@@ -443,11 +901,16 @@ async function embedMetadata(
     }
 
     // Genre metadata from MusicBrainz
-    if (genres && genres.length > 0) {
-        metadataArgs.push('-metadata', `genre=${genres.join('; ')}`);
+    if (musicBrainz?.genres.length) {
+        metadataArgs.push('-metadata', `genre=${musicBrainz.genres.join('; ')}`);
     }
 
-    // Track number with total (format: trackNumber/totalTracks for M4A compatibility)
+    // MusicBrainz IDs and release info; FFmpeg can't repeat a key, so multiple IDs share one value
+    for (const [key, value] of Object.entries(getMusicBrainzFields(musicBrainz))) {
+        metadataArgs.push('-metadata', `${key}=${Array.isArray(value) ? value.join('; ') : value}`);
+    }
+
+    // Track number with total (format: trackNumber/totalTracks)
     if (track.trackNumber) {
         if (album?.numberOfTracks) {
             metadataArgs.push('-metadata', `track=${track.trackNumber}/${album.numberOfTracks}`);
@@ -465,7 +928,7 @@ async function embedMetadata(
         metadataArgs.push('-metadata', `album_artist=${album.artist.name}`);
     }
 
-    // Disc number with total (format: discNumber/totalDiscs for M4A compatibility)
+    // Disc number with total (format: discNumber/totalDiscs)
     if (track.volumeNumber) {
         if (album?.numberOfVolumes) {
             metadataArgs.push('-metadata', `disc=${track.volumeNumber}/${album.numberOfVolumes}`);
@@ -519,115 +982,63 @@ async function embedMetadata(
     // Add cover art if available and enabled
     let hasCoverArt = false;
     if (coverData && settings.metadata_cover_embed) {
-        await ffmpegInstance.writeFile('cover.jpg', coverData);
         ffmpegArgs.push('-i', 'cover.jpg');
         ffmpegArgs.push('-map', '0:a', '-map', '1:0');
         hasCoverArt = true;
 
-        if (inputFormat === 'flac') {
-            ffmpegArgs.push('-disposition:v', 'attached_pic');
-        } else {
-            // Use copy codec for M4A cover art (works when not using use_metadata_tags)
-            ffmpegArgs.push('-c:v', 'copy');
-            ffmpegArgs.push('-disposition:v:0', 'attached_pic');
-        }
+        ffmpegArgs.push('-c:v', 'copy');
+        ffmpegArgs.push('-disposition:v:0', 'attached_pic');
     }
 
-    // Add lyrics if available and enabled (must be added to metadataArgs BEFORE spreading)
-    if (lyrics && settings.lyrics_embed) {
-        // Escape special characters for FFmpeg metadata
-        // Note: We do NOT escape newlines (\n) because we want actual line breaks, 
-        // not literal "\n" characters in the output.
-        const escapedLyrics = lyrics.replace(/\\/g, '\\\\').replace(/=/g, '\\=').replace(/;/g, '\\;');
+    ffmpegArgs.push(...metadataArgs);
 
-        // Add synced lyrics (with timestamps) as LYRICS tag
-        metadataArgs.push('-metadata', `LYRICS=${escapedLyrics}`);
+    // The fMP4 contains FLAC-encoded audio, so it's copied without re-encoding
+    ffmpegArgs.push('-c:a', 'copy');
 
-        // Generate unsynced lyrics by stripping timestamps [MM:SS.ss] from synced lyrics
-        // Regex matches patterns like [00:15.16] at the start of lines
-        const unsyncedLyrics = lyrics
-            .replace(/\[[\d:.]+\]\s*/g, '')  // Remove timestamp patterns
-            .replace(/\n+/g, ' / ')           // Replace newlines with " / " separator
-            .replace(/\s+/g, ' ')             // Normalize whitespace
-            .trim();
+    ffmpegArgs.push(outputFile);
 
-        if (unsyncedLyrics) {
-            const escapedUnsyncedLyrics = unsyncedLyrics.replace(/\\/g, '\\\\').replace(/=/g, '\\=').replace(/;/g, '\\;');
-            metadataArgs.push('-metadata', `UNSYNCEDLYRICS=${escapedUnsyncedLyrics}`);
+    let data: Uint8Array;
+    try {
+        // Write input files
+        await ffmpegInstance.writeFile(inputFile, audioData, { signal });
+        if (hasCoverArt && coverData) {
+            await ffmpegInstance.writeFile('cover.jpg', coverData, { signal });
         }
-    }
 
-    // Add ReplayGain metadata
-    // For M4A, we use a custom injector (m4a-utils) because FFmpeg's movflags break cover art.
-    // For FLAC, we use FFmpeg directly.
-    if (streamInfo && outputFormat !== 'm4a') {
-        if (streamInfo.trackReplayGain !== undefined && streamInfo.trackReplayGain !== null) {
-            metadataArgs.push('-metadata', `REPLAYGAIN_TRACK_GAIN=${streamInfo.trackReplayGain.toFixed(2)} dB`);
-        }
-        if (streamInfo.trackPeakAmplitude !== undefined && streamInfo.trackPeakAmplitude !== null) {
-            metadataArgs.push('-metadata', `REPLAYGAIN_TRACK_PEAK=${streamInfo.trackPeakAmplitude.toFixed(6)}`);
-        }
-        if (streamInfo.albumReplayGain !== undefined && streamInfo.albumReplayGain !== null) {
-            metadataArgs.push('-metadata', `REPLAYGAIN_ALBUM_GAIN=${streamInfo.albumReplayGain.toFixed(2)} dB`);
-        }
-        if (streamInfo.albumPeakAmplitude !== undefined && streamInfo.albumPeakAmplitude !== null) {
-            metadataArgs.push('-metadata', `REPLAYGAIN_ALBUM_PEAK=${streamInfo.albumPeakAmplitude.toFixed(6)}`);
-        }
-    }
+        // Execute FFmpeg
+        await ffmpegInstance.exec(ffmpegArgs, undefined, { signal });
 
-    ffmpegArgs.push(...metadataArgs);
+        onProgress?.({ stage: 'processing', progress: 90, message: 'Finalizing...' });
 
-    // For fMP4 to FLAC conversion, we need to extract the FLAC audio from the MP4 container
-    // The fMP4 contains FLAC-encoded audio, so we can copy it directly
-    // For same-format operations, just copy the audio stream
-    if (inputFormat === 'mp4' && outputFormat === 'flac') {
-        // Extract FLAC from fragmented MP4 container
-        // Use copy to avoid re-encoding since the audio is already FLAC
-        ffmpegArgs.push('-c:a', 'copy');
-    } else {
-        // Copy audio codec (no re-encoding)
-        ffmpegArgs.push('-c:a', 'copy');
+        // Read output file
+        data = await ffmpegInstance.readFile(outputFile, undefined, { signal }) as Uint8Array;
+    } finally {
+        // Always clear the virtual FS, including after a cancelled exec
+        await cleanupFFmpegFiles(ffmpegInstance, [inputFile, outputFile, 'cover.jpg']);
     }
 
-    ffmpegArgs.push(outputFile);
-
-    // Execute FFmpeg
-    await ffmpegInstance.exec(ffmpegArgs);
-
-    onProgress?.({ stage: 'processing', progress: 90, message: 'Finalizing...' });
-
-    // Read output file
-    let data = await ffmpegInstance.readFile(outputFile) as Uint8Array;
-
-    // Inject ReplayGain for M4A using custom utility
-    if (outputFormat === 'm4a' && streamInfo) {
-        onProgress?.({ stage: 'processing', progress: 95, message: 'Injecting ReplayGain...' });
-        const tags: Record<string, string> = {};
-        if (streamInfo.trackReplayGain) tags['REPLAYGAIN_TRACK_GAIN'] = `${streamInfo.trackReplayGain.toFixed(2)} dB`;
-        if (streamInfo.trackPeakAmplitude) tags['REPLAYGAIN_TRACK_PEAK'] = `${streamInfo.trackPeakAmplitude.toFixed(6)}`;
-        if (streamInfo.albumReplayGain) tags['REPLAYGAIN_ALBUM_GAIN'] = `${streamInfo.albumReplayGain.toFixed(2)} dB`;
-        if (streamInfo.albumPeakAmplitude) tags['REPLAYGAIN_ALBUM_PEAK'] = `${streamInfo.albumPeakAmplitude.toFixed(6)}`;
+    return data;
+}
 
-        // Inject tags if we have any
-        if (Object.keys(tags).length > 0) {
-            try {
-                data = await injectReplayGain(data, tags);
-            } catch (e) {
-                console.warn('Failed to inject ReplayGain tags:', e);
-            }
-        }
-    }
+/**
+ * Write lyrics into a finished file
+ * FLAC: LYRICS holds synced (or plain) lyrics and UNSYNCEDLYRICS the plain text when both are kept.
+ * M4A: '©lyr' holds plain (or synced) lyrics and a custom LYRICS atom the synced text when both are kept.
+ */
+async function embedLyrics(data: Uint8Array, outputFormat: string, lyrics: EmbeddedLyrics): Promise<Uint8Array> {
+    const { synced, unsynced } = lyrics;
 
-    // Cleanup
-    await ffmpegInstance.deleteFile(inputFile);
-    await ffmpegInstance.deleteFile(outputFile);
-    if (hasCoverArt) {
-        try {
-            await ffmpegInstance.deleteFile('cover.jpg');
-        } catch { }
+    if (outputFormat === 'flac') {
+        return setVorbisComments(data, {
+            LYRICS: synced || unsynced,
+            UNSYNCEDLYRICS: synced ? unsynced : null,
+        });
     }
 
-    return data as Uint8Array;
+    return writeM4aTags(data, {
+        lyrics: (unsynced || synced)!,
+        custom: unsynced && synced ? { LYRICS: synced } : undefined,
+    });
 }
 
 /**
@@ -636,7 +1047,8 @@ async function embedMetadata(
 export async function downloadTrack(
     trackId: string | number,
     onProgress?: ProgressCallback,
-    onLog?: (message: string) => void
+    onLog?: (message: string) => void,
+    signal?: AbortSignal
 ): Promise<TrackDownloadResult> {
     let wakeLockSentinel: WakeLockSentinel | null = null;
     try {
@@ -646,7 +1058,7 @@ export async function downloadTrack(
         onProgress?.({ stage: 'fetching', progress: 0, message: 'Fetching track info...' });
 
         // Get track metadata
-        const track = await getTrack(trackId);
+        const track = await getTrack(trackId, signal);
 
         // Append version to title if present (fixes UI and Filename)
         if (track.version) {
@@ -661,8 +1073,9 @@ export async function downloadTrack(
         let album: TidalAlbum | null = null;
         if (track.album?.id) {
             try {
-                album = await getAlbum(track.album.id);
+                album = await getAlbum(track.album.id, signal);
             } catch (e) {
+                if (signal?.aborted) throw e;
                 console.warn('Failed to fetch album info:', e);
             }
         }
@@ -673,23 +1086,24 @@ export async function downloadTrack(
         const shouldTryAtmos = settings.download_dolby_atmos &&
             track.audioModes?.includes('DOLBY_ATMOS');
 
-        let streamInfo;
+        let streamInfo: StreamInfo;
         let isAtmosStream = false;
 
         if (shouldTryAtmos) {
             try {
-                streamInfo = await getStreamInfoAtmos(trackId);
+                streamInfo = await getStreamInfoAtmos(trackId, signal);
                 isAtmosStream = true;
             } catch (e) {
+                if (signal?.aborted) throw e;
                 console.warn('Failed to get Atmos stream, falling back to normal stream:', e);
                 // Emit log for UI console
                 const trackName = `${track.title} ${track.version ? `(${track.version})` : ''} - ${track.artist?.name || 'Unknown'}`;
                 onLog?.(`${trackName} | Failed to get atmos streams\nFallback to selected audio quality instead.`);
 
-                streamInfo = await getStreamInfo(trackId);
+                streamInfo = await getStreamInfo(trackId, signal);
             }
         } else {
-            streamInfo = await getStreamInfo(trackId);
+            streamInfo = await getStreamInfo(trackId, signal);
         }
 
         if (!streamInfo.streamUrl && (!streamInfo.streamUrls || streamInfo.streamUrls.length === 0)) {
@@ -701,21 +1115,22 @@ export async function downloadTrack(
         if (settings.metadata_cover_embed && track.album?.cover) {
             try {
                 const workerUrl = getWorkerUrl();
-                const coverProxyUrl = `${workerUrl}/cover?id=${track.album.cover}&size=${settings.metadata_cover_dimension}`;
-                const coverResponse = await fetch(coverProxyUrl);
+                const coverProxyUrl = `${workerUrl}/cover/${track.album.cover}/${settings.metadata_cover_dimension}`;
+                const coverResponse = await fetch(coverProxyUrl, { signal });
                 if (coverResponse.ok) {
                     coverData = new Uint8Array(await coverResponse.arrayBuffer());
                 }
             } catch (e) {
+                if (signal?.aborted) throw e;
                 console.warn('Failed to fetch cover art:', e);
                 onLog?.(`${trackName} | [WARN] Failed to fetch cover art: ${e instanceof Error ? e.message : 'Unknown error'}`);
             }
         }
 
         // Get lyrics
-        let lyrics: string | null = null;
-        if (settings.lyrics_embed) {
-            lyrics = await getLyrics(trackId);
+        let lyrics: TidalLyrics | null = null;
+        if (settings.lyrics_embed || settings.lyrics_file) {
+            lyrics = await getLyrics(trackId, signal);
             if (!lyrics) {
                 onLog?.(`${trackName} | [WARN] No lyrics available for this track.`);
             }
@@ -724,28 +1139,29 @@ export async function downloadTrack(
         onProgress?.({ stage: 'fetching', progress: 20, message: 'Downloading audio...', trackName, isAtmos: isAtmosStream });
 
         // Download audio file
-        let audioBuffer: ArrayBufferLike;
-
-        if (streamInfo.streamUrls && streamInfo.streamUrls.length > 0) {
-            const segmentData = await downloadSegments(streamInfo.streamUrls, (p) => {
-                if (p.stage === 'fetching') {
-                    // Scale to 20-80%
-                    const scaled = 20 + (p.progress * 0.6);
-                    onProgress?.({ ...p, progress: scaled, trackName, isAtmos: isAtmosStream });
-                }
-            });
-            audioBuffer = segmentData.buffer;
-        } else if (streamInfo.streamUrl) {
-            audioBuffer = await downloadWithProgress(streamInfo.streamUrl, (p) => {
-                if (p.stage === 'fetching') {
-                    // Scale to 20-80%
-                    const scaled = 20 + (p.progress * 0.6);
-                    onProgress?.({ ...p, progress: scaled, trackName, isAtmos: isAtmosStream });
-                }
-            });
-        } else {
+        const refreshStreamInfo = () => isAtmosStream ? getStreamInfoAtmos(trackId, signal) : getStreamInfo(trackId, signal);
+        const audioBuffer = await withManifestRefresh(streamInfo, refreshStreamInfo, async (info): Promise<ArrayBufferLike> => {
+            streamInfo = info;
+            if (info.streamUrls && info.streamUrls.length > 0) {
+                const segmentData = await downloadSegments(info.streamUrls, (p) => {
+                    if (p.stage === 'fetching') {
+                        // Scale to 20-80%
+                        const scaled = 20 + (p.progress * 0.6);
+                        onProgress?.({ ...p, progress: scaled, trackName, isAtmos: isAtmosStream });
+                    }
+                }, null, signal);
+                return segmentData.buffer;
+            } else if (info.streamUrl) {
+                return downloadWithProgress(info.streamUrl, (p) => {
+                    if (p.stage === 'fetching') {
+                        // Scale to 20-80%
+                        const scaled = 20 + (p.progress * 0.6);
+                        onProgress?.({ ...p, progress: scaled, trackName, isAtmos: isAtmosStream });
+                    }
+                }, signal);
+            }
             throw new Error('No stream URL available');
-        }
+        }, () => onLog?.(`${trackName} | [WARN] Stream URLs expired, requesting a new manifest.`));
 
         const audioData = new Uint8Array(audioBuffer);
 
@@ -773,39 +1189,41 @@ export async function downloadTrack(
             outputExtension = 'm4a';
             onProgress?.({ stage: 'processing', progress: 90, message: 'Preparing Atmos file...', trackName, isAtmos: isAtmosStream });
         } else {
-            // Fetch genres from MusicBrainz if enabled
-            let genres: string[] = [];
-            if (settings.metadata_genre_lookup && track.isrc) {
-                try {
-                    onProgress?.({ stage: 'processing', progress: 45, message: 'Looking up genres...', trackName, isAtmos: isAtmosStream });
-                    genres = await getGenresByISRC(track.isrc);
-                } catch (e) {
-                    console.warn('Failed to fetch genres:', e);
-                    onLog?.(`${trackName} | [WARN] Failed to fetch genre from Musicbrainz.`);
+            // Fetch genres and IDs from MusicBrainz if enabled
+            let musicBrainz: MusicBrainzTags | null = null;
+            try {
+                if (settings.metadata_genre_lookup || settings.metadata_musicbrainz_ids) {
+                    onProgress?.({ stage: 'processing', progress: 45, message: 'Looking up MusicBrainz tags...', trackName, isAtmos: isAtmosStream });
                 }
+                musicBrainz = await lookupMusicBrainz(track, album, settings, signal);
+            } catch (e) {
+                if (signal?.aborted) throw e;
+                console.warn('Failed to fetch MusicBrainz tags:', e);
+                onLog?.(`${trackName} | [WARN] Failed to fetch tags from MusicBrainz.`);
             }
 
-            // Load FFmpeg and process
-            const ffmpegInstance = await loadFFmpeg((p: DownloadProgress) => onProgress?.({ ...p, trackName, isAtmos: isAtmosStream }));
-
+            // Embed metadata (loads FFmpeg when needed)
             const processedData = await embedMetadata(
-                ffmpegInstance,
                 audioData,
                 track,
                 album,
                 coverData,
                 lyrics,
-                genres,
+                musicBrainz,
                 inputFormat,
                 isHiRes ? 'flac' : 'm4a',
                 (p: DownloadProgress) => onProgress?.({ ...p, trackName, isAtmos: isAtmosStream }),
-                streamInfo
+                streamInfo,
+                signal
             );
 
             finalData = new Uint8Array(processedData);
             outputExtension = isHiRes ? 'flac' : 'm4a';
         }
 
+        onProgress?.({ stage: 'processing', progress: 95, message: 'Verifying file...', trackName, isAtmos: isAtmosStream });
+        await verifyTrackOutput(finalData, outputExtension, track, trackName, settings.verify_flac_md5, onLog, signal);
+
         onProgress?.({ stage: 'complete', progress: 100, message: 'Triggering save dialog...', trackName, isAtmos: isAtmosStream });
 
         // Create blob and trigger download
@@ -815,17 +1233,32 @@ export async function downloadTrack(
             type: outputExtension === 'flac' ? 'audio/flac' : 'audio/mp4'
         });
 
-        const filename = `${formatFilename(track)}.${outputExtension}`;
-
-        // Trigger browser save dialog
-        triggerSaveDialog(blob, filename);
+        const mediaPath = formatMediaPath(settings.format_track, {
+            track,
+            album,
+            artistSeparator: settings.metadata_artist_separator,
+            audioQuality: streamInfo.audioQuality,
+        });
+        const saved = await saveSingleFile(blob, mediaPath, outputExtension);
+        await recordDownload(track, streamInfo.audioQuality, `${mediaPath}.${outputExtension}`);
+
+        const lyricsFile = settings.lyrics_file && lyrics
+            ? createLyricsFile(lyrics, track, album, settings.metadata_artist_separator)
+            : null;
+        if (lyricsFile) {
+            await saveSingleFile(new Blob([lyricsFile.text], { type: 'text/plain' }), mediaPath, lyricsFile.extension);
+        }
 
         onLog?.(`${trackName} | Success`);
-        onProgress?.({ stage: 'complete', progress: 100, message: 'Download complete!', trackName, isAtmos: isAtmosStream, blob, filename });
+        onProgress?.({ stage: 'complete', progress: 100, message: 'Download complete!', trackName, isAtmos: isAtmosStream, blob: saved?.blob, filename: saved?.filename });
 
         return { track, isAtmos: isAtmosStream };
 
     } catch (error) {
+        if (signal?.aborted) {
+            reportCancelled(`Track ${trackId}`, signal, onProgress, onLog);
+            throw error;
+        }
         console.error('Download error:', error);
         onProgress?.({
             stage: 'error',
@@ -854,24 +1287,31 @@ export function isFFmpegLoaded(): boolean {
  * @param prefetchedTrack - Optional pre-fetched track metadata (avoids extra API call)
  * @param prefetchedAlbum - Optional pre-fetched album metadata for metadata embedding
  * @param playlistContext - Optional playlist context for playlist download mode
+ * @param checkpoint - Optional job checkpoint to resume the segment download from
+ * @param signal - Optional signal to cancel the download and FFmpeg processing
  */
 async function processTrackData(
     trackId: string | number,
     prefetchedTrack?: TidalTrack,
     prefetchedAlbum?: TidalAlbum | null,
     playlistContext?: { playlist: TidalPlaylist; position: number; totalTracks: number; coverData?: Uint8Array | null } | null,
-    onLog?: (message: string) => void
-): Promise<{ data: Uint8Array; filename: string; track: TidalTrack; isAtmos: boolean }> {
+    onLog?: (message: string) => void,
+    checkpoint?: DownloadCheckpoint<MediaItem> | null,
+    signal?: AbortSignal
+): Promise<{ data: Uint8Array; extension: string; track: TidalTrack; isAtmos: boolean; audioQuality: string; lyricsFile: LyricsFile | null }> {
     const settings = getSettings();
 
     // Use pre-fetched track metadata if available, otherwise fetch it
-    const track = prefetchedTrack || await getTrack(trackId);
+    let track = prefetchedTrack || await getTrack(trackId, signal);
 
     // Use pre-fetched album or fetch it for full metadata
     let album: TidalAlbum | null = prefetchedAlbum ?? null;
     const isPlaylistMode = settings.playlist_details_mode && playlistContext;
 
     if (isPlaylistMode) {
+        // Work on a copy: the caller still names the file and indexes the download from the original
+        track = { ...track };
+
         // In playlist mode, override track metadata with playlist context
         track.trackNumber = playlistContext.position;
         track.volumeNumber = 1;
@@ -899,8 +1339,9 @@ async function processTrackData(
         };
     } else if (!album && track.album?.id) {
         try {
-            album = await getAlbum(track.album.id);
+            album = await getAlbum(track.album.id, signal);
         } catch (e) {
+            if (signal?.aborted) throw e;
             console.warn('Failed to fetch album info:', e);
         }
     }
@@ -909,23 +1350,24 @@ async function processTrackData(
     const shouldTryAtmos = settings.download_dolby_atmos &&
         track.audioModes?.includes('DOLBY_ATMOS');
 
-    let streamInfo;
+    let streamInfo: StreamInfo;
     let isAtmosStream = false;
 
     if (shouldTryAtmos) {
         try {
-            streamInfo = await getStreamInfoAtmos(trackId);
+            streamInfo = await getStreamInfoAtmos(trackId, signal);
             isAtmosStream = true;
         } catch (e) {
+            if (signal?.aborted) throw e;
             console.warn('Failed to get Atmos stream, falling back to normal stream:', e);
             // Emit log for UI console
             const trackName = `${track.title} ${track.version ? `(${track.version})` : ''} - ${track.artist?.name || 'Unknown'}`;
             onLog?.(`${trackName} | Failed to get atmos streams\nFallback to selected audio quality instead.`);
 
-            streamInfo = await getStreamInfo(trackId);
+            streamInfo = await getStreamInfo(trackId, signal);
         }
     } else {
-        streamInfo = await getStreamInfo(trackId);
+        streamInfo = await getStreamInfo(trackId, signal);
     }
 
     if (!streamInfo.streamUrl && (!streamInfo.streamUrls || streamInfo.streamUrls.length === 0)) {
@@ -940,12 +1382,13 @@ async function processTrackData(
     } else if (settings.metadata_cover_embed && track.album?.cover) {
         try {
             const workerUrl = getWorkerUrl();
-            const coverProxyUrl = `${workerUrl}/cover?id=${track.album.cover}&size=${settings.metadata_cover_dimension}`;
-            const coverResponse = await fetch(coverProxyUrl);
+            const coverProxyUrl = `${workerUrl}/cover/${track.album.cover}/${settings.metadata_cover_dimension}`;
+            const coverResponse = await fetch(coverProxyUrl, { signal });
             if (coverResponse.ok) {
                 coverData = new Uint8Array(await coverResponse.arrayBuffer());
             }
         } catch (e) {
+            if (signal?.aborted) throw e;
             console.warn('Failed to fetch cover art:', e);
             const logTrackName = `${track.artist?.name || 'Unknown'} - ${track.title || 'Unknown'}`;
             onLog?.(`${logTrackName} | [WARN] Failed to fetch cover art.`);
@@ -953,15 +1396,16 @@ async function processTrackData(
     }
 
     // Get lyrics (skip if it fails, not critical)
-    let lyrics: string | null = null;
-    if (settings.lyrics_embed) {
+    let lyrics: TidalLyrics | null = null;
+    if (settings.lyrics_embed || settings.lyrics_file) {
         try {
-            lyrics = await getLyrics(trackId);
+            lyrics = await getLyrics(trackId, signal);
             if (!lyrics) {
                 const logTrackName = `${track.artist?.name || 'Unknown'} - ${track.title || 'Unknown'}`;
                 onLog?.(`${logTrackName} | [WARN] No lyrics available for this track.`);
             }
-        } catch {
+        } catch (e) {
+            if (signal?.aborted) throw e;
             console.warn('Failed to fetch lyrics for track', trackId);
             const logTrackName = `${track.artist?.name || 'Unknown'} - ${track.title || 'Unknown'}`;
             onLog?.(`${logTrackName} | [WARN] Failed to fetch lyrics.`);
@@ -969,18 +1413,22 @@ async function processTrackData(
     }
 
     // Download audio file
-    let audioData: Uint8Array;
-
-    if (streamInfo.streamUrls && streamInfo.streamUrls.length > 0) {
-        // Segmented DASH stream
-        audioData = await downloadSegments(streamInfo.streamUrls);
-    } else if (streamInfo.streamUrl) {
-        // Single-file stream - use downloadWithProgress for Range-based parallel download
-        const audioBuffer = await downloadWithProgress(streamInfo.streamUrl);
-        audioData = new Uint8Array(audioBuffer);
-    } else {
+    const refreshStreamInfo = () => isAtmosStream ? getStreamInfoAtmos(trackId, signal) : getStreamInfo(trackId, signal);
+    const audioData = await withManifestRefresh(streamInfo, refreshStreamInfo, async (info) => {
+        streamInfo = info;
+        if (info.streamUrls && info.streamUrls.length > 0) {
+            // Segmented DASH stream
+            const segments = checkpoint?.segments(`track-${track.id}-${info.audioQuality}`, info.streamUrls.length);
+            return downloadSegments(info.streamUrls, undefined, segments, signal);
+        } else if (info.streamUrl) {
+            // Single-file stream - use downloadWithProgress for Range-based parallel download
+            return new Uint8Array(await downloadWithProgress(info.streamUrl, undefined, signal));
+        }
         throw new Error('No stream URL available');
-    }
+    }, () => {
+        const logTrackName = `${track.artist?.name || 'Unknown'} - ${track.title || 'Unknown'}`;
+        onLog?.(`${logTrackName} | [WARN] Stream URLs expired, requesting a new manifest.`);
+    });
 
     // Determine file format from quality
     const isHiRes = streamInfo.audioQuality === 'HI_RES_LOSSLESS' ||
@@ -990,163 +1438,821 @@ async function processTrackData(
     const inputFormat = isSegmented ? 'mp4' : (isHiRes ? 'flac' : 'm4a');
     const outputFormat = isAtmosStream ? 'm4a' : (isHiRes ? 'flac' : 'm4a'); // Atmos must be m4a
 
-    // Fetch genres from MusicBrainz if enabled
-    let genres: string[] = [];
-    if (settings.metadata_genre_lookup && track.isrc) {
-        try {
-            genres = await getGenresByISRC(track.isrc);
-        } catch (e) {
-            console.warn('Failed to fetch genres:', e);
-            const logTrackName = `${track.artist?.name || 'Unknown'} - ${track.title || 'Unknown'}`;
-            onLog?.(`${logTrackName} | [WARN] Failed to fetch genre from Musicbrainz.`);
-        }
+    // Fetch genres and IDs from MusicBrainz if enabled
+    let musicBrainz: MusicBrainzTags | null = null;
+    try {
+        musicBrainz = await lookupMusicBrainz(track, album, settings, signal);
+    } catch (e) {
+        if (signal?.aborted) throw e;
+        console.warn('Failed to fetch MusicBrainz tags:', e);
+        const logTrackName = `${track.artist?.name || 'Unknown'} - ${track.title || 'Unknown'}`;
+        onLog?.(`${logTrackName} | [WARN] Failed to fetch tags from MusicBrainz.`);
     }
 
-    // Load FFmpeg and process
-    const ffmpegInstance = await loadFFmpeg();
-
+    // Embed metadata (loads FFmpeg when needed)
     const processedData = await embedMetadata(
-        ffmpegInstance,
         audioData,
         track,
         album,
         coverData,
         lyrics,
-        genres,
+        musicBrainz,
         inputFormat,
         outputFormat,
         undefined, // onProgress
-        streamInfo
+        streamInfo,
+        signal
     );
 
-    const filename = `${formatFilename(track)}.${outputFormat}`;
-
+    const data = new Uint8Array(processedData);
     const logTrackName = `${track.artist?.name || 'Unknown'} - ${track.title || 'Unknown'}`;
+    await verifyTrackOutput(data, outputFormat, track, logTrackName, settings.verify_flac_md5, onLog, signal);
     onLog?.(`${logTrackName} | Success`);
 
-    return { data: new Uint8Array(processedData), filename, track, isAtmos: isAtmosStream };
+    const lyricsFile = settings.lyrics_file && lyrics
+        ? createLyricsFile(lyrics, track, album, settings.metadata_artist_separator)
+        : null;
+
+    return { data, extension: outputFormat, track, isAtmos: isAtmosStream, audioQuality: streamInfo.audioQuality, lyricsFile };
 }
 
 /**
- * Download all tracks in an album as a ZIP file
+ * Remux concatenated MPEG-TS video segments into MP4 using FFmpeg
  */
-export async function downloadAlbum(
-    albumId: string | number,
+async function remuxVideo(
+    ffmpegInstance: FFmpeg,
+    videoData: Uint8Array,
+    video: TidalVideo,
     onProgress?: ProgressCallback,
-    onLog?: (message: string) => void
-): Promise<AlbumDownloadResult> {
-    let wakeLockSentinel: WakeLockSentinel | null = null;
-    try {
-        wakeLockSentinel = await requestWakeLock();
-        onProgress?.({ stage: 'fetching', progress: 0, message: 'Fetching album info...' });
-
-        // Get album info and tracks
-        const album = await getAlbum(albumId);
-        const tracks = await getAlbumTracks(albumId);
+    signal?: AbortSignal
+): Promise<Uint8Array> {
+    const settings = getSettings();
 
-        if (!tracks || tracks.length === 0) {
-            throw new Error('Album has no tracks');
-        }
+    onProgress?.({ stage: 'processing', progress: 85, message: 'Remuxing video...' });
 
-        const settings = getSettings();
+    const inputFile = 'input.ts';
+    const outputFile = 'output.mp4';
 
-        const totalTracks = tracks.length;
+    const metadataArgs: string[] = [];
+    if (video.title) {
+        metadataArgs.push('-metadata', `title=${video.title}`);
+    }
+    if (video.artists && video.artists.length > 0) {
+        metadataArgs.push('-metadata', `artist=${video.artists.map(a => a.name).join(settings.metadata_artist_separator)}`);
+    } else if (video.artist?.name) {
+        metadataArgs.push('-metadata', `artist=${video.artist.name}`);
+    }
+    if (video.album?.title) {
+        metadataArgs.push('-metadata', `album=${video.album.title}`);
+    }
+    if (video.releaseDate) {
+        metadataArgs.push('-metadata', `date=${video.releaseDate.substring(0, 10)}`);
+    }
+    metadataArgs.push('-metadata', `comment=https://tidal.com/browse/video/${video.id}`);
 
-        // Log album info to console
-        const albumArtist = album.artist?.name || 'Unknown Artist';
-        onLog?.(`${album.title} - ${albumArtist} | ${totalTracks} tracks\nhttps://tidal.com/browse/album/${albumId}`);
+    try {
+        await ffmpegInstance.writeFile(inputFile, videoData, { signal });
+
+        // TS carries ADTS AAC, which must be converted to raw AAC for the MP4 container
+        await ffmpegInstance.exec([
+            '-i', inputFile,
+            '-map', '0',
+            '-c', 'copy',
+            '-bsf:a', 'aac_adtstoasc',
+            ...metadataArgs,
+            '-movflags', '+faststart',
+            outputFile,
+        ], undefined, { signal });
+
+        return await ffmpegInstance.readFile(outputFile, undefined, { signal }) as Uint8Array;
+    } finally {
+        await cleanupFFmpegFiles(ffmpegInstance, [inputFile, outputFile]);
+    }
+}
 
-        const zip = new JSZip();
-        const albumFolder = `${album.artist?.name || 'Unknown Artist'} - ${album.title || 'Unknown Album'}`
-            .replace(/[<>:"/\\|?*]/g, '')
-            .replace(/\s+/g, ' ')
-            .trim();
+/**
+ * Download a video at the configured resolution and return MP4 data (without saving to disk)
+ * Used by downloadVideo and for videos inside albums and playlists
+ */
+async function processVideoData(
+    video: TidalVideo,
+    onProgress?: ProgressCallback,
+    onLog?: (message: string) => void,
+    checkpoint?: DownloadCheckpoint<MediaItem> | null,
+    signal?: AbortSignal
+): Promise<{ data: Uint8Array; extension: string; video: TidalVideo }> {
+    const settings = getSettings();
+    const videoName = `${video.artist?.name || 'Unknown'} - ${video.title || 'Unknown'}`;
 
-        // Fetch cover art (1280x1280, fallback to 640x640)
-        onProgress?.({ stage: 'fetching', progress: 2, message: 'Fetching cover art...' });
-        const coverArt = await fetchCoverArtBlob(album.cover);
-        if (coverArt) {
-            zip.file('cover.jpg', coverArt);
+    // Pick the variant matching quality_video from the HLS master playlist
+    const resolveSegments = async () => {
+        const streamInfo = await getVideoStreamInfo(video.id, signal);
+
+        const masterResponse = await fetch(streamInfo.manifestUrl, { signal });
+        if (!masterResponse.ok) {
+            throw new Error(`Failed to fetch video playlist: ${masterResponse.status}`);
+        }
+        const variants = parseMasterPlaylist(await masterResponse.text(), streamInfo.manifestUrl);
+        const variant = selectVariant(variants, parseInt(settings.quality_video, 10));
+        if (!variant) {
+            throw new Error('No video variants available');
         }
 
+        const variantResponse = await fetch(variant.url, { signal });
+        if (!variantResponse.ok) {
+            throw new Error(`Failed to fetch video segments: ${variantResponse.status}`);
+        }
+        const segmentUrls = parseMediaPlaylist(await variantResponse.text(), variant.url);
+        if (segmentUrls.length === 0) {
+            throw new Error('Video playlist has no segments');
+        }
+
+        return { variant, segmentUrls };
+    };
+
+    onProgress?.({ stage: 'fetching', progress: 10, message: 'Getting video stream...' });
+    const resolved = await resolveSegments();
+    const { variant } = resolved;
+
+    if (variant.height && variant.height < parseInt(settings.quality_video, 10)) {
+        onLog?.(`${videoName} | [WARN] ${settings.quality_video}p not available, using ${variant.height}p.`);
+    }
+
+    onProgress?.({ stage: 'fetching', progress: 20, message: 'Downloading video...' });
+    const videoData = await withManifestRefresh(resolved, resolveSegments, ({ variant, segmentUrls }) => {
+        const segments = checkpoint?.segments(`video-${video.id}-${variant.height || 0}`, segmentUrls.length);
+        return downloadSegments(segmentUrls, (p) => {
+            if (p.stage === 'fetching') {
+                // Scale to 20-80%
+                onProgress?.({ ...p, progress: 20 + (p.progress * 0.6) });
+            }
+        }, segments, signal);
+    }, () => onLog?.(`${videoName} | [WARN] Stream URLs expired, requesting a new manifest.`));
+
+    const ffmpegInstance = await loadFFmpeg(onProgress);
+    const data = await remuxVideo(ffmpegInstance, videoData, video, onProgress, signal);
+
+    onLog?.(`${videoName} | Success`);
+
+    return { data: new Uint8Array(data), extension: 'mp4', video };
+}
+
+/**
+ * Download a single music video
+ */
+export async function downloadVideo(
+    videoId: string | number,
+    onProgress?: ProgressCallback,
+    onLog?: (message: string) => void,
+    signal?: AbortSignal
+): Promise<VideoDownloadResult> {
+    let wakeLockSentinel: WakeLockSentinel | null = null;
+    try {
+        wakeLockSentinel = await requestWakeLock();
+        const settings = getSettings();
+
+        onProgress?.({ stage: 'fetching', progress: 0, message: 'Fetching video info...' });
+
+        const video = await getVideo(videoId, signal);
+        const trackName = `${video.artist?.name || 'Unknown'} - ${video.title || 'Unknown'}`;
+
+        const { data } = await processVideoData(
+            video,
+            (p: DownloadProgress) => onProgress?.({ ...p, trackName }),
+            onLog,
+            null,
+            signal
+        );
+
+        onProgress?.({ stage: 'complete', progress: 100, message: 'Triggering save dialog...', trackName });
+
+        const standardBuffer = data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength) as ArrayBuffer;
+        const blob = new Blob([new Uint8Array(standardBuffer)], { type: 'video/mp4' });
+
+        const mediaPath = formatMediaPath(settings.format_video, {
+            track: video,
+            artistSeparator: settings.metadata_artist_separator,
+        });
+        const saved = await saveSingleFile(blob, mediaPath, 'mp4');
+
+        onProgress?.({ stage: 'complete', progress: 100, message: 'Download complete!', trackName, blob: saved?.blob, filename: saved?.filename });
+
+        return { video };
+
+    } catch (error) {
+        if (signal?.aborted) {
+            reportCancelled(`Video ${videoId}`, signal, onProgress, onLog);
+            throw error;
+        }
+        console.error('Video download error:', error);
+        onProgress?.({
+            stage: 'error',
+            progress: 0,
+            message: error instanceof Error ? error.message : 'Video download failed'
+        });
+        onLog?.(`Video ${videoId} | Failed`);
+        throw error;
+    } finally {
+        await releaseWakeLock(wakeLockSentinel);
+    }
+}
+
+/**
+ * Finish a streamed ZIP and trigger the browser save dialog
+ * Entries were already written as tracks finished, so only the central directory is left
+ */
+async function saveZip(
+    writer: ZipWriter,
+    sink: ZipSink,
+    folderName: string,
+    onProgress?: ProgressCallback,
+    onLog?: (message: string) => void,
+    signal?: AbortSignal
+): Promise<void> {
+    signal?.throwIfAborted();
+    onProgress?.({ stage: 'processing', progress: 95, message: 'Finishing ZIP file...' });
+
+    let zipBlob: Blob;
+    try {
+        await writer.finish();
+        zipBlob = await sink.close();
+        onLog?.(`${folderName} | Archived`);
+    } catch (e) {
+        onLog?.(`${folderName} | Failed to Archive`);
+        await sink.abort();
+        throw e;
+    }
+
+    onProgress?.({ stage: 'complete', progress: 98, message: 'Triggering save dialog...' });
+
+    const filename = `${folderName}.zip`;
+
+    // Trigger browser save dialog
+    triggerSaveDialog(zipBlob, filename);
+
+    onProgress?.({ stage: 'complete', progress: 100, message: 'Download complete!', blob: zipBlob, filename });
+}
+
+/**
+ * Destination for the files of a multi-track download
+ * Both a ZIP and a library folder receive each file as soon as it's processed
+ */
+interface DownloadOutput {
+    /** Whether added files survive the tab (true for the library folder, false for a ZIP in progress) */
+    keepsFiles: boolean;
+    addFile(path: string, data: Uint8Array): Promise<void>;
+    hasFile(path: string): Promise<boolean>;
+    finish(folderName: string, onProgress?: ProgressCallback, onLog?: (message: string) => void, signal?: AbortSignal): Promise<void>;
+    /** Throw away a partial download (e.g. after a failure or cancel) */
+    discard(): Promise<void>;
+}
+
+/**
+ * Output that streams files into a STORE-mode ZIP and saves it when finished
+ * The archive is written to the origin private file system where available, so
+ * large albums don't have to fit in memory.
+ */
+async function createZipOutput(): Promise<DownloadOutput> {
+    const sink = await createZipSink();
+    const writer = createZipWriter(sink);
+    return {
+        keepsFiles: false,
+        addFile: (path, data) => writer.addFile(path, data),
+        hasFile: async (path) => writer.hasFile(path),
+        finish: (folderName, onProgress, onLog, signal) => saveZip(writer, sink, folderName, onProgress, onLog, signal),
+        discard: () => sink.abort(),
+    };
+}
+
+/**
+ * Output that writes files straight into the library folder
+ */
+function createFolderOutput(root: FileSystemDirectoryHandle): DownloadOutput {
+    return {
+        keepsFiles: true,
+        addFile: (path, data) => writeFileToDirectory(root, path, data),
+        hasFile: (path) => fileExistsInDirectory(root, path),
+        finish: async (folderName, onProgress, onLog) => {
+            onLog?.(`${folderName} | Saved to ${root.name}`);
+            onProgress?.({ stage: 'complete', progress: 100, message: `Saved to ${root.name}` });
+        },
+        // Finished files stay in the library; partial writes are aborted by writeFileToDirectory
+        discard: async () => { },
+    };
+}
+
+/**
+ * Use the library folder when one is set and writable, otherwise fall back to a ZIP
+ */
+async function createDownloadOutput(onLog?: (message: string) => void): Promise<DownloadOutput> {
+    const root = await getWritableOutputDirectory();
+    if (root) {
+        return createFolderOutput(root);
+    }
+
+    if (await getStoredOutputDirectory()) {
+        onLog?.('Download folder | [WARN] No write access to the download folder, saving as ZIP instead.');
+    }
+    return createZipOutput();
+}
+
+/**
+ * Save a single-file download
+ * With a library folder the full template path is used; the save dialog can't create folders,
+ * so otherwise only the file name part of the template is used.
+ * @returns The blob and file name for the resave button, or null when written to the folder
+ */
+async function saveSingleFile(
+    blob: Blob,
+    mediaPath: string,
+    extension: string
+): Promise<{ blob: Blob; filename: string } | null> {
+    const root = await getWritableOutputDirectory();
+    if (root) {
+        await writeFileToDirectory(root, `${mediaPath}.${extension}`, blob);
+        return null;
+    }
+
+    const filename = `${getPathBasename(mediaPath)}.${extension}`;
+    triggerSaveDialog(blob, filename);
+    return { blob, filename };
+}
+
+/**
+ * Quality a stream is expected to come in: the requested quality, capped by what the track offers
+ */
+function getAvailableQuality(track: TidalTrack, settings: TidalSettings): string {
+    const requested = settings.quality_audio;
+    return track.audioQuality && (AUDIO_QUALITY_RANK[track.audioQuality] ?? 0) < AUDIO_QUALITY_RANK[requested]
+        ? track.audioQuality
+        : requested;
+}
+
+/**
+ * Check whether a track is already in the output and can be skipped (skip_existing)
+ * Only files actually in the output count: in the library folder that's the expected path or the
+ * path recorded in the index of past downloads, in a ZIP only files added to this archive. The index
+ * alone never skips a track, so deleted files come back and a new ZIP isn't left without audio.
+ * With skip_existing_upgrade, tracks stored below the quality now available are downloaded again.
+ */
+export async function shouldSkipExisting(
+    track: TidalTrack,
+    mediaPath: string,
+    output: Pick<DownloadOutput, 'keepsFiles' | 'hasFile'>,
+    settings: TidalSettings,
+    onLog?: (message: string) => void
+): Promise<boolean> {
+    if (!settings.skip_existing) return false;
+
+    const trackName = `${track.artist?.name || 'Unknown'} - ${track.title || 'Unknown'}`;
+    const entry = output.keepsFiles ? await findLibraryEntry(track) : null;
+    const candidates = [`${mediaPath}.flac`, `${mediaPath}.m4a`];
+    if (entry && !candidates.includes(entry.path)) candidates.push(entry.path);
+
+    let inOutput = false;
+    for (const path of candidates) {
+        if (await output.hasFile(path)) {
+            inOutput = true;
+            break;
+        }
+    }
+    if (!inOutput) return false;
+
+    if (settings.skip_existing_upgrade && entry) {
+        const available = getAvailableQuality(track, settings);
+        if (AUDIO_QUALITY_RANK[available] > (AUDIO_QUALITY_RANK[entry.audioQuality] ?? 0)) {
+            onLog?.(`${trackName} | Quality improved (${entry.audioQuality} -> ${available}), downloading again`);
+            return false;
+        }
+    }
+
+    onLog?.(`${trackName} | Skipped (exists)`);
+    return true;
+}
+
+/**
+ * Re-add an item finished by an earlier run of a checkpointed job
+ * @returns The finished item, or null when it still has to be downloaded
+ */
+async function restoreCompletedItem(
+    checkpoint: DownloadCheckpoint<MediaItem> | null,
+    index: number,
+    output: DownloadOutput
+): Promise<CompletedItem | null> {
+    const completed = checkpoint?.getCompleted(index);
+    if (!completed) return null;
+
+    if (!completed.stored) {
+        // Written straight to the library folder by the earlier run
+        return output.keepsFiles ? completed : null;
+    }
+
+    const data = await checkpoint?.readOutput(index);
+    if (!data) return null;
+    await output.addFile(completed.path, data);
+    if (completed.lyricsFile) {
+        await addLyricsFile(output, completed.path.replace(/\.[^./]+$/, ''), completed.lyricsFile);
+    }
+    return completed;
+}
+
+/**
+ * Save a lyrics sidecar next to its track
+ */
+async function addLyricsFile(output: DownloadOutput, mediaPath: string, lyricsFile: LyricsFile | null): Promise<void> {
+    if (!lyricsFile) return;
+    await output.addFile(`${mediaPath}.${lyricsFile.extension}`, new TextEncoder().encode(lyricsFile.text));
+}
+
+/**
+ * Mark an item of a checkpointed job as finished
+ * The output is only kept in the checkpoint when it would be lost with the tab (ZIP output)
+ */
+async function completeCheckpointItem(
+    checkpoint: DownloadCheckpoint<MediaItem> | null,
+    index: number,
+    output: DownloadOutput,
+    item: Omit<CompletedItem, 'stored'>,
+    data: Uint8Array
+): Promise<void> {
+    if (!checkpoint) return;
+    try {
+        await checkpoint.completeItem(index, item, output.keepsFiles ? null : data);
+    } catch (error) {
+        console.warn(`Failed to checkpoint item ${index}:`, error);
+    }
+}
+
+/**
+ * Log how much of a resumed job was already done
+ */
+function logResume<T>(
+    title: string,
+    checkpoint: DownloadCheckpoint<T> | null,
+    totalItems: number,
+    onLog?: (message: string) => void
+): void {
+    const completed = checkpoint?.completedCount() || 0;
+    if (completed > 0) {
+        onLog?.(`${title} | Resuming, ${completed}/${totalItems} items already downloaded`);
+    }
+}
+
+/**
+ * Use the track list snapshot of an earlier run, so item indices stay stable on resume
+ */
+async function loadCheckpointItems(
+    checkpoint: DownloadCheckpoint<MediaItem> | null,
+    fetchItems: () => Promise<MediaItem[]>
+): Promise<MediaItem[]> {
+    const saved = checkpoint?.getItems();
+    if (saved && saved.length > 0) return saved;
+
+    const items = await fetchItems();
+    try {
+        await checkpoint?.saveItems(items);
+    } catch (error) {
+        console.warn('Failed to checkpoint track list:', error);
+    }
+    return items;
+}
+
+/**
+ * Check if a track was delivered below the requested quality (capped at what the track offers) or without Atmos
+ */
+function isFallbackQuality(track: TidalTrack, audioQuality: string, isAtmos: boolean, settings: TidalSettings): boolean {
+    if (isAtmos) return false;
+    if (settings.download_dolby_atmos && track.audioModes?.includes('DOLBY_ATMOS')) return true;
+
+    return (AUDIO_QUALITY_RANK[audioQuality] ?? 0) < AUDIO_QUALITY_RANK[getAvailableQuality(track, settings)];
+}
+
+/**
+ * Result entry for an item restored from a checkpoint
+ */
+function restoredResult(
+    base: Pick<TrackResult, 'trackId' | 'position' | 'type' | 'title'>,
+    entry: MediaItem,
+    restored: CompletedItem,
+    settings: TidalSettings
+): TrackResult {
+    if (entry.type === 'video' || !restored.audioQuality) {
+        return { ...base, status: 'success', isAtmos: restored.isAtmos };
+    }
+    const isAtmos = !!restored.isAtmos;
+    return {
+        ...base,
+        status: 'success',
+        isAtmos,
+        audioQuality: restored.audioQuality,
+        fallbackQuality: isFallbackQuality(entry.item, restored.audioQuality, isAtmos, settings),
+    };
+}
+
+/**
+ * Short failure reason for reports, e.g. the verification issues or HTTP status
+ */
+function getFailureReason(error: unknown): string {
+    return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Add failures.txt and failures.json next to the downloaded files when any item failed
+ * @param directory - Folder of the first item (where cover.jpg goes), empty for the output root
+ */
+async function addFailureReport(
+    output: DownloadOutput,
+    directory: string,
+    title: string,
+    results: TrackResult[]
+): Promise<void> {
+    const failed = results.filter(result => result.status === 'failed');
+    if (failed.length === 0) return;
+
+    const prefix = directory ? `${directory}/` : '';
+    const encoder = new TextEncoder();
+    const lines = [
+        title,
+        `${failed.length} of ${results.length} items failed`,
+        '',
+        ...failed.map(result => `${result.position}. ${result.title}${result.trackId ? ` (${result.trackId})` : ''}: ${result.reason || 'Unknown error'}`),
+    ];
+
+    await output.addFile(`${prefix}failures.txt`, encoder.encode(lines.join('\n') + '\n'));
+    await output.addFile(`${prefix}failures.json`, encoder.encode(JSON.stringify({
+        title,
+        createdAt: new Date().toISOString(),
+        tracks: results,
+    }, null, 2)));
+}
+
+/**
+ * Shared state of the items of a multi-track job
+ */
+interface ItemDownloadContext {
+    output: DownloadOutput;
+    checkpoint: DownloadCheckpoint<MediaItem> | null;
+    settings: TidalSettings;
+    /** Path template for the items, e.g. settings.format_album */
+    template: string;
+    /** Album of an album job, used for file names and tags */
+    album?: TidalAlbum | null;
+    /** Playlist of a playlist job; its items are numbered by list position */
+    playlist?: TidalPlaylist | null;
+    /** Mix of a mix job; its items are numbered by list position */
+    mix?: TidalMix | null;
+    /** Playlist cover for playlist_details_mode */
+    coverData?: Uint8Array | null;
+    /** Only download these items (e.g. to retry failed tracks) */
+    trackIds?: number[] | null;
+    onProgress?: ProgressCallback;
+    onLog?: (message: string) => void;
+    signal?: AbortSignal;
+}
+
+/**
+ * Download the items of an album, playlist or mix into the job's output
+ * Items finished by an earlier run are restored from the checkpoint; failed items are reported
+ * in the results and don't stop the job. Progress is reported in the 5-90% range.
+ */
+async function downloadItems(
+    items: MediaItem[],
+    context: ItemDownloadContext
+): Promise<{ results: TrackResult[]; isAtmos: boolean }> {
+    const { output, checkpoint, settings, template, album, playlist, mix, trackIds, onProgress, onLog, signal } = context;
+    const totalTracks = items.length;
+    const isList = !album;
+    let hasAtmosTrack = false;
+    const results: TrackResult[] = [];
+
+    for (let i = 0; i < items.length; i++) {
+        const source = items[i];
+        const currentTrack = i + 1;
+
+        // Skip if track is undefined (can happen with some playlist items)
+        if (!source.item?.id) {
+            console.warn(`Skipping undefined track at index ${i}`);
+            if (!trackIds) {
+                results.push({ trackId: 0, position: currentTrack, type: source.type, title: 'Unknown', status: 'failed', reason: 'Unavailable' });
+            }
+            continue;
+        }
+
+        if (trackIds && !trackIds.includes(source.item.id)) continue;
+
+        // Append version to title if present (fixes UI and Filename); copied so the job's item list stays untouched
+        const entry: MediaItem = source.type === 'track' && source.item.version
+            ? { type: 'track', item: { ...source.item, title: `${source.item.title} (${source.item.version})` } }
+            : source;
+        const track = entry.item;
+        const trackName = `${track.artist?.name || 'Unknown'} - ${track.title || 'Unknown'}`;
+
         onProgress?.({
             stage: 'fetching',
-            progress: 5,
-            message: `Downloading ${totalTracks} tracks...`,
+            progress: 5 + (i / totalTracks) * 85,
+            message: `Downloading ${entry.type} ${currentTrack}/${totalTracks}: ${trackName}`,
+            currentTrack,
             totalTracks,
-            currentTrack: 0
+            trackName
         });
 
-        let hasAtmosTrack = false;
+        const base = { trackId: track.id, position: currentTrack, type: entry.type, title: trackName };
 
-        // Download each track
-        for (let i = 0; i < tracks.length; i++) {
-            const track = tracks[i];
+        try {
+            const pathContext = {
+                track,
+                album,
+                playlist,
+                mix,
+                listPosition: isList ? currentTrack : undefined,
+                listTotal: isList ? totalTracks : undefined,
+                artistSeparator: settings.metadata_artist_separator,
+            };
+
+            const restored = await restoreCompletedItem(checkpoint, i, output);
+            if (restored) {
+                if (restored.isAtmos) hasAtmosTrack = true;
+                results.push(restoredResult(base, entry, restored, settings));
+                continue;
+            }
 
-            // Append version to title if present (fixes UI and Filename)
-            if (track.version) {
-                track.title = `${track.title} (${track.version})`;
+            if (entry.type === 'video') {
+                const mediaPath = formatMediaPath(template, pathContext);
+                const { data, extension } = await processVideoData(entry.item, undefined, onLog, checkpoint, signal);
+                await output.addFile(`${mediaPath}.${extension}`, data);
+                await completeCheckpointItem(checkpoint, i, output, { path: `${mediaPath}.${extension}` }, data);
+                results.push({ ...base, status: 'success' });
+                continue;
             }
 
-            const currentTrack = i + 1;
-            const trackName = `${track.artist?.name || 'Unknown'} - ${track.title || 'Unknown'}`;
+            // The delivered quality is only known after the download, so look for the expected one
+            const expectedPath = formatMediaPath(template, { ...pathContext, audioQuality: getAvailableQuality(entry.item, settings) });
+            if (await shouldSkipExisting(entry.item, expectedPath, output, settings, onLog)) {
+                results.push({ ...base, status: 'skipped', reason: 'Already in library' });
+                continue;
+            }
 
-            onProgress?.({
-                stage: 'fetching',
-                progress: 5 + (i / totalTracks) * 85,
-                message: `Downloading track ${currentTrack}/${totalTracks}: ${trackName}`,
-                currentTrack,
-                totalTracks,
-                trackName
+            const playlistContext = playlist
+                ? { playlist, position: currentTrack, totalTracks, coverData: context.coverData }
+                : null;
+            const { data, extension, isAtmos, audioQuality, lyricsFile } = await processTrackData(track.id, entry.item, album, playlistContext, onLog, checkpoint, signal);
+            if (isAtmos) hasAtmosTrack = true;
+            const trackPath = formatMediaPath(template, { ...pathContext, audioQuality });
+            await output.addFile(`${trackPath}.${extension}`, data);
+            await addLyricsFile(output, trackPath, lyricsFile);
+            await recordDownload(entry.item, audioQuality, `${trackPath}.${extension}`);
+            await completeCheckpointItem(checkpoint, i, output, { path: `${trackPath}.${extension}`, isAtmos, audioQuality, lyricsFile }, data);
+            results.push({
+                ...base,
+                status: 'success',
+                isAtmos,
+                audioQuality,
+                fallbackQuality: isFallbackQuality(entry.item, audioQuality, isAtmos, settings),
             });
 
-            try {
-                const { data, filename, isAtmos } = await processTrackData(track.id, track, album, null, onLog);
-                if (isAtmos) hasAtmosTrack = true;
-                // Add track number prefix for proper ordering
-                const numberedFilename = `${String(track.trackNumber || currentTrack).padStart(2, '0')} - ${filename}`;
-                zip.file(numberedFilename, data);
-
-                // Add delay between tracks when multi-thread download is enabled to prevent rate limiting
-                if (settings.multi_thread_download && i < tracks.length - 1) {
-                    await new Promise(resolve => setTimeout(resolve, 1500));
-                }
-            } catch (error) {
-                console.error(`Failed to download track ${track.id}:`, error);
-                // Continue with other tracks
+            // Add delay between tracks when multi-thread download is enabled to prevent rate limiting
+            if (settings.multi_thread_download && i < items.length - 1) {
+                await sleep(1500, signal);
             }
+        } catch (error) {
+            if (signal?.aborted) throw error;
+            console.error(`Failed to download track ${track.id}:`, error);
+            results.push({ ...base, status: 'failed', reason: getFailureReason(error) });
+            // Continue with other tracks
         }
+    }
 
-        onProgress?.({ stage: 'processing', progress: 90, message: 'Creating ZIP file...' });
+    return { results, isAtmos: hasAtmosTrack };
+}
 
-        // Generate ZIP file
-        let zipBlob: Blob;
-        try {
-            zipBlob = await zip.generateAsync({ type: 'blob' }, (metadata) => {
-                onProgress?.({
-                    stage: 'processing',
-                    progress: 90 + (metadata.percent / 100) * 8,
-                    message: `Compressing... ${Math.round(metadata.percent)}%`
-                });
-            });
-            onLog?.(`${albumFolder} | Compressed`);
-        } catch (e) {
-            onLog?.(`${albumFolder} | Failed to Compress`);
-            throw e;
-        }
+/**
+ * Download every track of an album into an existing output
+ * Progress is reported in the 0-90% range
+ * The job checkpoint is left for the caller to remove once the output is finished.
+ * @param checkpointKey - `album-<id>`, or `artist-<id>-album-<id>` for the releases of an artist job
+ * @param trackIds - Only download these items (e.g. to retry failed tracks)
+ */
+async function addAlbumToOutput(
+    albumId: string | number,
+    checkpointKey: string,
+    output: DownloadOutput,
+    onProgress?: ProgressCallback,
+    onLog?: (message: string) => void,
+    trackIds?: number[] | null,
+    signal?: AbortSignal
+): Promise<AlbumDownloadResult> {
+    onProgress?.({ stage: 'fetching', progress: 0, message: 'Fetching album info...' });
+
+    const settings = getSettings();
+
+    const checkpoint = await openCheckpoint<MediaItem>(checkpointKey);
+
+    // Get album info and tracks (plus videos when enabled)
+    const album = await getAlbum(albumId, signal);
+    const onListPage = (fetched: number, total: number) => {
+        onProgress?.({ stage: 'fetching', progress: 1, message: `Fetching track list... ${fetched}/${total}` });
+    };
+    const items = await loadCheckpointItems(checkpoint, async () => settings.video_download
+        ? await collectItems(paginateAlbumItems(albumId, signal), onListPage)
+        : (await collectItems(paginateAlbumTracks(albumId, signal), onListPage)).map(track => ({ type: 'track', item: track })));
+
+    if (!items || items.length === 0) {
+        throw new Error('Album has no tracks');
+    }
+
+    const totalTracks = items.length;
+
+    // Log album info to console
+    const albumArtist = album.artist?.name || 'Unknown Artist';
+    onLog?.(`${album.title} - ${albumArtist} | ${totalTracks} tracks\nhttps://tidal.com/browse/album/${albumId}`);
+    logResume(album.title, checkpoint, totalTracks, onLog);
 
-        onProgress?.({ stage: 'complete', progress: 98, message: 'Triggering save dialog...' });
+    // Cover art and reports go next to the first track so they land in the template's album folder
+    const albumDir = getPathDirectory(formatMediaPath(settings.format_album, {
+        track: items[0].item,
+        album,
+        artistSeparator: settings.metadata_artist_separator,
+    }));
+
+    // Fetch cover art (1280x1280, fallback to 640x640)
+    onProgress?.({ stage: 'fetching', progress: 2, message: 'Fetching cover art...' });
+    const coverArt = await fetchCoverArtBlob(album.cover, signal);
+    if (coverArt) {
+        await output.addFile(albumDir ? `${albumDir}/cover.jpg` : 'cover.jpg', coverArt);
+    }
 
-        const filename = `${albumFolder}.zip`;
+    onProgress?.({
+        stage: 'fetching',
+        progress: 5,
+        message: `Downloading ${totalTracks} tracks...`,
+        totalTracks,
+        currentTrack: 0
+    });
+
+    const { results, isAtmos: hasAtmosTrack } = await downloadItems(items, {
+        output,
+        checkpoint,
+        settings,
+        template: settings.format_album,
+        album,
+        trackIds,
+        onProgress,
+        onLog,
+        signal,
+    });
 
-        // Trigger browser save dialog
-        triggerSaveDialog(zipBlob, filename);
+    await addFailureReport(output, albumDir, `${album.artist?.name || 'Unknown Artist'} - ${album.title || 'Unknown Album'}`, results);
 
-        onProgress?.({ stage: 'complete', progress: 100, message: 'Download complete!', blob: zipBlob, filename });
+    return { album, isAtmos: hasAtmosTrack, tracks: results };
+}
 
-        return { album, isAtmos: hasAtmosTrack };
+/**
+ * Download all tracks in an album as a ZIP file, or into the download folder when one is set
+ */
+export async function downloadAlbum(
+    albumId: string | number,
+    onProgress?: ProgressCallback,
+    onLog?: (message: string) => void,
+    trackIds?: number[] | null,
+    signal?: AbortSignal
+): Promise<AlbumDownloadResult> {
+    return saveAlbum(albumId, `album-${albumId}`, onProgress, onLog, trackIds, signal);
+}
+
+/**
+ * Download an album into its own output, resuming from the given checkpoint
+ */
+async function saveAlbum(
+    albumId: string | number,
+    checkpointKey: string,
+    onProgress?: ProgressCallback,
+    onLog?: (message: string) => void,
+    trackIds?: number[] | null,
+    signal?: AbortSignal
+): Promise<AlbumDownloadResult> {
+    let wakeLockSentinel: WakeLockSentinel | null = null;
+    let output: DownloadOutput | null = null;
+    try {
+        wakeLockSentinel = await requestWakeLock();
+
+        output = await createDownloadOutput(onLog);
+        const result = await addAlbumToOutput(albumId, checkpointKey, output, onProgress, onLog, trackIds, signal);
+
+        const { album } = result;
+        const albumFolder = sanitizePathSegment(`${album.artist?.name || 'Unknown Artist'} - ${album.title || 'Unknown Album'}`);
+        await output.finish(albumFolder, onProgress, onLog, signal);
+        await removeCheckpoint(checkpointKey);
+
+        return result;
 
     } catch (error) {
+        await output?.discard();
+        if (signal?.aborted) {
+            // Cancelled jobs leave the queue, so there's nothing to resume; paused ones continue from the checkpoint
+            if (!isPaused(signal)) await removeCheckpoint(checkpointKey);
+            reportCancelled(`Album ${albumId}`, signal, onProgress, onLog);
+            throw error;
+        }
         console.error('Album download error:', error);
         onProgress?.({
             stage: 'error',
@@ -1161,34 +2267,52 @@ export async function downloadAlbum(
 }
 
 /**
- * Download all tracks in a playlist as a ZIP file
+ * Download all tracks in a playlist as a ZIP file, or into the download folder when one is set
  */
 export async function downloadPlaylist(
     playlistId: string,
     onProgress?: ProgressCallback,
-    onLog?: (message: string) => void
+    onLog?: (message: string) => void,
+    trackIds?: number[] | null,
+    signal?: AbortSignal
 ): Promise<PlaylistDownloadResult> {
     let wakeLockSentinel: WakeLockSentinel | null = null;
+    let output: DownloadOutput | null = null;
     try {
         wakeLockSentinel = await requestWakeLock();
         onProgress?.({ stage: 'fetching', progress: 0, message: 'Fetching playlist info...' });
 
-        // Get playlist info
-        const playlist = await getPlaylist(playlistId);
-        const tracks = await getPlaylistTracks(playlistId);
+        const settings = getSettings();
+        const checkpoint = await openCheckpoint<MediaItem>(`playlist-${playlistId}`);
+
+        // Get playlist info and tracks (plus videos when enabled)
+        // A resumed job keeps its original track list, so edits to the playlist since don't shift positions
+        const playlist = await getPlaylist(playlistId, signal);
+        const onListPage = (fetched: number, total: number) => {
+            onProgress?.({ stage: 'fetching', progress: 1, message: `Fetching track list... ${fetched}/${total}` });
+        };
+        const items = await loadCheckpointItems(checkpoint, async () => settings.video_download
+            ? await collectItems(paginatePlaylistItems(playlistId, signal), onListPage)
+            : (await collectItems(paginatePlaylistTracks(playlistId, signal), onListPage)).map(track => ({ type: 'track', item: track })));
 
-        if (!tracks || tracks.length === 0) {
+        if (!items || items.length === 0) {
             throw new Error('Playlist has no tracks');
         }
 
-        const settings = getSettings();
+        // Unavailable or region-locked items are dropped by the API, so the listing can come up short
+        const expectedItems = (playlist.numberOfTracks || 0) + (settings.video_download ? playlist.numberOfVideos || 0 : 0);
+        if (expectedItems && items.length !== expectedItems) {
+            console.warn(`Playlist ${playlistId}: expected ${expectedItems} items, got ${items.length}`);
+            onLog?.(`${playlist.title} | [WARN] Expected ${expectedItems} items but the listing returned ${items.length}.`);
+        }
 
-        const totalTracks = tracks.length;
+        const totalTracks = items.length;
 
         // Log playlist info to console
         onLog?.(`${playlist.title} | ${totalTracks} tracks\nhttps://tidal.com/browse/playlist/${playlistId}`);
+        logResume(playlist.title, checkpoint, totalTracks, onLog);
 
-        const zip = new JSZip();
+        output = await createDownloadOutput(onLog);
 
         // Fetch cover art (1280x1280, fallback to 640x640)
         onProgress?.({ stage: 'fetching', progress: 2, message: 'Fetching cover art...' });
@@ -1196,9 +2320,16 @@ export async function downloadPlaylist(
         const coverImageId = settings.playlist_details_mode
             ? (playlist.squareImage || playlist.image)
             : playlist.image;
-        const coverArt = await fetchCoverArtBlob(coverImageId);
+        const coverArt = await fetchCoverArtBlob(coverImageId, signal);
+        const playlistDir = getPathDirectory(formatMediaPath(settings.format_playlist, {
+            track: items[0].item,
+            playlist,
+            listPosition: 1,
+            listTotal: totalTracks,
+            artistSeparator: settings.metadata_artist_separator,
+        }));
         if (coverArt) {
-            zip.file('cover.jpg', coverArt);
+            await output.addFile(playlistDir ? `${playlistDir}/cover.jpg` : 'cover.jpg', coverArt);
         }
 
         onProgress?.({
@@ -1209,100 +2340,327 @@ export async function downloadPlaylist(
             currentTrack: 0
         });
 
-        let hasAtmosTrack = false;
+        const { results, isAtmos: hasAtmosTrack } = await downloadItems(items, {
+            output,
+            checkpoint,
+            settings,
+            template: settings.format_playlist,
+            playlist,
+            coverData: coverArt,
+            trackIds,
+            onProgress,
+            onLog,
+            signal,
+        });
 
-        // Download each track
-        for (let i = 0; i < tracks.length; i++) {
-            const track = tracks[i];
-            const currentTrack = i + 1;
+        await addFailureReport(output, playlistDir, playlist.title || 'Unknown Playlist', results);
 
-            // Skip if track is undefined (can happen with some playlist items)
-            if (!track || !track.id) {
-                console.warn(`Skipping undefined track at index ${i}`);
-                continue;
-            }
+        // Use proper playlist title for folder name
+        const playlistFolder = sanitizePathSegment(playlist.title || 'Unknown Playlist');
+        await output.finish(playlistFolder, onProgress, onLog, signal);
+        await removeCheckpoint(`playlist-${playlistId}`);
 
-            // Append version to title if present (fixes UI and Filename)
-            if (track.version) {
-                track.title = `${track.title} (${track.version})`;
-            }
+        return { playlist, isAtmos: hasAtmosTrack, tracks: results };
 
-            const trackName = `${track.artist?.name || 'Unknown'} - ${track.title || 'Unknown'}`;
+    } catch (error) {
+        await output?.discard();
+        if (signal?.aborted) {
+            if (!isPaused(signal)) await removeCheckpoint(`playlist-${playlistId}`);
+            reportCancelled(`Playlist ${playlistId}`, signal, onProgress, onLog);
+            throw error;
+        }
+        console.error('Playlist download error:', error);
+        onProgress?.({
+            stage: 'error',
+            progress: 0,
+            message: error instanceof Error ? error.message : 'Playlist download failed'
+        });
+        onLog?.(`Playlist ${playlistId} | Failed`);
+        throw error;
+    } finally {
+        await releaseWakeLock(wakeLockSentinel);
+    }
+}
 
-            onProgress?.({
-                stage: 'fetching',
-                progress: 5 + (i / totalTracks) * 85,
-                message: `Downloading track ${currentTrack}/${totalTracks}: ${trackName}`,
-                currentTrack,
-                totalTracks,
-                trackName
+/**
+ * Download all tracks in a mix as a ZIP file, or into the download folder when one is set
+ */
+export async function downloadMix(
+    mixId: string,
+    onProgress?: ProgressCallback,
+    onLog?: (message: string) => void,
+    trackIds?: number[] | null,
+    signal?: AbortSignal
+): Promise<MixDownloadResult> {
+    let wakeLockSentinel: WakeLockSentinel | null = null;
+    let output: DownloadOutput | null = null;
+    try {
+        wakeLockSentinel = await requestWakeLock();
+        onProgress?.({ stage: 'fetching', progress: 0, message: 'Fetching mix info...' });
+
+        const settings = getSettings();
+        const checkpoint = await openCheckpoint<MediaItem>(`mix-${mixId}`);
+
+        // Get mix info and items; mixes can contain videos, which are dropped unless enabled
+        // Mixes are regenerated regularly, so a resumed job sticks to its original track list
+        const mix = await getMix(mixId, signal);
+        const items = await loadCheckpointItems(checkpoint, async () => {
+            const allItems = await collectItems(paginateMixItems(mixId, signal), (fetched, total) => {
+                onProgress?.({ stage: 'fetching', progress: 1, message: `Fetching track list... ${fetched}/${total}` });
             });
+            return settings.video_download ? allItems : allItems.filter(entry => entry.type === 'track');
+        });
 
-            try {
-                const { data, filename, isAtmos } = await processTrackData(track.id, track, null, {
-                    playlist,
-                    position: currentTrack,
-                    totalTracks,
-                    coverData: coverArt
-                }, onLog);
-                if (isAtmos) hasAtmosTrack = true;
-                // Use playlist position or album track number depending on setting
-                const trackNum = settings.playlist_details_mode ? currentTrack : (track.trackNumber || currentTrack);
-                const numberedFilename = `${String(trackNum).padStart(2, '0')} - ${filename}`;
-                zip.file(numberedFilename, data);
-
-                // Add delay between tracks when multi-thread download is enabled to prevent rate limiting
-                if (settings.multi_thread_download && i < tracks.length - 1) {
-                    await new Promise(resolve => setTimeout(resolve, 1500));
-                }
-            } catch (error) {
-                console.error(`Failed to download track ${track.id}:`, error);
-                // Continue with other tracks
-            }
+        if (items.length === 0) {
+            throw new Error('Mix has no tracks');
         }
 
-        onProgress?.({ stage: 'processing', progress: 90, message: 'Creating ZIP file...' });
+        const totalTracks = items.length;
 
-        // Use proper playlist title for folder name
-        const playlistFolder = `${playlist.title || 'Unknown Playlist'}`
-            .replace(/[<>:"/\\|?*]/g, '')
-            .replace(/\s+/g, ' ')
-            .trim();
+        // Log mix info to console
+        onLog?.(`${mix.title} | ${totalTracks} tracks\nhttps://tidal.com/browse/mix/${mixId}`);
+        logResume(mix.title, checkpoint, totalTracks, onLog);
 
-        // Generate ZIP file
-        let zipBlob: Blob;
-        try {
-            zipBlob = await zip.generateAsync({ type: 'blob' }, (metadata) => {
+        output = await createDownloadOutput(onLog);
+
+        onProgress?.({
+            stage: 'fetching',
+            progress: 5,
+            message: `Downloading ${totalTracks} tracks...`,
+            totalTracks,
+            currentTrack: 0
+        });
+
+        const { results, isAtmos: hasAtmosTrack } = await downloadItems(items, {
+            output,
+            checkpoint,
+            settings,
+            template: settings.format_mix,
+            mix,
+            trackIds,
+            onProgress,
+            onLog,
+            signal,
+        });
+
+        const mixDir = getPathDirectory(formatMediaPath(settings.format_mix, {
+            track: items[0].item,
+            mix,
+            listPosition: 1,
+            listTotal: totalTracks,
+            artistSeparator: settings.metadata_artist_separator,
+        }));
+        await addFailureReport(output, mixDir, mix.title || 'Unknown Mix', results);
+
+        const mixFolder = sanitizePathSegment(mix.title || 'Unknown Mix');
+        await output.finish(mixFolder, onProgress, onLog, signal);
+        await removeCheckpoint(`mix-${mixId}`);
+
+        return { mix, isAtmos: hasAtmosTrack, tracks: results };
+
+    } catch (error) {
+        await output?.discard();
+        if (signal?.aborted) {
+            if (!isPaused(signal)) await removeCheckpoint(`mix-${mixId}`);
+            reportCancelled(`Mix ${mixId}`, signal, onProgress, onLog);
+            throw error;
+        }
+        console.error('Mix download error:', error);
+        onProgress?.({
+            stage: 'error',
+            progress: 0,
+            message: error instanceof Error ? error.message : 'Mix download failed'
+        });
+        onLog?.(`Mix ${mixId} | Failed`);
+        throw error;
+    } finally {
+        await releaseWakeLock(wakeLockSentinel);
+    }
+}
+
+// Ranking used to pick the best copy among duplicate releases
+const AUDIO_QUALITY_RANK: Record<string, number> = {
+    LOW: 0,
+    HIGH: 1,
+    LOSSLESS: 2,
+    HI_RES: 3,
+    HI_RES_LOSSLESS: 3,
+};
+
+/**
+ * Normalize a release title for duplicate detection
+ * Strips remaster/edition annotations such as "(2011 Remaster)" or "- Remastered 2009"
+ */
+function normalizeReleaseTitle(title: string): string {
+    return title
+        .toLowerCase()
+        .replace(/[([][^)\]]*(remaster|deluxe|expanded|anniversary|edition)[^)\]]*[)\]]/g, '')
+        .replace(/\s+-\s+.*remaster.*$/g, '')
+        .replace(/\s+/g, ' ')
+        .trim();
+}
+
+/**
+ * Filter an artist's releases by type and collapse duplicate variants
+ * (explicit/clean, remasters) into a single release.
+ * Preference: explicit over clean, then higher audio quality, then the most recent release.
+ */
+function selectArtistReleases(albums: TidalAlbum[], settings: TidalSettings): TidalAlbum[] {
+    // The same release can be listed under more than one group
+    const unique = Array.from(new Map(albums.map(album => [album.id, album])).values());
+
+    if (!settings.artist_skip_duplicates) {
+        return unique;
+    }
+
+    const groups = new Map<string, TidalAlbum[]>();
+    for (const album of unique) {
+        const key = `${album.type || 'ALBUM'}|${normalizeReleaseTitle(album.title || '')}`;
+        groups.set(key, [...(groups.get(key) || []), album]);
+    }
+
+    const selected: TidalAlbum[] = [];
+    for (const variants of groups.values()) {
+        variants.sort((a, b) =>
+            Number(b.explicit) - Number(a.explicit) ||
+            (AUDIO_QUALITY_RANK[b.audioQuality] ?? 0) - (AUDIO_QUALITY_RANK[a.audioQuality] ?? 0) ||
+            (b.releaseDate || '').localeCompare(a.releaseDate || '')
+        );
+        selected.push(variants[0]);
+    }
+
+    // Keep the original listing order
+    return unique.filter(album => selected.includes(album));
+}
+
+/**
+ * Download an artist's discography
+ * Each release goes through the album pipeline, into one ZIP per album or a single combined output.
+ * With one output per album, the artist checkpoint records saved releases (by ID), so a resumed job
+ * continues with the first unsaved one; a combined output resumes from the release checkpoints instead.
+ */
+export async function downloadArtist(
+    artistId: string | number,
+    onProgress?: ProgressCallback,
+    onLog?: (message: string) => void,
+    signal?: AbortSignal
+): Promise<ArtistDownloadResult> {
+    let wakeLockSentinel: WakeLockSentinel | null = null;
+    let output: DownloadOutput | null = null;
+    // Release checkpoints sit under the artist job's key, so removing it removes them too
+    const checkpointKey = `artist-${artistId}`;
+    try {
+        wakeLockSentinel = await requestWakeLock();
+        onProgress?.({ stage: 'fetching', progress: 0, message: 'Fetching artist info...' });
+
+        const settings = getSettings();
+        const artist = await getArtist(artistId, signal);
+        const checkpoint = await openCheckpoint<TidalAlbum>(checkpointKey);
+
+        const filters: ArtistReleaseFilter[] = [];
+        if (settings.artist_include_albums) filters.push('ALBUMS');
+        if (settings.artist_include_eps_singles) filters.push('EPSANDSINGLES');
+        if (settings.artist_include_compilations) filters.push('COMPILATIONS');
+
+        if (filters.length === 0) {
+            throw new Error('No release types selected in settings');
+        }
+
+        onProgress?.({ stage: 'fetching', progress: 1, message: 'Fetching discography...' });
+        const allAlbums = await getArtistAlbums(artistId, filters, signal);
+        const albums = selectArtistReleases(allAlbums, settings);
+
+        if (albums.length === 0) {
+            throw new Error('Artist has no matching releases');
+        }
+
+        const skipped = allAlbums.length - albums.length;
+        onLog?.(`${artist.name} | ${albums.length} releases${skipped > 0 ? ` (${skipped} duplicates skipped)` : ''}\nhttps://tidal.com/browse/artist/${artistId}`);
+
+        output = settings.artist_single_archive ? await createDownloadOutput(onLog) : null;
+        if (!output) logResume(artist.name, checkpoint, albums.length, onLog);
+        const downloaded: TidalAlbum[] = [];
+        let hasAtmosTrack = false;
+        const tracks: TrackResult[] = [];
+
+        for (let i = 0; i < albums.length; i++) {
+            const release = albums[i];
+            const prefix = `[${i + 1}/${albums.length}] ${release.title}`;
+            // Combined outputs reserve the last 10% for finishing the archive
+            const span = output ? 90 : 100;
+
+            // Scale each release's progress into its share of the overall job.
+            // Per-release completion, errors and cancellation are reported by the artist job itself.
+            const releaseProgress: ProgressCallback = (p) => {
+                if (p.stage === 'complete' || p.stage === 'error' || p.stage === 'cancelled' || p.stage === 'paused') return;
                 onProgress?.({
-                    stage: 'processing',
-                    progress: 90 + (metadata.percent / 100) * 8,
-                    message: `Compressing... ${Math.round(metadata.percent)}%`
+                    ...p,
+                    progress: ((i + p.progress / 100) / albums.length) * span,
+                    message: `${prefix}: ${p.message}`,
                 });
-            });
-            onLog?.(`${playlistFolder} | Compressed`);
-        } catch (e) {
-            onLog?.(`${playlistFolder} | Failed to Compress`);
-            throw e;
-        }
+            };
+
+            // Saved by an earlier run of this job
+            const saved = output ? null : checkpoint?.getCompleted(release.id);
+            if (saved) {
+                if (saved.isAtmos) hasAtmosTrack = true;
+                tracks.push(...(saved.tracks || []));
+                downloaded.push(release);
+                continue;
+            }
 
-        onProgress?.({ stage: 'complete', progress: 98, message: 'Triggering save dialog...' });
+            try {
+                const releaseKey = `${checkpointKey}-album-${release.id}`;
+                const result = output
+                    ? await addAlbumToOutput(release.id, releaseKey, output, releaseProgress, onLog, null, signal)
+                    : await saveAlbum(release.id, releaseKey, releaseProgress, onLog, null, signal);
+                if (result.isAtmos) hasAtmosTrack = true;
+                const releaseTracks = result.tracks.map(track => ({ ...track, releaseId: release.id }));
+                tracks.push(...releaseTracks);
+                downloaded.push(result.album);
+
+                if (!output && checkpoint) {
+                    try {
+                        await checkpoint.completeItem(release.id, { path: result.album.title, isAtmos: result.isAtmos, tracks: releaseTracks });
+                    } catch (error) {
+                        console.warn(`Failed to checkpoint release ${release.id}:`, error);
+                    }
+                }
+            } catch (error) {
+                if (signal?.aborted) throw error;
+                console.error(`Failed to download release ${release.id}:`, error);
+                onLog?.(`${release.title} | Failed`);
+                // Continue with other releases
+            }
+        }
 
-        // Trigger browser save dialog
-        const filename = `${playlistFolder}.zip`;
-        triggerSaveDialog(zipBlob, filename);
+        if (downloaded.length === 0) {
+            throw new Error('No releases could be downloaded');
+        }
 
-        onProgress?.({ stage: 'complete', progress: 100, message: 'Download complete!', blob: zipBlob, filename });
+        if (output) {
+            await output.finish(sanitizePathSegment(artist.name || 'Unknown Artist'), onProgress, onLog, signal);
+        } else {
+            onProgress?.({ stage: 'complete', progress: 100, message: `Downloaded ${downloaded.length}/${albums.length} releases` });
+        }
+        await removeCheckpoint(checkpointKey);
 
-        return { playlist, isAtmos: hasAtmosTrack };
+        return { artist, albums: downloaded, isAtmos: hasAtmosTrack, tracks };
 
     } catch (error) {
-        console.error('Playlist download error:', error);
+        await output?.discard();
+        if (signal?.aborted) {
+            if (!isPaused(signal)) await removeCheckpoint(checkpointKey);
+            reportCancelled(`Artist ${artistId}`, signal, onProgress, onLog);
+            throw error;
+        }
+        console.error('Artist download error:', error);
         onProgress?.({
             stage: 'error',
             progress: 0,
-            message: error instanceof Error ? error.message : 'Playlist download failed'
+            message: error instanceof Error ? error.message : 'Artist download failed'
         });
-        onLog?.(`Playlist ${playlistId} | Failed`);
+        onLog?.(`Artist ${artistId} | Failed`);
         throw error;
     } finally {
         await releaseWakeLock(wakeLockSentinel);
@@ -0,0 +1,393 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { extractFlacFromMp4, setVorbisComments, writeFlacMetadata } from './flac-utils';
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+const AUDIO = new Uint8Array([0xFF, 0xF8, 0x69, 0x08, 0x00, 0x01, 0x02, 0x03]);
+
+interface Block {
+    type: number;
+    data: Uint8Array;
+}
+
+interface ParsedBlock extends Block {
+    isLast: boolean;
+    /** The 24-bit length field as written */
+    length: number;
+}
+
+function concat(...parts: Uint8Array[]): Uint8Array {
+    const out = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+    let pos = 0;
+    for (const part of parts) {
+        out.set(part, pos);
+        pos += part.length;
+    }
+    return out;
+}
+
+function u32be(value: number): Uint8Array {
+    const bytes = new Uint8Array(4);
+    new DataView(bytes.buffer).setUint32(0, value);
+    return bytes;
+}
+
+function u32le(value: number): Uint8Array {
+    const bytes = new Uint8Array(4);
+    new DataView(bytes.buffer).setUint32(0, value, true);
+    return bytes;
+}
+
+/**
+ * STREAMINFO block data (34 bytes) for 16-bit stereo
+ */
+function streamInfo(sampleRate: number, totalSamples: number): Uint8Array {
+    const data = new Uint8Array(34);
+    const channels = 2;
+    const bitsPerSample = 16;
+    data[10] = sampleRate >> 12;
+    data[11] = (sampleRate >> 4) & 0xFF;
+    data[12] = ((sampleRate & 0x0F) << 4) | ((channels - 1) << 1) | ((bitsPerSample - 1) >> 4);
+    data[13] = (((bitsPerSample - 1) & 0x0F) << 4) | (Math.floor(totalSamples / 0x100000000) & 0x0F);
+    data.set(u32be(totalSamples >>> 0), 14);
+    return data;
+}
+
+function readTotalSamples(streamInfoData: Uint8Array): number {
+    return (streamInfoData[13] & 0x0F) * 0x100000000 + new DataView(streamInfoData.buffer, streamInfoData.byteOffset + 14, 4).getUint32(0);
+}
+
+function metadataBlocks(blocks: Block[]): Uint8Array {
+    return concat(...blocks.map((block, i) => concat(
+        new Uint8Array([
+            (i === blocks.length - 1 ? 0x80 : 0) | block.type,
+            (block.data.length >> 16) & 0xFF,
+            (block.data.length >> 8) & 0xFF,
+            block.data.length & 0xFF,
+        ]),
+        block.data,
+    )));
+}
+
+function flacFile(blocks: Block[], audio = AUDIO): Uint8Array {
+    return concat(encoder.encode('fLaC'), metadataBlocks(blocks), audio);
+}
+
+function parseFlac(file: Uint8Array): { blocks: ParsedBlock[]; audio: Uint8Array } {
+    expect(decoder.decode(file.subarray(0, 4))).toBe('fLaC');
+    const blocks: ParsedBlock[] = [];
+    let pos = 4;
+    for (; ;) {
+        const header = file[pos];
+        const length = (file[pos + 1] << 16) | (file[pos + 2] << 8) | file[pos + 3];
+        const isLast = (header & 0x80) !== 0;
+        blocks.push({ type: header & 0x7F, isLast, length, data: file.subarray(pos + 4, pos + 4 + length) });
+        pos += 4 + length;
+        if (isLast) break;
+    }
+    return { blocks, audio: file.subarray(pos) };
+}
+
+function vorbisComment(vendor: string, comments: string[]): Uint8Array {
+    const vendorBytes = encoder.encode(vendor);
+    return concat(
+        u32le(vendorBytes.length),
+        vendorBytes,
+        u32le(comments.length),
+        ...comments.map(comment => {
+            const bytes = encoder.encode(comment);
+            return concat(u32le(bytes.length), bytes);
+        }),
+    );
+}
+
+function parseVorbisComment(data: Uint8Array): { vendor: string; comments: string[] } {
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    const vendorLength = view.getUint32(0, true);
+    let pos = 4 + vendorLength;
+    const count = view.getUint32(pos, true);
+    pos += 4;
+    const comments: string[] = [];
+    for (let i = 0; i < count; i++) {
+        const length = view.getUint32(pos, true);
+        comments.push(decoder.decode(data.subarray(pos + 4, pos + 4 + length)));
+        pos += 4 + length;
+    }
+    expect(pos).toBe(data.length);
+    return { vendor: decoder.decode(data.subarray(4, 4 + vendorLength)), comments };
+}
+
+/**
+ * PNG signature plus an IHDR chunk header, enough for the size sniffing
+ */
+function pngHeader(width: number, height: number, extra = 0): Uint8Array {
+    const bytes = new Uint8Array(33 + extra);
+    bytes.set([0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A], 0);
+    bytes.set(u32be(13), 8);
+    bytes.set(encoder.encode('IHDR'), 12);
+    bytes.set(u32be(width), 16);
+    bytes.set(u32be(height), 20);
+    return bytes;
+}
+
+const STREAMINFO: Block = { type: 0, data: streamInfo(44100, 441000) };
+const SEEKTABLE: Block = { type: 3, data: new Uint8Array(18).fill(7) };
+
+describe('writeFlacMetadata', () => {
+    it('writes the comments, picture and padding after the kept blocks', () => {
+        const input = flacFile([STREAMINFO, SEEKTABLE]);
+        const cover = pngHeader(300, 200, 10);
+        const output = writeFlacMetadata(input, [
+            ['title', 'Song'],
+            ['GENRE', 'Rock'],
+            ['GENRE', 'Pop'],
+            ['LYRICS', 'line one\nline two'],
+        ], { data: cover, mimeType: 'image/png' });
+
+        const { blocks, audio } = parseFlac(output);
+        expect(blocks.map(block => block.type)).toEqual([0, 3, 4, 6, 1]);
+        expect(blocks.map(block => block.isLast)).toEqual([false, false, false, false, true]);
+        expect(blocks[0].data).toEqual(STREAMINFO.data);
+        expect(blocks[1].data).toEqual(SEEKTABLE.data);
+        expect(blocks[4].length).toBe(4096);
+        expect(audio).toEqual(AUDIO);
+
+        expect(parseVorbisComment(blocks[2].data)).toEqual({
+            vendor: 'tidal-dl-ng',
+            comments: ['TITLE=Song', 'GENRE=Rock', 'GENRE=Pop', 'LYRICS=line one\nline two'],
+        });
+
+        const picture = blocks[3].data;
+        const view = new DataView(picture.buffer, picture.byteOffset, picture.byteLength);
+        expect(view.getUint32(0)).toBe(3); // Front cover
+        expect(view.getUint32(4)).toBe('image/png'.length);
+        expect(decoder.decode(picture.subarray(8, 17))).toBe('image/png');
+        expect(view.getUint32(17)).toBe(0); // Description length
+        expect(view.getUint32(21)).toBe(300);
+        expect(view.getUint32(25)).toBe(200);
+        expect(view.getUint32(29)).toBe(24);
+        expect(view.getUint32(33)).toBe(0);
+        expect(view.getUint32(37)).toBe(cover.length);
+        expect(picture.subarray(41)).toEqual(cover);
+    });
+
+    it('writes block lengths over 64 KiB across all 24 bits', () => {
+        const cover = pngHeader(1, 1, 0x12345 - 33);
+        const { blocks } = parseFlac(writeFlacMetadata(flacFile([STREAMINFO]), [], { data: cover, mimeType: 'image/png' }));
+
+        const picture = blocks.find(block => block.type === 6)!;
+        expect(picture.length).toBe(32 + 'image/png'.length + 0x12345);
+        expect(picture.length).toBeGreaterThan(0xFFFF);
+        expect(picture.data.length).toBe(picture.length);
+    });
+
+    it('replaces existing comments, pictures and padding and keeps the vendor', () => {
+        const input = flacFile([
+            STREAMINFO,
+            { type: 4, data: vorbisComment('reference libFLAC 1.4.3', ['TITLE=Old', 'COMMENT=gone']) },
+            { type: 6, data: new Uint8Array(40) },
+            SEEKTABLE,
+            { type: 1, data: new Uint8Array(100) },
+        ]);
+
+        const { blocks, audio } = parseFlac(writeFlacMetadata(input, [['TITLE', 'New']], null));
+        expect(blocks.map(block => block.type)).toEqual([0, 3, 4, 1]);
+        expect(blocks.filter(block => block.isLast)).toHaveLength(1);
+        expect(parseVorbisComment(blocks[2].data)).toEqual({ vendor: 'reference libFLAC 1.4.3', comments: ['TITLE=New'] });
+        expect(audio).toEqual(AUDIO);
+    });
+
+    it('throws for files without a FLAC header', () => {
+        expect(() => writeFlacMetadata(encoder.encode('ID3 not a flac file'), [])).toThrow('invalid metadata blocks');
+        // STREAMINFO has to be the first block
+        expect(() => writeFlacMetadata(flacFile([SEEKTABLE, STREAMINFO]), [])).toThrow('invalid metadata blocks');
+    });
+});
+
+describe('setVorbisComments', () => {
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it('replaces keys case-insensitively, removes null keys and keeps the rest', () => {
+        const input = flacFile([
+            STREAMINFO,
+            { type: 4, data: vorbisComment('vendor', ['title=Old', 'ARTIST=Someone', 'lyrics=old words']) },
+            { type: 1, data: new Uint8Array(10) },
+        ]);
+
+        const { blocks, audio } = parseFlac(setVorbisComments(input, { TITLE: 'New', LYRICS: null, replaygain_track_gain: '-7.00 dB' }));
+        expect(blocks.map(block => [block.type, block.isLast])).toEqual([[0, false], [4, false], [1, true]]);
+        expect(parseVorbisComment(blocks[1].data)).toEqual({
+            vendor: 'vendor',
+            comments: ['ARTIST=Someone', 'TITLE=New', 'REPLAYGAIN_TRACK_GAIN=-7.00 dB'],
+        });
+        expect(audio).toEqual(AUDIO);
+    });
+
+    it('adds a comment block right after STREAMINFO when there is none', () => {
+        const input = flacFile([STREAMINFO, SEEKTABLE]);
+        const { blocks } = parseFlac(setVorbisComments(input, { ARTIST: 'A' }));
+
+        expect(blocks.map(block => [block.type, block.isLast])).toEqual([[0, false], [4, false], [3, true]]);
+        expect(parseVorbisComment(blocks[1].data).comments).toEqual(['ARTIST=A']);
+    });
+
+    it('returns invalid files unchanged', () => {
+        vi.spyOn(console, 'error').mockImplementation(() => { });
+        const input = encoder.encode('not flac');
+        expect(setVorbisComments(input, { TITLE: 'x' })).toBe(input);
+    });
+});
+
+describe('extractFlacFromMp4', () => {
+    const TIMESCALE = 44100;
+
+    function box(type: string, ...payload: Uint8Array[]): Uint8Array {
+        const body = concat(...payload);
+        return concat(u32be(8 + body.length), encoder.encode(type), body);
+    }
+
+    function fullBox(type: string, flags: number, ...payload: Uint8Array[]): Uint8Array {
+        return box(type, u32be(flags & 0xFFFFFF), ...payload);
+    }
+
+    function frame(index: number, size: number): Uint8Array {
+        const data = new Uint8Array(size).fill(index);
+        data[0] = 0xFF;
+        data[1] = 0xF8;
+        return data;
+    }
+
+    function moov(totalSamples: number, trex?: { duration: number; size: number }): Uint8Array {
+        const dfLa = fullBox('dfLa', 0, metadataBlocks([{ type: 0, data: streamInfo(44100, totalSamples) }]));
+        const flacEntry = box('fLaC', new Uint8Array(28), dfLa);
+        const stsd = fullBox('stsd', 0, u32be(1), flacEntry);
+        const mdhd = fullBox('mdhd', 0, u32be(0), u32be(0), u32be(TIMESCALE), u32be(0), new Uint8Array(4));
+        const trak = box('trak', box('mdia', mdhd, box('minf', box('stbl', stsd))));
+        const mvex = trex
+            ? [box('mvex', fullBox('trex', 0, u32be(1), u32be(1), u32be(trex.duration), u32be(trex.size), u32be(0)))]
+            : [];
+        return box('moov', trak, ...mvex);
+    }
+
+    interface Run {
+        samples: Array<{ duration?: number; size?: number }>;
+        /** Write a data_offset pointing at this run's first sample in the mdat */
+        withDataOffset: boolean;
+    }
+
+    /**
+     * One moof + mdat pair; samples of all runs are stored back to back in the mdat
+     */
+    function fragment(runs: Run[], tfhd: { flags: number; fields?: Uint8Array[] } = { flags: 0x020000 }): { moof: Uint8Array; mdat: Uint8Array; frames: Uint8Array[] } {
+        const frames: Uint8Array[] = [];
+        const build = (moofSize: number) => {
+            let dataPos = moofSize + 8;
+            const truns = runs.map(run => {
+                const sizes = run.samples.map(sample => sample.size);
+                const hasDuration = run.samples.some(sample => sample.duration !== undefined);
+                const hasSize = sizes.some(size => size !== undefined);
+                const flags = (run.withDataOffset ? 0x01 : 0) | (hasDuration ? 0x100 : 0) | (hasSize ? 0x200 : 0);
+                const entries = run.samples.flatMap(sample => [
+                    ...(hasDuration ? [u32be(sample.duration!)] : []),
+                    ...(hasSize ? [u32be(sample.size!)] : []),
+                ]);
+                const trun = fullBox('trun', flags, u32be(run.samples.length), ...(run.withDataOffset ? [u32be(dataPos)] : []), ...entries);
+                dataPos += run.samples.reduce((total, sample) => total + (sample.size ?? 0), 0);
+                return trun;
+            });
+            return box('moof', fullBox('mfhd', 0, u32be(1)), box('traf', fullBox('tfhd', tfhd.flags, u32be(1), ...(tfhd.fields || [])), ...truns));
+        };
+
+        const moof = build(build(0).length);
+        let index = 0;
+        for (const run of runs) {
+            for (const sample of run.samples) {
+                frames.push(frame(index++, sample.size ?? 0));
+            }
+        }
+        return { moof, mdat: box('mdat', ...frames), frames };
+    }
+
+    function parseStreamInfo(flac: Uint8Array): Uint8Array {
+        const { blocks } = parseFlac(flac);
+        expect(blocks[0].type).toBe(0);
+        expect(blocks[0].isLast).toBe(true);
+        return blocks[0].data;
+    }
+
+    it('joins the frames of runs with a data_offset', () => {
+        const first = fragment([{ withDataOffset: true, samples: [{ duration: 4096, size: 20 }, { duration: 4096, size: 30 }] }]);
+        const second = fragment([{ withDataOffset: true, samples: [{ duration: 1000, size: 25 }] }]);
+        const file = concat(box('ftyp', encoder.encode('iso6')), moov(0), first.moof, first.mdat, second.moof, second.mdat);
+
+        const flac = extractFlacFromMp4(file)!;
+        expect(flac).not.toBeNull();
+        const { audio } = parseFlac(flac);
+        expect(audio).toEqual(concat(...first.frames, ...second.frames));
+        // Filled in from the sample durations (timescale equals the sample rate here)
+        expect(readTotalSamples(parseStreamInfo(flac))).toBe(4096 + 4096 + 1000);
+    });
+
+    it('continues after the previous run when a run has no data_offset', () => {
+        const { moof, mdat, frames } = fragment([
+            { withDataOffset: true, samples: [{ duration: 10, size: 12 }] },
+            { withDataOffset: false, samples: [{ duration: 20, size: 14 }, { duration: 30, size: 16 }] },
+        ]);
+        const flac = extractFlacFromMp4(concat(moov(0), moof, mdat))!;
+
+        expect(parseFlac(flac).audio).toEqual(concat(...frames));
+        expect(readTotalSamples(parseStreamInfo(flac))).toBe(60);
+    });
+
+    it('uses tfhd defaults, then trex defaults, for sample sizes and durations', () => {
+        const frames = [frame(0, 24), frame(1, 24)];
+        const build = (tfhdFields: Uint8Array[], tfhdFlags: number, trex?: { duration: number; size: number }) => {
+            const trun = (moofSize: number) => fullBox('trun', 0x01, u32be(2), u32be(moofSize + 8));
+            const moofWith = (moofSize: number) => box('moof', box('traf', fullBox('tfhd', tfhdFlags, u32be(1), ...tfhdFields), trun(moofSize)));
+            return concat(moov(0, trex), moofWith(moofWith(0).length), box('mdat', ...frames));
+        };
+
+        const fromTfhd = extractFlacFromMp4(build([u32be(2048), u32be(24)], 0x020000 | 0x08 | 0x10))!;
+        expect(parseFlac(fromTfhd).audio).toEqual(concat(...frames));
+        expect(readTotalSamples(parseStreamInfo(fromTfhd))).toBe(4096);
+
+        const fromTrex = extractFlacFromMp4(build([], 0x020000, { duration: 1024, size: 24 }))!;
+        expect(parseFlac(fromTrex).audio).toEqual(concat(...frames));
+        expect(readTotalSamples(parseStreamInfo(fromTrex))).toBe(2048);
+    });
+
+    it('keeps a total sample count the stream header already has', () => {
+        const { moof, mdat } = fragment([{ withDataOffset: true, samples: [{ duration: 4096, size: 20 }] }]);
+        const flac = extractFlacFromMp4(concat(moov(123456789), moof, mdat))!;
+        expect(readTotalSamples(parseStreamInfo(flac))).toBe(123456789);
+    });
+
+    it('scales the total sample count by the track timescale', () => {
+        const dfLa = fullBox('dfLa', 0, metadataBlocks([{ type: 0, data: streamInfo(96000, 0) }]));
+        const stsd = fullBox('stsd', 0, u32be(1), box('fLaC', new Uint8Array(28), dfLa));
+        // 1000 ticks per second
+        const mdhd = fullBox('mdhd', 0, u32be(0), u32be(0), u32be(1000), u32be(0), new Uint8Array(4));
+        const movie = box('moov', box('trak', box('mdia', mdhd, box('minf', box('stbl', stsd)))));
+        const { moof, mdat } = fragment([{ withDataOffset: true, samples: [{ duration: 1500, size: 20 }, { duration: 500, size: 20 }] }]);
+
+        const flac = extractFlacFromMp4(concat(movie, moof, mdat))!;
+        expect(readTotalSamples(parseStreamInfo(flac))).toBe(2 * 96000);
+    });
+
+    it('gives up on explicit base data offsets and non-FLAC data', () => {
+        const withBaseOffset = fragment(
+            [{ withDataOffset: true, samples: [{ duration: 10, size: 20 }] }],
+            { flags: 0x01, fields: [u32be(0), u32be(0)] },
+        );
+        expect(extractFlacFromMp4(concat(moov(0), withBaseOffset.moof, withBaseOffset.mdat))).toBeNull();
+
+        expect(extractFlacFromMp4(concat(box('ftyp', encoder.encode('iso6')), box('mdat', new Uint8Array(10))))).toBeNull();
+
+        // Samples that don't start with a FLAC frame sync code
+        const { moof } = fragment([{ withDataOffset: true, samples: [{ duration: 10, size: 4 }] }]);
+        expect(extractFlacFromMp4(concat(moov(0), moof, box('mdat', new Uint8Array(4))))).toBeNull();
+    });
+});
@@ -0,0 +1,427 @@
+/**
+ * FLAC Utility Library for Native Tagging
+ *
+ * Purpose: Write Vorbis comments and the cover PICTURE straight into the FLAC metadata blocks,
+ * and unwrap FLAC from the fragmented MP4 that DASH streams deliver, so the lossless path
+ * doesn't need to load FFmpeg. Multi-line values (lyrics) keep their newlines.
+ * Only the metadata blocks are rebuilt; the audio frames are copied unchanged.
+ *
+ * Metadata Block Layout:
+ * [last-block flag: 1 bit] [type: 7 bits] [length: 24 bits] [data]
+ *
+ * VORBIS_COMMENT (type 4) Layout (little-endian):
+ * [vendor length: 4] [vendor] [comment count: 4]
+ * [length: 4] [KEY=value] ... (one per comment)
+ *
+ * PICTURE (type 6) Layout (big-endian):
+ * [picture type: 4] [MIME length: 4] [MIME] [description length: 4] [description]
+ * [width: 4] [height: 4] [color depth: 4] [indexed colors: 4] [data length: 4] [data]
+ *
+ * FLAC in fragmented MP4 (DASH):
+ * moov -> trak -> mdia -> minf -> stbl -> stsd -> fLaC -> dfLa holds the metadata blocks,
+ * and every sample in the moof/mdat fragments is one complete FLAC frame.
+ */
+
+interface FlacBlock {
+    type: number;
+    data: Uint8Array;
+}
+
+interface Mp4Box {
+    type: string;
+    start: number;
+    /** Start of the box payload */
+    dataStart: number;
+    end: number;
+}
+
+export interface FlacPicture {
+    data: Uint8Array;
+    mimeType: string;
+}
+
+const BLOCK_STREAMINFO = 0;
+const BLOCK_PADDING = 1;
+const BLOCK_VORBIS_COMMENT = 4;
+const BLOCK_PICTURE = 6;
+const PICTURE_FRONT_COVER = 3;
+const MAX_BLOCK_LENGTH = 0xFFFFFF;
+// Room for tag editors to grow the tags later without rewriting the file
+const PADDING_LENGTH = 4096;
+
+/**
+ * Set Vorbis comments, replacing existing values of the same keys
+ * @param tags - Values by key; keys are matched case-insensitively and null removes a key
+ */
+export function setVorbisComments(fileBuffer: Uint8Array, tags: Record<string, string | null>): Uint8Array {
+    const parsed = readBlocks(fileBuffer);
+    if (!parsed) {
+        console.error('FLAC: invalid metadata blocks, skipping Vorbis comment injection');
+        return fileBuffer;
+    }
+
+    const { blocks, audioOffset } = parsed;
+    const index = blocks.findIndex(block => block.type === BLOCK_VORBIS_COMMENT);
+    const { vendor, comments } = index === -1
+        ? { vendor: 'tidal-dl-ng', comments: [] }
+        : parseVorbisComment(blocks[index].data);
+
+    const keys = new Set(Object.keys(tags).map(key => key.toUpperCase()));
+    const kept = comments.filter(comment => !keys.has(comment.split('=', 1)[0].toUpperCase()));
+    const added = Object.entries(tags)
+        .filter((entry): entry is [string, string] => entry[1] !== null)
+        .map(([key, value]) => `${key.toUpperCase()}=${value}`);
+
+    const block = { type: BLOCK_VORBIS_COMMENT, data: buildVorbisComment(vendor, [...kept, ...added]) };
+    if (index === -1) {
+        // STREAMINFO must stay first
+        blocks.splice(1, 0, block);
+    } else {
+        blocks[index] = block;
+    }
+
+    return writeBlocks(blocks, fileBuffer.subarray(audioOffset));
+}
+
+/**
+ * Replace all Vorbis comments and pictures of a FLAC file
+ * Other blocks (STREAMINFO, SEEKTABLE, ...) are kept; any existing padding is replaced.
+ * @param comments - [key, value] pairs; keys can repeat (e.g. one GENRE per genre)
+ * @param picture - Front cover, or null to leave the file without a picture
+ */
+export function writeFlacMetadata(
+    fileBuffer: Uint8Array,
+    comments: Array<[string, string]>,
+    picture?: FlacPicture | null
+): Uint8Array {
+    const parsed = readBlocks(fileBuffer);
+    if (!parsed) {
+        throw new Error('FLAC: invalid metadata blocks');
+    }
+
+    const { blocks, audioOffset } = parsed;
+    const existing = blocks.find(block => block.type === BLOCK_VORBIS_COMMENT);
+    const vendor = existing ? parseVorbisComment(existing.data).vendor : 'tidal-dl-ng';
+
+    const newBlocks = blocks.filter(block =>
+        block.type !== BLOCK_VORBIS_COMMENT && block.type !== BLOCK_PICTURE && block.type !== BLOCK_PADDING);
+    newBlocks.push({
+        type: BLOCK_VORBIS_COMMENT,
+        data: buildVorbisComment(vendor, comments.map(([key, value]) => `${key.toUpperCase()}=${value}`)),
+    });
+    if (picture) {
+        newBlocks.push({ type: BLOCK_PICTURE, data: buildPicture(picture) });
+    }
+    newBlocks.push({ type: BLOCK_PADDING, data: new Uint8Array(PADDING_LENGTH) });
+
+    return writeBlocks(newBlocks, fileBuffer.subarray(audioOffset));
+}
+
+/**
+ * Unwrap the FLAC stream from a fragmented MP4 (DASH segments joined together)
+ * The total sample count is filled in from the fragment durations when the stream header leaves it open.
+ * @returns The FLAC file, or null when the container can't be unwrapped (the caller falls back to FFmpeg)
+ */
+export function extractFlacFromMp4(data: Uint8Array): Uint8Array | null {
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    const topLevel = readBoxes(data, 0, data.length);
+    if (!topLevel) return null;
+
+    const moov = topLevel.find(box => box.type === 'moov');
+    if (!moov) return null;
+
+    // Find the track with a FLAC sample entry
+    let streamHeader: Uint8Array | null = null;
+    let timescale = 0;
+    for (const trak of childBoxes(data, moov, 'trak')) {
+        const mdia = childBoxes(data, trak, 'mdia')[0];
+        const mdhd = mdia && childBoxes(data, mdia, 'mdhd')[0];
+        const minf = mdia && childBoxes(data, mdia, 'minf')[0];
+        const stbl = minf && childBoxes(data, minf, 'stbl')[0];
+        const stsd = stbl && childBoxes(data, stbl, 'stsd')[0];
+        if (!mdhd || !stsd) continue;
+
+        // stsd: version/flags (4), entry count (4), then the sample entries
+        const entries = readBoxes(data, stsd.dataStart + 8, stsd.end);
+        const flacEntry = entries?.find(box => box.type === 'fLaC');
+        if (!flacEntry) continue;
+
+        // AudioSampleEntry fields take 28 bytes before the child boxes
+        const dfLa = readBoxes(data, flacEntry.dataStart + 28, flacEntry.end)?.find(box => box.type === 'dfLa');
+        if (!dfLa) continue;
+
+        // dfLa: version/flags (4), then the metadata blocks as in a FLAC file
+        streamHeader = data.subarray(dfLa.dataStart + 4, dfLa.end);
+        const version = data[mdhd.dataStart];
+        timescale = view.getUint32(mdhd.dataStart + (version === 1 ? 20 : 12));
+        break;
+    }
+    if (!streamHeader || streamHeader.length < 38) return null;
+
+    // Defaults for fragments that don't list sample sizes or durations (moov/mvex/trex)
+    const trex = childBoxes(data, moov, 'mvex').flatMap(mvex => childBoxes(data, mvex, 'trex'))[0];
+    const trexDuration = trex ? view.getUint32(trex.dataStart + 12) : 0;
+    const trexSize = trex ? view.getUint32(trex.dataStart + 16) : 0;
+
+    const frames: Uint8Array[] = [];
+    let totalDuration = 0;
+
+    for (const moof of topLevel.filter(box => box.type === 'moof')) {
+        for (const traf of childBoxes(data, moof, 'traf')) {
+            const tfhd = childBoxes(data, traf, 'tfhd')[0];
+            if (!tfhd) return null;
+
+            const tfhdFlags = view.getUint32(tfhd.dataStart) & 0xFFFFFF;
+            let pos = tfhd.dataStart + 8;
+            // Explicit base offsets point into the original segment files, which don't survive joining them
+            if (tfhdFlags & 0x01) return null;
+            const baseOffset = moof.start;
+            if (tfhdFlags & 0x02) pos += 4;
+            let defaultDuration = trexDuration;
+            let defaultSize = trexSize;
+            if (tfhdFlags & 0x08) { defaultDuration = view.getUint32(pos); pos += 4; }
+            if (tfhdFlags & 0x10) { defaultSize = view.getUint32(pos); pos += 4; }
+
+            let offset = baseOffset;
+            for (const trun of childBoxes(data, traf, 'trun')) {
+                const flags = view.getUint32(trun.dataStart) & 0xFFFFFF;
+                const sampleCount = view.getUint32(trun.dataStart + 4);
+                let p = trun.dataStart + 8;
+                if (flags & 0x01) { offset = baseOffset + view.getInt32(p); p += 4; }
+                if (flags & 0x04) p += 4;
+
+                for (let i = 0; i < sampleCount; i++) {
+                    let duration = defaultDuration;
+                    let size = defaultSize;
+                    if (flags & 0x100) { duration = view.getUint32(p); p += 4; }
+                    if (flags & 0x200) { size = view.getUint32(p); p += 4; }
+                    if (flags & 0x400) p += 4;
+                    if (flags & 0x800) p += 4;
+
+                    if (size === 0 || offset + size > data.length) return null;
+                    frames.push(data.subarray(offset, offset + size));
+                    offset += size;
+                    totalDuration += duration;
+                }
+            }
+        }
+    }
+
+    // Every FLAC frame starts with the 14-bit sync code 0x3FFE
+    if (frames.length === 0 || frames[0][0] !== 0xFF || (frames[0][1] & 0xFE) !== 0xF8) return null;
+
+    const framesSize = frames.reduce((total, frame) => total + frame.length, 0);
+    const flac = new Uint8Array(4 + streamHeader.length + framesSize);
+    flac.set([0x66, 0x4C, 0x61, 0x43], 0); // 'fLaC'
+    flac.set(streamHeader, 4);
+    let pos = 4 + streamHeader.length;
+    for (const frame of frames) {
+        flac.set(frame, pos);
+        pos += frame.length;
+    }
+
+    fillTotalSamples(flac, totalDuration, timescale);
+    return flac;
+}
+
+/**
+ * Set the STREAMINFO total sample count when the encoder left it at 0 (unknown)
+ */
+function fillTotalSamples(flac: Uint8Array, duration: number, timescale: number): void {
+    // STREAMINFO data starts after 'fLaC' and its block header
+    const p = 8;
+    const hasTotal = (flac[p + 13] & 0x0F) !== 0 || flac[p + 14] !== 0 || flac[p + 15] !== 0 || flac[p + 16] !== 0 || flac[p + 17] !== 0;
+    if (hasTotal || !duration || !timescale) return;
+
+    const sampleRate = (flac[p + 10] << 12) | (flac[p + 11] << 4) | (flac[p + 12] >> 4);
+    const total = Math.round(duration * sampleRate / timescale);
+
+    flac[p + 13] = (flac[p + 13] & 0xF0) | (Math.floor(total / 0x100000000) & 0x0F);
+    flac[p + 14] = (total >>> 24) & 0xFF;
+    flac[p + 15] = (total >>> 16) & 0xFF;
+    flac[p + 16] = (total >>> 8) & 0xFF;
+    flac[p + 17] = total & 0xFF;
+}
+
+function readType(data: Uint8Array, offset: number): string {
+    return String.fromCharCode(data[offset], data[offset + 1], data[offset + 2], data[offset + 3]);
+}
+
+/**
+ * List the boxes between two offsets
+ * @returns null when a box runs past `end`
+ */
+function readBoxes(data: Uint8Array, start: number, end: number): Mp4Box[] | null {
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    const boxes: Mp4Box[] = [];
+    let offset = start;
+
+    while (offset + 8 <= end) {
+        let size = view.getUint32(offset);
+        let headerSize = 8;
+        if (size === 1) {
+            if (offset + 16 > end) return null;
+            size = view.getUint32(offset + 8) * 0x100000000 + view.getUint32(offset + 12);
+            headerSize = 16;
+        } else if (size === 0) {
+            size = end - offset;
+        }
+        if (size < headerSize || offset + size > end) return null;
+
+        boxes.push({ type: readType(data, offset + 4), start: offset, dataStart: offset + headerSize, end: offset + size });
+        offset += size;
+    }
+
+    return boxes;
+}
+
+function childBoxes(data: Uint8Array, parent: Mp4Box, type: string): Mp4Box[] {
+    return (readBoxes(data, parent.dataStart, parent.end) || []).filter(box => box.type === type);
+}
+
+/**
+ * Read the metadata blocks after the 'fLaC' marker
+ * @returns The blocks and the offset of the first audio frame, or null for an invalid file
+ */
+function readBlocks(fileBuffer: Uint8Array): { blocks: FlacBlock[]; audioOffset: number } | null {
+    if (fileBuffer.length < 8 || String.fromCharCode(...fileBuffer.subarray(0, 4)) !== 'fLaC') return null;
+
+    const blocks: FlacBlock[] = [];
+    let offset = 4;
+    let isLast = false;
+
+    while (!isLast) {
+        if (offset + 4 > fileBuffer.length) return null;
+
+        const header = fileBuffer[offset];
+        isLast = (header & 0x80) !== 0;
+        const length = (fileBuffer[offset + 1] << 16) | (fileBuffer[offset + 2] << 8) | fileBuffer[offset + 3];
+        const start = offset + 4;
+        if (start + length > fileBuffer.length) return null;
+
+        blocks.push({ type: header & 0x7F, data: fileBuffer.subarray(start, start + length) });
+        offset = start + length;
+    }
+
+    if (blocks[0]?.type !== BLOCK_STREAMINFO) return null;
+    return { blocks, audioOffset: offset };
+}
+
+function writeBlocks(blocks: FlacBlock[], audio: Uint8Array): Uint8Array {
+    for (const block of blocks) {
+        if (block.data.length > MAX_BLOCK_LENGTH) {
+            throw new Error(`FLAC: metadata block of type ${block.type} exceeds 16 MB`);
+        }
+    }
+
+    const metadataSize = blocks.reduce((total, block) => total + 4 + block.data.length, 0);
+    const newBuffer = new Uint8Array(4 + metadataSize + audio.length);
+    newBuffer.set([0x66, 0x4C, 0x61, 0x43], 0); // 'fLaC'
+
+    let pos = 4;
+    blocks.forEach((block, i) => {
+        const isLast = i === blocks.length - 1;
+        const length = block.data.length;
+        newBuffer[pos] = (isLast ? 0x80 : 0) | block.type;
+        newBuffer[pos + 1] = (length >> 16) & 0xFF;
+        newBuffer[pos + 2] = (length >> 8) & 0xFF;
+        newBuffer[pos + 3] = length & 0xFF;
+        newBuffer.set(block.data, pos + 4);
+        pos += 4 + length;
+    });
+
+    newBuffer.set(audio, pos);
+    return newBuffer;
+}
+
+function parseVorbisComment(data: Uint8Array): { vendor: string; comments: string[] } {
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    const decoder = new TextDecoder();
+
+    const vendorLength = view.getUint32(0, true);
+    const vendor = decoder.decode(data.subarray(4, 4 + vendorLength));
+    let pos = 4 + vendorLength;
+
+    const count = view.getUint32(pos, true);
+    pos += 4;
+
+    const comments: string[] = [];
+    for (let i = 0; i < count && pos + 4 <= data.length; i++) {
+        const length = view.getUint32(pos, true);
+        comments.push(decoder.decode(data.subarray(pos + 4, pos + 4 + length)));
+        pos += 4 + length;
+    }
+
+    return { vendor, comments };
+}
+
+function buildPicture(picture: FlacPicture): Uint8Array {
+    const encoder = new TextEncoder();
+    const mimeBytes = encoder.encode(picture.mimeType);
+    const { width, height } = readImageSize(picture.data);
+
+    const buffer = new Uint8Array(32 + mimeBytes.length + picture.data.length);
+    const view = new DataView(buffer.buffer);
+    let pos = 0;
+
+    view.setUint32(pos, PICTURE_FRONT_COVER); pos += 4;
+    view.setUint32(pos, mimeBytes.length); pos += 4;
+    buffer.set(mimeBytes, pos); pos += mimeBytes.length;
+    view.setUint32(pos, 0); pos += 4; // No description
+    view.setUint32(pos, width); pos += 4;
+    view.setUint32(pos, height); pos += 4;
+    view.setUint32(pos, 24); pos += 4; // Color depth
+    view.setUint32(pos, 0); pos += 4; // Not indexed
+    view.setUint32(pos, picture.data.length); pos += 4;
+    buffer.set(picture.data, pos);
+
+    return buffer;
+}
+
+/**
+ * Read the dimensions of a JPEG (from its SOF marker) or PNG (from IHDR)
+ * Returns 0x0 for anything else, which the PICTURE block allows
+ */
+function readImageSize(data: Uint8Array): { width: number; height: number } {
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+
+    if (data.length > 24 && data[0] === 0x89 && readType(data, 12) === 'IHDR') {
+        return { width: view.getUint32(16), height: view.getUint32(20) };
+    }
+
+    if (data[0] === 0xFF && data[1] === 0xD8) {
+        let pos = 2;
+        while (pos + 9 < data.length && data[pos] === 0xFF) {
+            const marker = data[pos + 1];
+            // SOF0-SOF15, except DHT (C4), JPG (C8) and DAC (CC)
+            if (marker >= 0xC0 && marker <= 0xCF && marker !== 0xC4 && marker !== 0xC8 && marker !== 0xCC) {
+                return { width: view.getUint16(pos + 7), height: view.getUint16(pos + 5) };
+            }
+            pos += 2 + view.getUint16(pos + 2);
+        }
+    }
+
+    return { width: 0, height: 0 };
+}
+
+function buildVorbisComment(vendor: string, comments: string[]): Uint8Array {
+    const encoder = new TextEncoder();
+    const vendorBytes = encoder.encode(vendor);
+    const commentBytes = comments.map(comment => encoder.encode(comment));
+
+    const size = 8 + vendorBytes.length + commentBytes.reduce((total, bytes) => total + 4 + bytes.length, 0);
+    const buffer = new Uint8Array(size);
+    const view = new DataView(buffer.buffer);
+    let pos = 0;
+
+    view.setUint32(pos, vendorBytes.length, true); pos += 4;
+    buffer.set(vendorBytes, pos); pos += vendorBytes.length;
+    view.setUint32(pos, commentBytes.length, true); pos += 4;
+
+    for (const bytes of commentBytes) {
+        view.setUint32(pos, bytes.length, true); pos += 4;
+        buffer.set(bytes, pos); pos += bytes.length;
+    }
+
+    return buffer;
+}
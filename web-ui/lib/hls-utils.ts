@@ -0,0 +1,94 @@
+/**
+ * HLS Utility Library for Tidal video streams
+ *
+ * Tidal serves videos as an HLS master playlist with one variant per resolution.
+ * Each variant playlist lists MPEG-TS segments that can be concatenated directly.
+ *
+ * Master Playlist Layout:
+ * #EXTM3U
+ * #EXT-X-STREAM-INF:BANDWIDTH=5000000,RESOLUTION=1920x1080,CODECS="avc1.640028,mp4a.40.2"
+ * https://.../1080p.m3u8
+ */
+
+export interface HlsVariant {
+    url: string;
+    bandwidth: number;
+    width: number;
+    height: number;
+}
+
+/**
+ * Resolve a (possibly relative) playlist URI against the playlist URL
+ */
+function resolveUri(uri: string, baseUrl: string): string {
+    return new URL(uri, baseUrl).toString().replace('http://', 'https://');
+}
+
+/**
+ * Parse the attribute list of an #EXT-X-STREAM-INF tag
+ * Quoted values may contain commas (e.g. CODECS="avc1,mp4a")
+ */
+function parseAttributes(line: string): Record<string, string> {
+    const attributes: Record<string, string> = {};
+    const regex = /([A-Z0-9-]+)=("[^"]*"|[^,]*)/g;
+    let match: RegExpExecArray | null;
+
+    while ((match = regex.exec(line)) !== null) {
+        attributes[match[1]] = match[2].replace(/^"|"$/g, '');
+    }
+
+    return attributes;
+}
+
+/**
+ * Parse the variants of an HLS master playlist
+ */
+export function parseMasterPlaylist(text: string, baseUrl: string): HlsVariant[] {
+    const lines = text.split(/\r?\n/).map(line => line.trim());
+    const variants: HlsVariant[] = [];
+
+    for (let i = 0; i < lines.length; i++) {
+        if (!lines[i].startsWith('#EXT-X-STREAM-INF:')) continue;
+
+        const attributes = parseAttributes(lines[i].substring('#EXT-X-STREAM-INF:'.length));
+        // The variant URI is the next non-comment line
+        const uri = lines.slice(i + 1).find(line => line && !line.startsWith('#'));
+        if (!uri) continue;
+
+        const [width, height] = (attributes['RESOLUTION'] || '0x0').split('x').map(v => parseInt(v, 10) || 0);
+        variants.push({
+            url: resolveUri(uri, baseUrl),
+            bandwidth: parseInt(attributes['BANDWIDTH'] || '0', 10),
+            width,
+            height,
+        });
+    }
+
+    return variants;
+}
+
+/**
+ * Pick the best variant not exceeding the requested height.
+ * Falls back to the lowest resolution if every variant is larger.
+ */
+export function selectVariant(variants: HlsVariant[], maxHeight: number): HlsVariant | null {
+    if (variants.length === 0) return null;
+
+    const sorted = [...variants].sort((a, b) => b.height - a.height || b.bandwidth - a.bandwidth);
+    return sorted.find(v => v.height <= maxHeight) || sorted[sorted.length - 1];
+}
+
+/**
+ * Parse the segment URLs of an HLS media playlist
+ */
+export function parseMediaPlaylist(text: string, baseUrl: string): string[] {
+    if (text.includes('#EXT-X-KEY') && !text.includes('METHOD=NONE')) {
+        throw new Error('Encrypted HLS streams are not supported');
+    }
+
+    return text
+        .split(/\r?\n/)
+        .map(line => line.trim())
+        .filter(line => line && !line.startsWith('#'))
+        .map(uri => resolveUri(uri, baseUrl));
+}
@@ -0,0 +1,93 @@
+/**
+ * Minimal IndexedDB wrapper for browser-side persistence
+ * Used for data that outgrows localStorage (download queue, file handles, caches)
+ */
+
+const DB_NAME = 'tidal-dl-ng';
+const DB_VERSION = 4;
+
+/**
+ * Object stores created on upgrade. Add new stores here and bump DB_VERSION.
+ */
+const STORES = ['queue', 'handles', 'library', 'musicbrainz'] as const;
+
+export type StoreName = typeof STORES[number];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Check if IndexedDB is available (not during SSR or in some private modes)
+ */
+export function isIndexedDBAvailable(): boolean {
+    return typeof window !== 'undefined' && 'indexedDB' in window;
+}
+
+/**
+ * Open (and upgrade if needed) the shared database
+ */
+function openDatabase(): Promise<IDBDatabase> {
+    if (dbPromise) return dbPromise;
+
+    dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+        request.onupgradeneeded = () => {
+            const db = request.result;
+            for (const store of STORES) {
+                if (!db.objectStoreNames.contains(store)) {
+                    db.createObjectStore(store);
+                }
+            }
+        };
+
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+            dbPromise = null;
+            reject(request.error);
+        };
+    });
+
+    return dbPromise;
+}
+
+/**
+ * Wrap an IDBRequest in a promise
+ */
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+/**
+ * Get a value by key
+ */
+export async function idbGet<T>(store: StoreName, key: IDBValidKey): Promise<T | undefined> {
+    const db = await openDatabase();
+    return promisify(db.transaction(store, 'readonly').objectStore(store).get(key));
+}
+
+/**
+ * Store a value under a key
+ */
+export async function idbPut<T>(store: StoreName, key: IDBValidKey, value: T): Promise<void> {
+    const db = await openDatabase();
+    await promisify(db.transaction(store, 'readwrite').objectStore(store).put(value, key));
+}
+
+/**
+ * Delete a value by key
+ */
+export async function idbDelete(store: StoreName, key: IDBValidKey): Promise<void> {
+    const db = await openDatabase();
+    await promisify(db.transaction(store, 'readwrite').objectStore(store).delete(key));
+}
+
+/**
+ * Get all keys in a store
+ */
+export async function idbKeys(store: StoreName): Promise<IDBValidKey[]> {
+    const db = await openDatabase();
+    return promisify(db.transaction(store, 'readonly').objectStore(store).getAllKeys());
+}
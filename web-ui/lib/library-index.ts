@@ -0,0 +1,72 @@
+/**
+ * Local index of downloaded tracks, used by skip_existing
+ * Entries are stored in IndexedDB under the track ID and, when known, the ISRC,
+ * so a track re-released under a new ID is still recognised.
+ */
+
+import { idbGet, idbPut, isIndexedDBAvailable } from './idb';
+import { TidalTrack } from './tidal-client';
+
+export interface LibraryEntry {
+    trackId: number;
+    isrc?: string;
+    audioQuality: string;
+    path: string;
+    downloadedAt: number;
+}
+
+function trackKey(trackId: string | number): string {
+    return `track:${trackId}`;
+}
+
+function isrcKey(isrc: string): string {
+    return `isrc:${isrc.toUpperCase()}`;
+}
+
+/**
+ * Find a previous download of a track by ID, falling back to its ISRC
+ */
+export async function findLibraryEntry(track: Pick<TidalTrack, 'id' | 'isrc'>): Promise<LibraryEntry | null> {
+    if (!isIndexedDBAvailable()) return null;
+
+    try {
+        const byId = await idbGet<LibraryEntry>('library', trackKey(track.id));
+        if (byId) return byId;
+
+        if (track.isrc) {
+            return (await idbGet<LibraryEntry>('library', isrcKey(track.isrc))) || null;
+        }
+    } catch (error) {
+        console.warn('Failed to read library index:', error);
+    }
+    return null;
+}
+
+/**
+ * Record a finished download
+ * @param path - Output path including extension
+ */
+export async function recordDownload(
+    track: Pick<TidalTrack, 'id' | 'isrc'>,
+    audioQuality: string,
+    path: string
+): Promise<void> {
+    if (!isIndexedDBAvailable()) return;
+
+    const entry: LibraryEntry = {
+        trackId: track.id,
+        isrc: track.isrc,
+        audioQuality,
+        path,
+        downloadedAt: Date.now(),
+    };
+
+    try {
+        await idbPut('library', trackKey(track.id), entry);
+        if (track.isrc) {
+            await idbPut('library', isrcKey(track.isrc), entry);
+        }
+    } catch (error) {
+        console.warn('Failed to update library index:', error);
+    }
+}
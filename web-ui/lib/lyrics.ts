@@ -0,0 +1,105 @@
+/**
+ * Lyrics handling for embedding and sidecar files
+ * Sidecars (lyrics_file): synced subtitles are saved as .lrc with ti/ar/al/length headers, plain text lyrics as .txt
+ * Embedding (lyrics_embed): synced and/or unsynced text, chosen per container in settings
+ */
+
+import { LyricsEmbedMode } from './settings';
+import { TidalAlbum, TidalLyrics, TidalTrack } from './tidal-client';
+
+export interface LyricsFile {
+    extension: 'lrc' | 'txt';
+    text: string;
+}
+
+export interface EmbeddedLyrics {
+    /** Time-tagged LRC text */
+    synced: string | null;
+    /** Plain text, one lyric line per line */
+    unsynced: string | null;
+}
+
+// Matches LRC time tags like [01:23.45] at the start of a line
+const LRC_TIMESTAMP = /^\[\d+:\d{2}(?:[.:]\d+)?\]/m;
+
+function normalizeLines(text: string): string {
+    return text.replace(/\r\n?/g, '\n').trim() + '\n';
+}
+
+/**
+ * Header values are single-line and can't contain the closing bracket
+ */
+function headerValue(value: string): string {
+    return value.replace(/[\r\n]+/g, ' ').replace(/]/g, ')').trim();
+}
+
+function formatLength(seconds: number): string {
+    const minutes = Math.floor(seconds / 60);
+    return `${String(minutes).padStart(2, '0')}:${String(Math.floor(seconds % 60)).padStart(2, '0')}`;
+}
+
+/**
+ * Build the sidecar for a track
+ * @param album - Album the track is tagged with (the playlist stand-in in playlist mode)
+ * @returns The file to save, or null when the track has no lyrics
+ */
+export function createLyricsFile(
+    lyrics: TidalLyrics,
+    track: TidalTrack,
+    album: TidalAlbum | null,
+    artistSeparator: string
+): LyricsFile | null {
+    if (lyrics.subtitles && LRC_TIMESTAMP.test(lyrics.subtitles)) {
+        const artists = track.artists?.length
+            ? track.artists.map(artist => artist.name).join(artistSeparator)
+            : track.artist?.name;
+        const headers = [
+            `[ti:${headerValue(track.title || '')}]`,
+            artists ? `[ar:${headerValue(artists)}]` : null,
+            (album?.title || track.album?.title) ? `[al:${headerValue(album?.title || track.album.title)}]` : null,
+            track.duration ? `[length:${formatLength(track.duration)}]` : null,
+        ].filter(Boolean);
+
+        return { extension: 'lrc', text: `${headers.join('\n')}\n\n${normalizeLines(lyrics.subtitles)}` };
+    }
+
+    const plain = lyrics.lyrics || lyrics.subtitles;
+    if (plain?.trim()) {
+        return { extension: 'txt', text: normalizeLines(plain) };
+    }
+
+    return null;
+}
+
+/**
+ * Strip LRC time tags and header lines, keeping one lyric line per line
+ */
+export function toUnsyncedLyrics(text: string): string {
+    return text
+        .replace(/\r\n?/g, '\n')
+        .split('\n')
+        .filter(line => !/^\[[a-z]+:.*\]\s*$/i.test(line))
+        .map(line => line.replace(/\[\d+:\d{2}(?:[.:]\d+)?\]\s*/g, '').trimEnd())
+        .join('\n')
+        .replace(/\n{3,}/g, '\n\n')
+        .trim();
+}
+
+/**
+ * Pick the lyrics to embed for a mode
+ * 'synced' falls back to plain text for tracks without time-tagged lyrics.
+ * @returns null when there is nothing to embed
+ */
+export function getEmbeddedLyrics(lyrics: TidalLyrics | null, mode: LyricsEmbedMode): EmbeddedLyrics | null {
+    if (!lyrics) return null;
+
+    const synced = lyrics.subtitles && LRC_TIMESTAMP.test(lyrics.subtitles)
+        ? lyrics.subtitles.replace(/\r\n?/g, '\n').trim()
+        : null;
+    const plain = lyrics.lyrics || lyrics.subtitles;
+    const unsynced = plain ? toUnsyncedLyrics(plain) || null : null;
+
+    if (mode === 'synced') return synced ? { synced, unsynced: null } : unsynced ? { synced: null, unsynced } : null;
+    if (mode === 'unsynced') return unsynced ? { synced: null, unsynced } : null;
+    return synced || unsynced ? { synced, unsynced } : null;
+}
@@ -0,0 +1,273 @@
+import { describe, expect, it } from 'vitest';
+import { writeM4aTags } from './m4a-utils';
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+interface ParsedAtom {
+    type: string;
+    start: number;
+    dataStart: number;
+    end: number;
+}
+
+function concat(...parts: Uint8Array[]): Uint8Array {
+    const out = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+    let pos = 0;
+    for (const part of parts) {
+        out.set(part, pos);
+        pos += part.length;
+    }
+    return out;
+}
+
+function u32(value: number): Uint8Array {
+    const bytes = new Uint8Array(4);
+    new DataView(bytes.buffer).setUint32(0, value);
+    return bytes;
+}
+
+function u64(value: number): Uint8Array {
+    return concat(u32(Math.floor(value / 0x100000000)), u32(value >>> 0));
+}
+
+/**
+ * Atom types are Latin-1 ('©nam'), not UTF-8
+ */
+function latin1(text: string): Uint8Array {
+    return Uint8Array.from(text, char => char.charCodeAt(0));
+}
+
+function atom(type: string, ...payload: Uint8Array[]): Uint8Array {
+    const body = concat(...payload);
+    return concat(u32(8 + body.length), latin1(type), body);
+}
+
+function readAtoms(data: Uint8Array, start = 0, end = data.length): ParsedAtom[] {
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    const atoms: ParsedAtom[] = [];
+    for (let pos = start; pos < end;) {
+        const size = view.getUint32(pos);
+        expect(size).toBeGreaterThanOrEqual(8);
+        expect(pos + size).toBeLessThanOrEqual(end);
+        atoms.push({ type: String.fromCharCode(...data.subarray(pos + 4, pos + 8)), start: pos, dataStart: pos + 8, end: pos + size });
+        pos += size;
+    }
+    return atoms;
+}
+
+/**
+ * Follow a path of atom types, e.g. ['moov', 'udta', 'meta', 'ilst']; meta is a full atom
+ */
+function findPath(data: Uint8Array, path: string[]): ParsedAtom | undefined {
+    let current: ParsedAtom | undefined;
+    for (const type of path) {
+        const start = current ? current.dataStart + (current.type === 'meta' ? 4 : 0) : 0;
+        current = readAtoms(data, start, current ? current.end : data.length).find(child => child.type === type);
+        if (!current) return undefined;
+    }
+    return current;
+}
+
+function payload(data: Uint8Array, found: ParsedAtom): Uint8Array {
+    return data.subarray(found.dataStart, found.end);
+}
+
+/**
+ * Decoded ilst: data atoms as [value type, value], custom atoms keyed by mean:name
+ */
+function readIlst(file: Uint8Array): Map<string, Array<[number, Uint8Array]>> {
+    const ilst = findPath(file, ['moov', 'udta', 'meta', 'ilst']);
+    expect(ilst).toBeDefined();
+
+    const tags = new Map<string, Array<[number, Uint8Array]>>();
+    for (const item of readAtoms(file, ilst!.dataStart, ilst!.end)) {
+        const children = readAtoms(file, item.dataStart, item.end);
+        let key = item.type;
+        if (item.type === '----') {
+            const mean = children.find(child => child.type === 'mean')!;
+            const name = children.find(child => child.type === 'name')!;
+            key += `${decoder.decode(file.subarray(mean.dataStart + 4, mean.end))}:${decoder.decode(file.subarray(name.dataStart + 4, name.end))}`;
+        }
+        const values = children
+            .filter(child => child.type === 'data')
+            .map((data): [number, Uint8Array] => [
+                new DataView(file.buffer, file.byteOffset + data.dataStart, 4).getUint32(0),
+                file.subarray(data.dataStart + 8, data.end),
+            ]);
+        expect(tags.has(key)).toBe(false);
+        tags.set(key, values);
+    }
+    return tags;
+}
+
+function text(tags: Map<string, Array<[number, Uint8Array]>>, key: string): string[] | undefined {
+    return tags.get(key)?.map(([type, value]) => {
+        expect(type).toBe(1);
+        return decoder.decode(value);
+    });
+}
+
+function chunkOffsetAtom(type: 'stco' | 'co64', offsets: number[]): Uint8Array {
+    return atom(type, u32(0), u32(offsets.length), ...offsets.map(type === 'stco' ? u32 : u64));
+}
+
+function moov(chunkOffsets: Uint8Array[], udta?: Uint8Array): Uint8Array {
+    const traks = chunkOffsets.map(offsets => atom('trak', atom('mdia', atom('minf', atom('stbl', offsets)))));
+    return atom('moov', atom('mvhd', new Uint8Array(100)), ...traks, ...(udta ? [udta] : []));
+}
+
+function readChunkOffsets(file: Uint8Array, type: 'stco' | 'co64'): number[][] {
+    const moovAtom = findPath(file, ['moov'])!;
+    const view = new DataView(file.buffer, file.byteOffset, file.byteLength);
+    return readAtoms(file, moovAtom.dataStart, moovAtom.end)
+        .filter(child => child.type === 'trak')
+        .map(trak => {
+            const stbl = findPath(file.subarray(trak.start, trak.end), ['trak', 'mdia', 'minf', 'stbl'])!;
+            const table = readAtoms(file, trak.start + stbl.dataStart, trak.start + stbl.end).find(child => child.type === type)!;
+            const count = view.getUint32(table.dataStart + 4);
+            return Array.from({ length: count }, (_, i) => type === 'stco'
+                ? view.getUint32(table.dataStart + 8 + i * 4)
+                : view.getUint32(table.dataStart + 8 + i * 8) * 0x100000000 + view.getUint32(table.dataStart + 12 + i * 8));
+        });
+}
+
+const FTYP = atom('ftyp', encoder.encode('M4A '), u32(0), encoder.encode('isomM4A '));
+const AUDIO = Uint8Array.from({ length: 64 }, (_, i) => i);
+
+/**
+ * ftyp, moov, mdat with stco offsets pointing at two chunks of the audio
+ */
+function moovFirstFile(udta?: Uint8Array): { file: Uint8Array; chunks: number[] } {
+    const size = (offsets: number[]) => moov([chunkOffsetAtom('stco', offsets)], udta).length;
+    const mdatData = FTYP.length + size([0, 0]) + 8;
+    const chunks = [mdatData, mdatData + 32];
+    return { file: concat(FTYP, moov([chunkOffsetAtom('stco', chunks)], udta), atom('mdat', AUDIO)), chunks };
+}
+
+describe('writeM4aTags', () => {
+    it('moves stco offsets by the moov growth when moov comes before mdat', () => {
+        const { file, chunks } = moovFirstFile();
+        const output = writeM4aTags(file, { title: 'Song' });
+
+        const grown = output.length - file.length;
+        expect(grown).toBeGreaterThan(0);
+        const [offsets] = readChunkOffsets(output, 'stco');
+        expect(offsets).toEqual(chunks.map(offset => offset + grown));
+        // Offsets still point at the same audio bytes
+        expect(output.subarray(offsets[0], offsets[0] + 32)).toEqual(AUDIO.subarray(0, 32));
+        expect(output.subarray(offsets[1], offsets[1] + 32)).toEqual(AUDIO.subarray(32));
+
+        // udta/meta/ilst are created, meta with a handler
+        const meta = findPath(output, ['moov', 'udta', 'meta'])!;
+        const hdlr = readAtoms(output, meta.dataStart + 4, meta.end).find(child => child.type === 'hdlr')!;
+        expect(decoder.decode(output.subarray(hdlr.dataStart + 8, hdlr.dataStart + 12))).toBe('mdir');
+    });
+
+    it('leaves chunk offsets alone when mdat comes before moov', () => {
+        const mdat = atom('mdat', AUDIO);
+        const chunks = [FTYP.length + 8, FTYP.length + 40];
+        const file = concat(FTYP, mdat, moov([chunkOffsetAtom('stco', chunks)]));
+
+        const output = writeM4aTags(file, { title: 'Song', cover: new Uint8Array([0xFF, 0xD8, 0xFF, 0xE0]) });
+        expect(output.length).toBeGreaterThan(file.length);
+        expect(readChunkOffsets(output, 'stco')).toEqual([chunks]);
+        expect(output.subarray(0, FTYP.length + mdat.length)).toEqual(file.subarray(0, FTYP.length + mdat.length));
+    });
+
+    it('moves co64 offsets, including past 32 bits, and skips offsets before moov', () => {
+        const large = 0xFFFFFFF0;
+        const file = concat(FTYP, moov([chunkOffsetAtom('co64', [4, large])]), atom('mdat', AUDIO));
+
+        const output = writeM4aTags(file, { album: 'Album' });
+        const grown = output.length - file.length;
+        expect(large + grown).toBeGreaterThan(0xFFFFFFFF);
+        expect(readChunkOffsets(output, 'co64')[0]).toEqual([4, large + grown]);
+    });
+
+    it('refuses to push stco offsets past 32 bits', () => {
+        const file = concat(FTYP, moov([chunkOffsetAtom('stco', [0xFFFFFFF0])]), atom('mdat', AUDIO));
+        expect(() => writeM4aTags(file, { title: 'Song' })).toThrow('exceeds 32 bits');
+    });
+
+    it('round-trips standard and custom atoms', () => {
+        const cover = new Uint8Array([0x89, 0x50, 0x4E, 0x47, 1, 2, 3]);
+        const { file } = moovFirstFile();
+        const output = writeM4aTags(file, {
+            title: 'Song',
+            artist: 'Artist A, Artist B',
+            albumArtist: 'Artist A',
+            album: 'Album',
+            genre: 'Pop',
+            date: '2024-01-31',
+            copyright: '℗ 2024 Label',
+            comment: 'Comment',
+            lyrics: 'Line one\nLine two',
+            track: { number: 3, total: 12 },
+            disc: { number: 1 },
+            explicit: true,
+            cover,
+            custom: {
+                REPLAYGAIN_TRACK_GAIN: '-7.25 dB',
+                'MusicBrainz Artist Id': ['id-1', 'id-2'],
+                EMPTY: [],
+            },
+        });
+
+        const tags = readIlst(output);
+        expect([...tags.keys()]).toEqual([
+            '©nam', '©ART', 'aART', '©alb', '©gen', '©day', 'cprt', '©cmt', '©lyr', 'trkn', 'disk', 'rtng', 'covr',
+            '----com.apple.iTunes:REPLAYGAIN_TRACK_GAIN', '----com.apple.iTunes:MusicBrainz Artist Id',
+        ]);
+        expect(text(tags, '©nam')).toEqual(['Song']);
+        expect(text(tags, '©ART')).toEqual(['Artist A, Artist B']);
+        expect(text(tags, 'cprt')).toEqual(['℗ 2024 Label']);
+        expect(text(tags, '©lyr')).toEqual(['Line one\nLine two']);
+        expect(tags.get('trkn')).toEqual([[0, new Uint8Array([0, 0, 0, 3, 0, 12, 0, 0])]]);
+        expect(tags.get('disk')).toEqual([[0, new Uint8Array([0, 0, 0, 1, 0, 0])]]);
+        expect(tags.get('rtng')).toEqual([[21, new Uint8Array([1])]]);
+        expect(tags.get('covr')).toEqual([[14, cover]]);
+        expect(text(tags, '----com.apple.iTunes:REPLAYGAIN_TRACK_GAIN')).toEqual(['-7.25 dB']);
+        expect(text(tags, '----com.apple.iTunes:MusicBrainz Artist Id')).toEqual(['id-1', 'id-2']);
+    });
+
+    it('replaces only the rewritten atoms of an existing ilst', () => {
+        const other = atom('udta', atom('©xyz', new Uint8Array(3)));
+        const { file } = moovFirstFile(other);
+        const first = writeM4aTags(file, {
+            title: 'Old',
+            album: 'Album',
+            custom: { REPLAYGAIN_TRACK_GAIN: '-1.00 dB', REPLAYGAIN_TRACK_PEAK: '0.9' },
+        });
+        const second = writeM4aTags(first, {
+            title: 'New',
+            explicit: false,
+            custom: { replaygain_track_gain: '-2.00 dB' },
+        });
+
+        const tags = readIlst(second);
+        expect([...tags.keys()]).toEqual([
+            '©alb', '----com.apple.iTunes:REPLAYGAIN_TRACK_PEAK',
+            '©nam', 'rtng', '----com.apple.iTunes:replaygain_track_gain',
+        ]);
+        expect(text(tags, '©nam')).toEqual(['New']);
+        expect(tags.get('rtng')).toEqual([[21, new Uint8Array([0])]]);
+        expect(text(tags, '----com.apple.iTunes:replaygain_track_gain')).toEqual(['-2.00 dB']);
+
+        // Other udta children and the single meta handler survive
+        const udta = findPath(second, ['moov', 'udta'])!;
+        expect(readAtoms(second, udta.dataStart, udta.end).map(child => child.type)).toEqual(['©xyz', 'meta']);
+        const meta = findPath(second, ['moov', 'udta', 'meta'])!;
+        expect(readAtoms(second, meta.dataStart + 4, meta.end).map(child => child.type)).toEqual(['hdlr', 'ilst']);
+
+        const [offsets] = readChunkOffsets(second, 'stco');
+        expect(second.subarray(offsets[0], offsets[0] + 32)).toEqual(AUDIO.subarray(0, 32));
+        expect(payload(second, findPath(second, ['mdat'])!)).toEqual(AUDIO);
+    });
+
+    it('returns the input when there is nothing to write and throws without moov', () => {
+        const { file } = moovFirstFile();
+        expect(writeM4aTags(file, { title: '', custom: { EMPTY: [] } })).toBe(file);
+        expect(() => writeM4aTags(concat(FTYP, atom('mdat', AUDIO)), { title: 'Song' })).toThrow('moov atom not found');
+    });
+});
@@ -1,12 +1,19 @@
 /**
- * M4A Utility Library for ReplayGain Injection
- * 
- * Purpose: Inject ReplayGain tags into M4A files as custom iTunes metadata atoms.
+ * M4A Utility Library for iTunes Metadata
+ *
+ * Purpose: Write standard iTunes metadata atoms (title, artists, numbering, cover, ...) and
+ * custom atoms (ReplayGain, synced lyrics, MusicBrainz IDs) into M4A files.
  * This bypasses FFmpeg's limitation where `-movflags use_metadata_tags` breaks cover art.
- * 
- * Atom Structure for Custom Metadata:
- * moov -> udta -> meta -> ilst -> ---- (custom atom)
- * 
+ *
+ * Atom Structure:
+ * moov -> udta -> meta -> ilst -> (one atom per tag)
+ * Missing udta/meta/ilst atoms are created. When moov sits before mdat, the chunk offsets
+ * in stco/co64 are moved by the change in moov size so they keep pointing at the audio.
+ *
+ * Standard Atom Layout:
+ * [size: 4] [name: "©nam"]
+ * [size: 4] [name: "data"] [type: 4] [locale: 4] [value]
+ *
  * Custom Atom Layout:
  * [size: 4] [name: "----"]
  * [size: 4] [name: "mean"] [flags: 4] [data: "com.apple.iTunes"]
@@ -14,190 +21,307 @@
  * [size: 4] [name: "data"] [type: 1 (text)] [flags: 4] [data: "-8.50 dB"]
  */
 
-export async function injectReplayGain(fileBuffer: Uint8Array, tags: Record<string, string>): Promise<Uint8Array> {
-    const dataView = new DataView(fileBuffer.buffer);
+export interface M4aTags {
+    title?: string;
+    artist?: string;
+    albumArtist?: string;
+    album?: string;
+    genre?: string;
+    /** Release date, e.g. 2024-01-31 */
+    date?: string;
+    copyright?: string;
+    comment?: string;
+    lyrics?: string;
+    track?: { number: number; total?: number };
+    disc?: { number: number; total?: number };
+    explicit?: boolean;
+    cover?: Uint8Array;
+    /** Custom com.apple.iTunes atoms by name, e.g. REPLAYGAIN_TRACK_GAIN; arrays are written as one data atom per value */
+    custom?: Record<string, string | string[]>;
+}
 
-    // 1. Find 'moov' atom
-    const moovOffset = findAtom(dataView, 'moov', 0);
-    if (moovOffset === -1) {
-        console.error('M4A: moov atom not found');
-        return fileBuffer; // Return original if structure is invalid
-    }
-    const moovSize = dataView.getUint32(moovOffset);
+interface Atom {
+    type: string;
+    start: number;
+    /** Start of the atom payload */
+    dataStart: number;
+    end: number;
+}
 
-    // 2. Find 'udta' inside 'moov'
-    const udtaOffset = findAtom(dataView, 'udta', moovOffset + 8, moovOffset + moovSize);
+// Data atom value types
+const TYPE_IMPLICIT = 0;
+const TYPE_UTF8 = 1;
+const TYPE_JPEG = 13;
+const TYPE_PNG = 14;
+const TYPE_INTEGER = 21;
+
+const TEXT_ATOMS: Array<[keyof M4aTags, string]> = [
+    ['title', '©nam'],
+    ['artist', '©ART'],
+    ['albumArtist', 'aART'],
+    ['album', '©alb'],
+    ['genre', '©gen'],
+    ['date', '©day'],
+    ['copyright', 'cprt'],
+    ['comment', '©cmt'],
+    ['lyrics', '©lyr'],
+];
 
-    // If udta doesn't exist, we'd need to resize moov and insert it (complex).
-    // FFmpeg usually creates udta if metadata exists. If not found, we skip for safety.
-    if (udtaOffset === -1) {
-        console.warn('M4A: udta atom not found, skipping ReplayGain injection');
-        return fileBuffer;
+/**
+ * Write tags into an M4A file
+ * Existing atoms for the given tags are replaced; other tags are kept.
+ */
+export function writeM4aTags(fileBuffer: Uint8Array, tags: M4aTags): Uint8Array {
+    const topLevel = readAtoms(fileBuffer, 0, fileBuffer.length);
+    const moov = topLevel?.find(atom => atom.type === 'moov');
+    if (!topLevel || !moov) {
+        throw new Error('M4A: moov atom not found');
     }
-    const udtaSize = dataView.getUint32(udtaOffset);
 
-    // 3. Find 'meta' inside 'udta'
-    const metaOffset = findAtom(dataView, 'meta', udtaOffset + 8, udtaOffset + udtaSize);
-    if (metaOffset === -1) {
-        console.warn('M4A: meta atom not found, skipping ReplayGain injection');
-        return fileBuffer;
-    }
-    const metaSize = dataView.getUint32(metaOffset);
-
-    // 4. Find 'ilst' inside 'meta'
-    // meta atom usually has 4 bytes of version/flags after size+type
-    const ilstOffset = findAtom(dataView, 'ilst', metaOffset + 12, metaOffset + metaSize);
-    if (ilstOffset === -1) {
-        console.warn('M4A: ilst atom not found, skipping ReplayGain injection');
-        return fileBuffer;
+    const newAtoms = createTagAtoms(tags);
+    if (newAtoms.length === 0) return fileBuffer;
+
+    // Atoms replaced by this write: standard atoms by type, custom atoms by name
+    const replacedTypes = new Set(newAtoms.map(atom => getAtomType(atom, 4)).filter(type => type !== '----'));
+    const replacedNames = new Set(Object.keys(tags.custom || {}).map(name => name.toUpperCase()));
+    const keepAtom = (atom: Atom) => atom.type === '----'
+        ? !replacedNames.has(getCustomAtomName(fileBuffer, atom)?.toUpperCase() || '')
+        : !replacedTypes.has(atom.type);
+
+    // Rebuild moov -> udta -> meta -> ilst with the new atoms
+    const udta = findChild(fileBuffer, moov, 'udta');
+    const meta = udta && findChild(fileBuffer, udta, 'meta');
+    const ilst = meta && findChild(fileBuffer, meta, 'ilst', 4);
+
+    const ilstChildren = ilst ? readAtoms(fileBuffer, ilst.dataStart, ilst.end) || [] : [];
+    const newIlst = createAtom('ilst', [
+        ...ilstChildren.filter(keepAtom).map(atom => fileBuffer.subarray(atom.start, atom.end)),
+        ...newAtoms,
+    ]);
+
+    const newMeta = meta
+        ? createAtom('meta', [fileBuffer.subarray(meta.dataStart, meta.dataStart + 4), ...replaceChild(fileBuffer, meta, 4, 'ilst', newIlst)])
+        // meta is a full atom (version/flags) and needs a handler to be read by players
+        : createAtom('meta', [new Uint8Array(4), createHandlerAtom(), newIlst]);
+    const newUdta = createAtom('udta', udta ? replaceChild(fileBuffer, udta, 0, 'meta', newMeta) : [newMeta]);
+    const newMoov = createAtom('moov', replaceChild(fileBuffer, moov, 0, 'udta', newUdta));
+
+    // Chunk offsets point into the file, so audio after moov moves with the size change
+    const delta = newMoov.length - (moov.end - moov.start);
+    if (delta !== 0 && topLevel.some(atom => atom.type === 'mdat' && atom.start > moov.start)) {
+        shiftChunkOffsets(newMoov, moov.start, delta);
     }
-    const ilstSize = dataView.getUint32(ilstOffset);
 
-    // 5. Create new custom atoms
-    const newAtoms: Uint8Array[] = [];
-    let addedSize = 0;
+    const newBuffer = new Uint8Array(fileBuffer.length + delta);
+    newBuffer.set(fileBuffer.subarray(0, moov.start), 0);
+    newBuffer.set(newMoov, moov.start);
+    newBuffer.set(fileBuffer.subarray(moov.end), moov.start + newMoov.length);
+    return newBuffer;
+}
 
-    for (const [key, value] of Object.entries(tags)) {
-        if (!value) continue;
-        const atom = createCustomAtom(key, value);
-        newAtoms.push(atom);
-        addedSize += atom.length;
+function createTagAtoms(tags: M4aTags): Uint8Array[] {
+    const atoms: Uint8Array[] = [];
+
+    for (const [key, type] of TEXT_ATOMS) {
+        const value = tags[key];
+        if (typeof value === 'string' && value) {
+            atoms.push(createDataAtom(type, TYPE_UTF8, new TextEncoder().encode(value)));
+        }
     }
 
-    if (addedSize === 0) return fileBuffer;
+    if (tags.track?.number) {
+        // trkn: reserved (2), number (2), total (2), reserved (2)
+        const value = new Uint8Array(8);
+        const view = new DataView(value.buffer);
+        view.setUint16(2, tags.track.number);
+        view.setUint16(4, tags.track.total || 0);
+        atoms.push(createDataAtom('trkn', TYPE_IMPLICIT, value));
+    }
 
-    // 6. Construct new file
-    // We need to insert addedSize bytes at (ilstOffset + ilstSize)
-    // AND update sizes for: ilst, meta, udta, moov
+    if (tags.disc?.number) {
+        // disk: reserved (2), number (2), total (2)
+        const value = new Uint8Array(6);
+        const view = new DataView(value.buffer);
+        view.setUint16(2, tags.disc.number);
+        view.setUint16(4, tags.disc.total || 0);
+        atoms.push(createDataAtom('disk', TYPE_IMPLICIT, value));
+    }
 
-    const newFileSize = fileBuffer.length + addedSize;
-    const newBuffer = new Uint8Array(newFileSize);
-    const newDataView = new DataView(newBuffer.buffer);
+    if (tags.explicit !== undefined) {
+        // rtng: 0 = none, 1 = explicit
+        atoms.push(createDataAtom('rtng', TYPE_INTEGER, new Uint8Array([tags.explicit ? 1 : 0])));
+    }
 
-    // Copy everything up to end of ilst
-    const insertionPoint = ilstOffset + ilstSize;
-    newBuffer.set(fileBuffer.slice(0, insertionPoint), 0);
+    if (tags.cover) {
+        const isPng = tags.cover[0] === 0x89;
+        atoms.push(createDataAtom('covr', isPng ? TYPE_PNG : TYPE_JPEG, tags.cover));
+    }
 
-    // Insert new atoms
-    let currentPos = insertionPoint;
-    for (const atom of newAtoms) {
-        newBuffer.set(atom, currentPos);
-        currentPos += atom.length;
+    for (const [name, value] of Object.entries(tags.custom || {})) {
+        const values = (Array.isArray(value) ? value : [value]).filter(Boolean);
+        if (values.length > 0) atoms.push(createCustomAtom(name, values));
     }
 
-    // Copy rest of file
-    newBuffer.set(fileBuffer.slice(insertionPoint), currentPos);
+    return atoms;
+}
 
-    // 7. Update atom sizes (working backward from inner to outer)
+/**
+ * Add `delta` to every chunk offset at or after `from` (stco and co64 of all tracks)
+ */
+function shiftChunkOffsets(moov: Uint8Array, from: number, delta: number): void {
+    const view = new DataView(moov.buffer, moov.byteOffset, moov.byteLength);
+    const root: Atom = { type: 'moov', start: 0, dataStart: 8, end: moov.length };
+
+    for (const trak of findChildren(moov, root, 'trak')) {
+        const mdia = findChild(moov, trak, 'mdia');
+        const minf = mdia && findChild(moov, mdia, 'minf');
+        const stbl = minf && findChild(moov, minf, 'stbl');
+        if (!stbl) continue;
+
+        // stco/co64: version/flags (4), entry count (4), offsets
+        for (const stco of findChildren(moov, stbl, 'stco')) {
+            const count = view.getUint32(stco.dataStart + 4);
+            for (let i = 0; i < count; i++) {
+                const pos = stco.dataStart + 8 + i * 4;
+                const offset = view.getUint32(pos);
+                if (offset < from) continue;
+                if (offset + delta > 0xFFFFFFFF) {
+                    throw new Error('M4A: chunk offset exceeds 32 bits after resizing moov');
+                }
+                view.setUint32(pos, offset + delta);
+            }
+        }
+        for (const co64 of findChildren(moov, stbl, 'co64')) {
+            const count = view.getUint32(co64.dataStart + 4);
+            for (let i = 0; i < count; i++) {
+                const pos = co64.dataStart + 8 + i * 8;
+                const offset = view.getUint32(pos) * 0x100000000 + view.getUint32(pos + 4);
+                if (offset < from) continue;
+                const shifted = offset + delta;
+                view.setUint32(pos, Math.floor(shifted / 0x100000000));
+                view.setUint32(pos + 4, shifted >>> 0);
+            }
+        }
+    }
+}
 
-    // Update 'ilst' size
-    const newIlstSize = ilstSize + addedSize;
-    newDataView.setUint32(ilstOffset, newIlstSize);
+/**
+ * List the atoms between two offsets
+ * @returns null when an atom runs past `end`
+ */
+function readAtoms(data: Uint8Array, start: number, end: number): Atom[] | null {
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    const atoms: Atom[] = [];
+    let offset = start;
 
-    // Update 'meta' size
-    const newMetaSize = metaSize + addedSize;
-    newDataView.setUint32(metaOffset, newMetaSize);
+    while (offset + 8 <= end) {
+        let size = view.getUint32(offset);
+        let headerSize = 8;
+        if (size === 1) {
+            if (offset + 16 > end) return null;
+            size = view.getUint32(offset + 8) * 0x100000000 + view.getUint32(offset + 12);
+            headerSize = 16;
+        } else if (size === 0) {
+            // Atom extends to the end of the file
+            size = end - offset;
+        }
+        if (size < headerSize || offset + size > end) return null;
 
-    // Update 'udta' size
-    const newUdtaSize = udtaSize + addedSize;
-    newDataView.setUint32(udtaOffset, newUdtaSize);
+        atoms.push({ type: getAtomType(data, offset + 4), start: offset, dataStart: offset + headerSize, end: offset + size });
+        offset += size;
+    }
 
-    // Update 'moov' size
-    const newMoovSize = moovSize + addedSize;
-    newDataView.setUint32(moovOffset, newMoovSize);
+    return atoms;
+}
 
-    // 8. Update 'stco' or 'co64' offsets? 
-    // If 'moov' is at the end of the file (common for non-faststart), offsets are from start of file.
-    // If we changed size of moov, do we need to shift offsets?
-    // If moov is at START, shifting it shifts mdia data, invalidating offsets.
-    // If moov is at END, shifting it doesn't affect offsets pointing to mdat at start.
-    // FFmpeg usually puts moov at end unless -movflags faststart is used.
+/**
+ * @param skip - Bytes between the parent header and its children (4 for full atoms like meta)
+ */
+function findChildren(data: Uint8Array, parent: Atom, type: string, skip = 0): Atom[] {
+    return (readAtoms(data, parent.dataStart + skip, parent.end) || []).filter(atom => atom.type === type);
+}
+
+function findChild(data: Uint8Array, parent: Atom, type: string, skip = 0): Atom | null {
+    return findChildren(data, parent, type, skip)[0] || null;
+}
 
-    // Check if mdat is BEFORE moov. If so, safe.
-    // If mdat is AFTER moov, we broke the file.
-    const mdatOffset = findAtom(dataView, 'mdat', 0);
-    if (mdatOffset > moovOffset) {
-        console.warn('M4A: mdat follows moov. Injection might break file offsets. Use faststart disabled.');
-        // If we strictly just append to ilst which is near end of file, we are safe if moov is at end.
+/**
+ * Copy the children of an atom, swapping (or appending) the child of the given type
+ */
+function replaceChild(data: Uint8Array, parent: Atom, skip: number, type: string, replacement: Uint8Array): Uint8Array[] {
+    const children = readAtoms(data, parent.dataStart + skip, parent.end) || [];
+    const parts = children.map(atom => atom.type === type ? replacement : data.subarray(atom.start, atom.end));
+    if (!children.some(atom => atom.type === type)) {
+        parts.push(replacement);
     }
+    return parts;
+}
 
-    return newBuffer;
+function getAtomType(data: Uint8Array, offset: number): string {
+    return String.fromCharCode(data[offset], data[offset + 1], data[offset + 2], data[offset + 3]);
 }
 
-function findAtom(view: DataView, type: string, start: number, end: number = view.byteLength): number {
-    let offset = start;
-    while (offset < end - 8) {
-        const size = view.getUint32(offset);
-        if (size < 8) return -1; // Invalid size
+/**
+ * Read the name of a '----' atom (the payload of its 'name' child)
+ */
+function getCustomAtomName(data: Uint8Array, atom: Atom): string | null {
+    const name = findChild(data, atom, 'name');
+    // name: version/flags (4), then the name
+    return name ? new TextDecoder().decode(data.subarray(name.dataStart + 4, name.end)) : null;
+}
 
-        const atomType = getAtomType(view, offset + 4);
-        if (atomType === type) {
-            return offset;
-        }
+function createAtom(type: string, parts: Uint8Array[]): Uint8Array {
+    const size = 8 + parts.reduce((total, part) => total + part.length, 0);
+    const buffer = new Uint8Array(size);
+    const view = new DataView(buffer.buffer);
 
-        offset += size;
+    view.setUint32(0, size);
+    writeString(view, 4, type);
+    let pos = 8;
+    for (const part of parts) {
+        buffer.set(part, pos);
+        pos += part.length;
     }
-    return -1;
+
+    return buffer;
 }
 
-function getAtomType(view: DataView, offset: number): string {
-    let type = '';
-    for (let i = 0; i < 4; i++) {
-        type += String.fromCharCode(view.getUint8(offset + i));
-    }
-    return type;
+function createDataAtom(type: string, valueType: number, value: Uint8Array): Uint8Array {
+    // Structure:
+    // [size] [type]
+    //   [size] [data] [value type] [locale: 0000] [value]
+    const header = new Uint8Array(8);
+    new DataView(header.buffer).setUint32(0, valueType);
+    return createAtom(type, [createAtom('data', [header, value])]);
+}
+
+function createHandlerAtom(): Uint8Array {
+    // hdlr: version/flags (4), pre_defined (4), handler type "mdir", manufacturer "appl", reserved (8), empty name
+    const payload = new Uint8Array(25);
+    const view = new DataView(payload.buffer);
+    writeString(view, 8, 'mdir');
+    writeString(view, 12, 'appl');
+    return createAtom('hdlr', [payload]);
 }
 
-function createCustomAtom(name: string, value: string): Uint8Array {
+function createCustomAtom(name: string, values: string[]): Uint8Array {
     // Structure:
     // [size] [----]
     //   [size] [mean] [0000] [com.apple.iTunes]
     //   [size] [name] [0000] [TagName]
-    //   [size] [data] [0001] [0000] [Value]
-
-    const mean = 'com.apple.iTunes';
-    const atomName = name.toUpperCase(); // ReplayGain traditional caps
-    const atomValue = value;
-
-    // Calculate sizes
-    // header: 4 size + 4 type = 8
-    // mean: 8 header + 4 flags + mean.length
-    const meanSize = 12 + mean.length;
-    // name: 8 header + 4 flags + atomName.length
-    const nameSize = 12 + atomName.length;
-    // data: 8 header + 4 type/flags + 4 null + value.length
-    const dataSize = 16 + atomValue.length;
-
-    const totalSize = 8 + meanSize + nameSize + dataSize;
-
-    const buffer = new Uint8Array(totalSize);
-    const view = new DataView(buffer.buffer);
-    let pos = 0;
-
-    // Top level '----' atom
-    view.setUint32(pos, totalSize); pos += 4;
-    writeString(view, pos, '----'); pos += 4;
-
-    // 'mean' atom
-    view.setUint32(pos, meanSize); pos += 4;
-    writeString(view, pos, 'mean'); pos += 4;
-    view.setUint32(pos, 0); pos += 4; // Version/Flags
-    writeString(view, pos, mean); pos += mean.length;
-
-    // 'name' atom
-    view.setUint32(pos, nameSize); pos += 4;
-    writeString(view, pos, 'name'); pos += 4;
-    view.setUint32(pos, 0); pos += 4; // Version/Flags
-    writeString(view, pos, atomName); pos += atomName.length;
-
-    // 'data' atom
-    view.setUint32(pos, dataSize); pos += 4;
-    writeString(view, pos, 'data'); pos += 4;
-    view.setUint32(pos, 1); pos += 4; // Type 1 = UTF-8 text
-    view.setUint32(pos, 0); pos += 4; // Null
-    writeString(view, pos, atomValue); pos += atomValue.length;
-
-    return buffer;
+    //   [size] [data] [0001] [0000] [Value] (repeated for multi-value tags)
+
+    const encoder = new TextEncoder();
+    const flags = new Uint8Array(4);
+    const dataHeader = new Uint8Array(8);
+    new DataView(dataHeader.buffer).setUint32(0, TYPE_UTF8);
+
+    return createAtom('----', [
+        createAtom('mean', [flags, encoder.encode('com.apple.iTunes')]),
+        // Names are case-sensitive to readers: ReplayGain uses caps, MusicBrainz IDs Picard's mixed case
+        createAtom('name', [flags, encoder.encode(name)]),
+        ...values.map(value => createAtom('data', [dataHeader, encoder.encode(value)])),
+    ]);
 }
 
 function writeString(view: DataView, offset: number, str: string) {
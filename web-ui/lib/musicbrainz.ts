@@ -1,13 +1,49 @@
 /**
- * MusicBrainz API client for genre lookup via ISRC
+ * MusicBrainz API client for genre, ID and release lookup via ISRC
  * API Documentation: https://musicbrainz.org/doc/MusicBrainz_API
+ *
+ * All requests go through one token bucket to stay within MusicBrainz's 1 request/second policy,
+ * and a 503 pauses the bucket for every caller. Lookups are cached in memory and in IndexedDB
+ * with a TTL; transient failures are not cached so later tracks try again.
  */
 
+import { idbGet, idbPut, isIndexedDBAvailable } from './idb';
+import { httpErrorFromResponse, sleep, withRetry } from './retry';
+
 const MUSICBRAINZ_API_URL = 'https://musicbrainz.org/ws/2';
 const USER_AGENT = 'tidal-dl-ng/1.0.0 (https://github.com/jsildura/tidal-dl-ng)';
 
-// Simple in-memory cache to avoid duplicate lookups
-const genreCache = new Map<string, string[]>();
+// Token bucket: one request per second, no bursts
+const REQUEST_INTERVAL = 1000;
+const BUCKET_SIZE = 1;
+// Pause after a 503 without Retry-After
+const RATE_LIMIT_BACKOFF = 5000;
+const RATE_LIMIT_RETRIES = 3;
+
+const CACHE_TTL = 30 * 24 * 60 * 60 * 1000;
+// Recordings and releases are added to MusicBrainz over time, so misses expire sooner
+const NOT_FOUND_TTL = 7 * 24 * 60 * 60 * 1000;
+
+interface CacheEntry<T> {
+    value: T | null;
+    expiresAt: number;
+}
+
+const memoryCache = new Map<string, CacheEntry<unknown>>();
+
+let tokens = BUCKET_SIZE;
+let lastRefill = Date.now();
+let pausedUntil = 0;
+// Callers take tokens in arrival order
+let tokenQueue: Promise<void> = Promise.resolve();
+
+interface MusicBrainzArtistCredit {
+    name: string;
+    artist: {
+        id: string;
+        name: string;
+    };
+}
 
 export interface MusicBrainzRecording {
     id: string;
@@ -17,6 +53,28 @@ export interface MusicBrainzRecording {
         name: string;
         count: number;
     }>;
+    'artist-credit'?: MusicBrainzArtistCredit[];
+    releases?: Array<{
+        id: string;
+        title: string;
+        status?: string | null;
+        barcode?: string | null;
+    }>;
+}
+
+export interface MusicBrainzRelease {
+    id: string;
+    title: string;
+    barcode?: string | null;
+    'artist-credit'?: MusicBrainzArtistCredit[];
+    'label-info'?: Array<{
+        'catalog-number'?: string | null;
+        label?: { id: string; name: string } | null;
+    }>;
+    'release-group'?: {
+        id: string;
+        'first-release-date'?: string;
+    };
 }
 
 export interface MusicBrainzISRCResponse {
@@ -24,103 +82,315 @@ export interface MusicBrainzISRCResponse {
 }
 
 /**
- * Fetch genre(s) from MusicBrainz using ISRC
- * Uses two-step lookup: ISRC → recording MBID → recording with genres
- * @param isrc - International Standard Recording Code
- * @returns Array of genre names, or empty array if not found
+ * Album the track was downloaded from, used to pick the matching MusicBrainz release
  */
-export async function getGenresByISRC(isrc: string): Promise<string[]> {
-    if (!isrc) {
-        return [];
-    }
+export interface MusicBrainzReleaseHint {
+    title?: string;
+    barcode?: string;
+}
 
-    // Check cache first
-    const cached = genreCache.get(isrc);
-    if (cached !== undefined) {
-        return cached;
-    }
+/**
+ * Tags resolved for a track, named after their Picard equivalents
+ */
+export interface MusicBrainzTags {
+    genres: string[];
+    recordingId?: string;
+    artistIds: string[];
+    releaseId?: string;
+    releaseGroupId?: string;
+    albumArtistIds: string[];
+    /** First release date of the release group (YYYY, YYYY-MM or YYYY-MM-DD) */
+    originalDate?: string;
+    label?: string;
+    catalogNumber?: string;
+    barcode?: string;
+}
 
-    try {
-        // Step 1: Get recording MBID from ISRC
-        const isrcUrl = `${MUSICBRAINZ_API_URL}/isrc/${encodeURIComponent(isrc)}?fmt=json`;
+interface RecordingInfo {
+    recording: MusicBrainzRecording;
+    genres: string[];
+}
+
+type ReleaseInfo = Pick<MusicBrainzTags, 'releaseId' | 'releaseGroupId' | 'albumArtistIds' | 'originalDate' | 'label' | 'catalogNumber' | 'barcode'>;
+
+/**
+ * Wait until the bucket has a token and take it
+ */
+function acquireToken(signal?: AbortSignal): Promise<void> {
+    const turn = tokenQueue.then(async () => {
+        for (;;) {
+            if (signal?.aborted) throw signal.reason;
+
+            const now = Date.now();
+            tokens = Math.min(BUCKET_SIZE, tokens + (now - lastRefill) / REQUEST_INTERVAL);
+            lastRefill = now;
+
+            const wait = Math.max(pausedUntil - now, tokens >= 1 ? 0 : (1 - tokens) * REQUEST_INTERVAL);
+            if (wait <= 0) {
+                tokens -= 1;
+                return;
+            }
+            await sleep(wait, signal);
+        }
+    });
+    // A cancelled caller must not block the ones queued behind it
+    tokenQueue = turn.catch(() => undefined);
+    return turn;
+}
 
-        const controller1 = new AbortController();
-        const timeoutId1 = setTimeout(() => controller1.abort(), 5000);
+/**
+ * Fetch a MusicBrainz resource with a 5 second timeout
+ * @param signal - Optional caller signal that also aborts the request
+ */
+async function fetchMusicBrainz(url: string, signal?: AbortSignal): Promise<Response> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), 5000);
+    const onAbort = () => controller.abort();
+    signal?.addEventListener('abort', onAbort, { once: true });
 
-        const isrcResponse = await fetch(isrcUrl, {
+    try {
+        return await fetch(url, {
             headers: {
                 'User-Agent': USER_AGENT,
                 'Accept': 'application/json',
             },
-            signal: controller1.signal,
+            signal: controller.signal,
         });
+    } finally {
+        clearTimeout(timeoutId);
+        signal?.removeEventListener('abort', onAbort);
+    }
+}
 
-        clearTimeout(timeoutId1);
+/**
+ * Fetch through the shared scheduler, backing off on 503 (MusicBrainz's rate limit response)
+ * @returns The response for any other status; callers decide what a non-2xx means
+ */
+function requestMusicBrainz(url: string, signal?: AbortSignal): Promise<Response> {
+    return withRetry(async () => {
+        await acquireToken(signal);
+        const response = await fetchMusicBrainz(url, signal);
+        if (response.status === 503) {
+            const error = httpErrorFromResponse(response, 'MusicBrainz rate limited');
+            pausedUntil = Math.max(pausedUntil, Date.now() + (error.retryAfter ?? RATE_LIMIT_BACKOFF));
+            throw error;
+        }
+        return response;
+    }, {
+        attempts: RATE_LIMIT_RETRIES,
+        // The bucket already waits out the pause
+        baseDelay: 0,
+        signal,
+        onRetry: (_error, attempt) => console.warn(`MusicBrainz rate limited, retrying (${attempt}/${RATE_LIMIT_RETRIES})`),
+    });
+}
+
+/**
+ * Read a lookup from the memory cache, then IndexedDB
+ * @returns undefined when not cached or expired
+ */
+async function readCache<T>(key: string): Promise<T | null | undefined> {
+    let entry = memoryCache.get(key) as CacheEntry<T> | undefined;
+    if (!entry && isIndexedDBAvailable()) {
+        try {
+            entry = await idbGet<CacheEntry<T>>('musicbrainz', key);
+            if (entry) memoryCache.set(key, entry);
+        } catch (error) {
+            console.warn('Failed to read MusicBrainz cache:', error);
+        }
+    }
 
+    if (!entry || entry.expiresAt <= Date.now()) {
+        return undefined;
+    }
+    return entry.value;
+}
+
+/**
+ * Cache a lookup result; null records that MusicBrainz has no match
+ */
+async function writeCache<T>(key: string, value: T | null): Promise<void> {
+    const entry: CacheEntry<T> = { value, expiresAt: Date.now() + (value === null ? NOT_FOUND_TTL : CACHE_TTL) };
+    memoryCache.set(key, entry);
+
+    if (!isIndexedDBAvailable()) return;
+    try {
+        await idbPut('musicbrainz', key, entry);
+    } catch (error) {
+        console.warn('Failed to update MusicBrainz cache:', error);
+    }
+}
+
+/**
+ * Resolve an ISRC to a recording with its genres, artists and releases
+ * Uses two-step lookup: ISRC → recording MBID → recording with genres
+ */
+async function getRecording(isrc: string, signal?: AbortSignal): Promise<RecordingInfo | null> {
+    const cacheKey = `recording:${isrc.toUpperCase()}`;
+    const cached = await readCache<RecordingInfo>(cacheKey);
+    if (cached !== undefined) {
+        return cached;
+    }
+
+    try {
+        // Step 1: Get recording MBID from ISRC
+        const isrcUrl = `${MUSICBRAINZ_API_URL}/isrc/${encodeURIComponent(isrc)}?fmt=json`;
+        const isrcResponse = await requestMusicBrainz(isrcUrl, signal);
+
+        // 404 means MusicBrainz doesn't know the ISRC
+        if (isrcResponse.status === 404) {
+            await writeCache(cacheKey, null);
+            return null;
+        }
         if (!isrcResponse.ok) {
             console.warn(`MusicBrainz ISRC lookup failed: ${isrcResponse.status}`);
-            genreCache.set(isrc, []);
-            return [];
+            return null;
         }
 
-        const isrcData = await isrcResponse.json();
+        const isrcData: MusicBrainzISRCResponse = await isrcResponse.json();
 
         // Get the first recording's MBID
         if (!isrcData.recordings || isrcData.recordings.length === 0) {
-            genreCache.set(isrc, []);
-            return [];
+            await writeCache(cacheKey, null);
+            return null;
         }
 
         const recordingMbid = isrcData.recordings[0].id;
 
-        // Step 2: Get recording with genres
-        const recordingUrl = `${MUSICBRAINZ_API_URL}/recording/${recordingMbid}?inc=genres&fmt=json`;
-
-        const controller2 = new AbortController();
-        const timeoutId2 = setTimeout(() => controller2.abort(), 5000);
-
-        const recordingResponse = await fetch(recordingUrl, {
-            headers: {
-                'User-Agent': USER_AGENT,
-                'Accept': 'application/json',
-            },
-            signal: controller2.signal,
-        });
-
-        clearTimeout(timeoutId2);
+        // Step 2: Get recording with genres, artists and the releases it appears on
+        const recordingUrl = `${MUSICBRAINZ_API_URL}/recording/${recordingMbid}?inc=genres+artist-credits+releases&fmt=json`;
+        const recordingResponse = await requestMusicBrainz(recordingUrl, signal);
 
         if (!recordingResponse.ok) {
             console.warn(`MusicBrainz recording lookup failed: ${recordingResponse.status}`);
-            genreCache.set(isrc, []);
-            return [];
+            return null;
         }
 
-        const recordingData: MusicBrainzRecording = await recordingResponse.json();
+        const recording: MusicBrainzRecording = await recordingResponse.json();
 
         // Extract genres
-        const genres: string[] = [];
-        if (recordingData.genres && recordingData.genres.length > 0) {
-            const sortedGenres = recordingData.genres
-                .sort((a, b) => b.count - a.count)
-                .map(g => g.name);
-            genres.push(...sortedGenres);
+        const genres = (recording.genres || [])
+            .sort((a, b) => b.count - a.count)
+            .map(g => g.name);
+
+        const info = { recording, genres };
+        await writeCache(cacheKey, info);
+        return info;
+    } catch (error) {
+        if (signal?.aborted) throw error;
+        console.warn('MusicBrainz lookup failed:', error);
+        return null;
+    }
+}
+
+/**
+ * Fetch release-level tags: release group, album artists, label and catalog number
+ */
+async function getRelease(releaseId: string, signal?: AbortSignal): Promise<ReleaseInfo | null> {
+    const cacheKey = `release:${releaseId}`;
+    const cached = await readCache<ReleaseInfo>(cacheKey);
+    if (cached !== undefined) {
+        return cached;
+    }
+
+    try {
+        const releaseUrl = `${MUSICBRAINZ_API_URL}/release/${releaseId}?inc=labels+release-groups+artist-credits&fmt=json`;
+        const response = await requestMusicBrainz(releaseUrl, signal);
+
+        if (!response.ok) {
+            console.warn(`MusicBrainz release lookup failed: ${response.status}`);
+            return null;
         }
 
-        // Cache the result
-        genreCache.set(isrc, genres);
+        const release: MusicBrainzRelease = await response.json();
+        const labelInfo = release['label-info']?.find(info => info.label?.name) || release['label-info']?.[0];
 
-        return genres;
+        const info: ReleaseInfo = {
+            releaseId: release.id,
+            releaseGroupId: release['release-group']?.id,
+            albumArtistIds: (release['artist-credit'] || []).map(credit => credit.artist.id),
+            originalDate: release['release-group']?.['first-release-date'] || undefined,
+            label: labelInfo?.label?.name || undefined,
+            catalogNumber: labelInfo?.['catalog-number'] || undefined,
+            barcode: release.barcode || undefined,
+        };
+        await writeCache(cacheKey, info);
+        return info;
     } catch (error) {
-        console.warn('MusicBrainz lookup failed:', error);
-        genreCache.set(isrc, []);
-        return [];
+        if (signal?.aborted) throw error;
+        console.warn('MusicBrainz release lookup failed:', error);
+        return null;
     }
 }
 
 /**
- * Clear the genre cache (useful for testing)
+ * UPCs and EANs differ only by leading zeros
+ */
+function normalizeBarcode(barcode: string): string {
+    return barcode.replace(/^0+/, '');
+}
+
+/**
+ * Pick the release matching the downloaded album
+ * Prefers a barcode match, then an official release with the same title, then any official release.
  */
-export function clearGenreCache(): void {
-    genreCache.clear();
+function pickRelease(recording: MusicBrainzRecording, hint: MusicBrainzReleaseHint): string | null {
+    const releases = recording.releases || [];
+    if (releases.length === 0) return null;
+
+    const barcode = hint.barcode ? normalizeBarcode(hint.barcode) : '';
+    const title = hint.title?.toLowerCase();
+    const isOfficial = (status?: string | null) => !status || status === 'Official';
+
+    const match = (barcode && releases.find(release => release.barcode && normalizeBarcode(release.barcode) === barcode))
+        || (title && releases.find(release => release.title.toLowerCase() === title && isOfficial(release.status)))
+        || releases.find(release => isOfficial(release.status))
+        || releases[0];
+
+    return match.id;
 }
 
+/**
+ * Fetch genres, MusicBrainz IDs and release info using ISRC
+ * @param isrc - International Standard Recording Code
+ * @param release - Album to match against the recording's releases, or null to skip the release lookup
+ * @param signal - Optional signal to cancel the lookup
+ * @returns Resolved tags; empty when the recording isn't found
+ */
+export async function getMusicBrainzTags(
+    isrc: string,
+    release: MusicBrainzReleaseHint | null,
+    signal?: AbortSignal
+): Promise<MusicBrainzTags> {
+    const tags: MusicBrainzTags = { genres: [], artistIds: [], albumArtistIds: [] };
+    if (!isrc) {
+        return tags;
+    }
+
+    const recordingInfo = await getRecording(isrc, signal);
+    if (!recordingInfo) {
+        return tags;
+    }
+
+    const { recording, genres } = recordingInfo;
+    tags.genres = genres;
+    tags.recordingId = recording.id;
+    tags.artistIds = (recording['artist-credit'] || []).map(credit => credit.artist.id);
+
+    if (release) {
+        const releaseId = pickRelease(recording, release);
+        const releaseInfo = releaseId ? await getRelease(releaseId, signal) : null;
+        if (releaseInfo) {
+            Object.assign(tags, releaseInfo);
+        }
+    }
+
+    return tags;
+}
+
+/**
+ * Clear the in-memory lookup cache (useful for testing); IndexedDB entries expire by TTL
+ */
+export function clearMusicBrainzCache(): void {
+    memoryCache.clear();
+}
@@ -0,0 +1,146 @@
+/**
+ * Library folder output via the File System Access API
+ * The picked directory handle is kept in IndexedDB so it only has to be chosen once.
+ * Browsers without showDirectoryPicker (Firefox, Safari, mobile) keep using ZIP downloads.
+ */
+
+import { idbDelete, idbGet, idbPut, isIndexedDBAvailable } from './idb';
+
+const HANDLE_KEY = 'output-directory';
+
+// showDirectoryPicker and handle permissions aren't part of TypeScript's DOM lib yet
+interface PermissionDescriptor {
+    mode: 'read' | 'readwrite';
+}
+
+interface PermissionedDirectoryHandle extends FileSystemDirectoryHandle {
+    queryPermission(descriptor: PermissionDescriptor): Promise<PermissionState>;
+    requestPermission(descriptor: PermissionDescriptor): Promise<PermissionState>;
+}
+
+type DirectoryPickerWindow = Window & {
+    showDirectoryPicker?: (options?: { id?: string; mode?: 'read' | 'readwrite' }) => Promise<FileSystemDirectoryHandle>;
+};
+
+/**
+ * Check if the browser can write downloads straight to a folder
+ */
+export function isDirectoryPickerSupported(): boolean {
+    return typeof window !== 'undefined' &&
+        typeof (window as DirectoryPickerWindow).showDirectoryPicker === 'function' &&
+        isIndexedDBAvailable();
+}
+
+/**
+ * Let the user pick the library root and remember it
+ * Must be called from a user gesture (e.g. a button click)
+ */
+export async function pickOutputDirectory(): Promise<FileSystemDirectoryHandle> {
+    const picker = (window as DirectoryPickerWindow).showDirectoryPicker;
+    if (!picker) {
+        throw new Error('Folder downloads are not supported in this browser');
+    }
+
+    const handle = await picker({ id: 'tidal-dl-ng-library', mode: 'readwrite' });
+    await idbPut('handles', HANDLE_KEY, handle);
+    return handle;
+}
+
+/**
+ * Get the remembered library root without checking permissions
+ */
+export async function getStoredOutputDirectory(): Promise<FileSystemDirectoryHandle | null> {
+    if (!isDirectoryPickerSupported()) return null;
+
+    try {
+        return (await idbGet<FileSystemDirectoryHandle>('handles', HANDLE_KEY)) || null;
+    } catch (error) {
+        console.error('Failed to load output folder:', error);
+        return null;
+    }
+}
+
+/**
+ * Forget the library root, switching downloads back to ZIP files
+ */
+export async function clearOutputDirectory(): Promise<void> {
+    if (!isIndexedDBAvailable()) return;
+    await idbDelete('handles', HANDLE_KEY);
+}
+
+/**
+ * Get the library root if write access is (or can be) granted
+ * Permission prompts need a user gesture, so queued downloads started later
+ * may get null here and fall back to ZIP.
+ */
+export async function getWritableOutputDirectory(): Promise<FileSystemDirectoryHandle | null> {
+    const handle = await getStoredOutputDirectory() as PermissionedDirectoryHandle | null;
+    if (!handle) return null;
+
+    try {
+        const descriptor: PermissionDescriptor = { mode: 'readwrite' };
+        if (await handle.queryPermission(descriptor) === 'granted') {
+            return handle;
+        }
+        if (await handle.requestPermission(descriptor) === 'granted') {
+            return handle;
+        }
+    } catch (error) {
+        console.warn('Output folder permission request failed:', error);
+    }
+    return null;
+}
+
+/**
+ * Write a file below the library root, creating intermediate folders
+ * @param path - Relative path using `/` separators (as produced by formatMediaPath)
+ */
+export async function writeFileToDirectory(
+    root: FileSystemDirectoryHandle,
+    path: string,
+    data: Uint8Array | Blob
+): Promise<void> {
+    const segments = path.split('/').filter(Boolean);
+    const fileName = segments.pop();
+    if (!fileName) {
+        throw new Error(`Invalid output path: ${path}`);
+    }
+
+    let directory = root;
+    for (const segment of segments) {
+        directory = await directory.getDirectoryHandle(segment, { create: true });
+    }
+
+    const fileHandle = await directory.getFileHandle(fileName, { create: true });
+    const writable = await fileHandle.createWritable();
+    try {
+        await writable.write(data as BufferSource | Blob);
+        await writable.close();
+    } catch (error) {
+        // Discard the partial file instead of leaving a truncated track behind
+        await writable.abort().catch(() => { });
+        throw error;
+    }
+}
+
+/**
+ * Check if a file exists below the library root
+ * @param path - Relative path using `/` separators
+ */
+export async function fileExistsInDirectory(root: FileSystemDirectoryHandle, path: string): Promise<boolean> {
+    const segments = path.split('/').filter(Boolean);
+    const fileName = segments.pop();
+    if (!fileName) return false;
+
+    try {
+        let directory = root;
+        for (const segment of segments) {
+            directory = await directory.getDirectoryHandle(segment);
+        }
+        await directory.getFileHandle(fileName);
+        return true;
+    } catch {
+        // NotFoundError for a missing folder or file
+        return false;
+    }
+}
@@ -0,0 +1,166 @@
+/**
+ * Path template engine for output file naming
+ * Expands the `format_*` templates from settings into relative file paths
+ */
+
+import { TidalTrack, TidalAlbum, TidalPlaylist, TidalVideo, TidalMix } from './tidal-client';
+
+export interface PathTemplateContext {
+    track: TidalTrack | TidalVideo;
+    album?: TidalAlbum | null;
+    playlist?: TidalPlaylist | null;
+    mix?: TidalMix | null;
+    listPosition?: number;
+    listTotal?: number;
+    artistSeparator?: string;
+    /** Quality of the stream actually downloaded; falls back to the track's catalog quality */
+    audioQuality?: string;
+}
+
+/**
+ * Placeholders supported in path templates (shown on the settings page)
+ */
+export const TEMPLATE_PLACEHOLDERS: Array<{ key: string; description: string }> = [
+    { key: 'artist_name', description: 'Track artist(s)' },
+    { key: 'album_artist', description: 'Main album artist' },
+    { key: 'track_title', description: 'Track title (incl. version)' },
+    { key: 'track_id', description: 'Tidal track ID' },
+    { key: 'track_duration_seconds', description: 'Duration in seconds' },
+    { key: 'track_duration_minutes', description: 'Duration as MM:SS' },
+    { key: 'track_quality', description: 'Downloaded audio quality, e.g. " [LOSSLESS]"' },
+    { key: 'track_explicit', description: '" (Explicit)" if explicit' },
+    { key: 'track_volume_num', description: 'Disc number' },
+    { key: 'track_volume_num_optional', description: 'Disc number + "-" on multi-disc albums' },
+    { key: 'track_volume_num_optional_CD', description: '"CD<n>/" folder on multi-disc albums' },
+    { key: 'video_quality', description: 'Video resolution, e.g. "1080"' },
+    { key: 'isrc', description: 'ISRC code' },
+    { key: 'album_title', description: 'Album title' },
+    { key: 'album_id', description: 'Tidal album ID' },
+    { key: 'album_track_num', description: 'Track number on album (zero-padded)' },
+    { key: 'album_num_tracks', description: 'Number of tracks on album' },
+    { key: 'album_num_volumes', description: 'Number of discs on album' },
+    { key: 'album_year', description: 'Release year' },
+    { key: 'album_date', description: 'Release date (YYYY-MM-DD)' },
+    { key: 'album_explicit', description: '" (Explicit)" if album is explicit' },
+    { key: 'playlist_name', description: 'Playlist title' },
+    { key: 'playlist_id', description: 'Tidal playlist UUID' },
+    { key: 'mix_name', description: 'Mix title' },
+    { key: 'mix_id', description: 'Tidal mix ID' },
+    { key: 'list_pos', description: 'Position in playlist/mix (zero-padded)' },
+];
+
+/**
+ * Remove characters that are invalid in file or folder names
+ */
+export function sanitizePathSegment(value: string): string {
+    return value
+        .replace(/[<>:"/\\|?*]/g, '')
+        .replace(/\s+/g, ' ')
+        .trim()
+        // Windows does not allow trailing dots or spaces in names
+        .replace(/[. ]+$/, '');
+}
+
+/**
+ * Pad a number with leading zeros to at least two digits,
+ * or more if the total count requires it (e.g. 001 for 100+ items)
+ */
+function padNumber(value: number, total?: number): string {
+    const width = Math.max(2, String(total || 0).length);
+    return String(value).padStart(width, '0');
+}
+
+/**
+ * Resolve the value of every placeholder for a given context
+ */
+function resolvePlaceholders(context: PathTemplateContext): Record<string, string> {
+    const { track, album, playlist, mix } = context;
+    const separator = context.artistSeparator || ', ';
+
+    const artistName = track.artists?.length
+        ? track.artists.map(a => a.name).join(separator)
+        : track.artist?.name || 'Unknown Artist';
+    const albumArtist = album?.artist?.name || track.artist?.name || 'Unknown Artist';
+    const numVolumes = album?.numberOfVolumes || 1;
+    const volume = track.volumeNumber || 1;
+    const duration = track.duration || 0;
+    const releaseDate = album?.releaseDate || '';
+    const isVideo = 'quality' in track;
+    const quality = isVideo ? '' : context.audioQuality || track.audioQuality || '';
+    // Video qualities look like MP4_1080P
+    const videoQuality = isVideo ? (track.quality.match(/(\d+)P/)?.[1] || '') : '';
+
+    return {
+        artist_name: artistName,
+        album_artist: albumArtist,
+        track_title: track.title || 'Unknown Track',
+        track_id: String(track.id),
+        track_duration_seconds: String(duration),
+        track_duration_minutes: `${Math.floor(duration / 60)}:${String(duration % 60).padStart(2, '0')}`,
+        track_quality: quality ? ` [${quality}]` : '',
+        track_explicit: track.explicit ? ' (Explicit)' : '',
+        track_volume_num: String(volume),
+        track_volume_num_optional: numVolumes > 1 ? `${volume}-` : '',
+        track_volume_num_optional_CD: numVolumes > 1 ? `CD${volume}/` : '',
+        video_quality: videoQuality,
+        isrc: isVideo ? '' : track.isrc || '',
+        album_title: album?.title || track.album?.title || 'Unknown Album',
+        album_id: String(album?.id || track.album?.id || ''),
+        album_track_num: padNumber(track.trackNumber || 1, album?.numberOfTracks),
+        album_num_tracks: String(album?.numberOfTracks || ''),
+        album_num_volumes: String(numVolumes),
+        album_year: releaseDate.substring(0, 4),
+        album_date: releaseDate.substring(0, 10),
+        album_explicit: album?.explicit ? ' (Explicit)' : '',
+        playlist_name: playlist?.title || '',
+        playlist_id: playlist?.uuid || '',
+        mix_name: mix?.title || '',
+        mix_id: mix?.id || '',
+        list_pos: padNumber(context.listPosition || track.trackNumber || 1, context.listTotal),
+    };
+}
+
+/**
+ * Expand a path template into a relative file path (without extension).
+ * `/` in the template creates folders; `/` inside placeholder values is stripped
+ * so metadata can never introduce extra folder levels.
+ * Unknown placeholders are left as-is so typos are visible in the output.
+ */
+export function formatMediaPath(template: string, context: PathTemplateContext): string {
+    const values = resolvePlaceholders(context);
+
+    // Placeholders that intentionally expand to a folder separator
+    const folderPlaceholders = new Set(['track_volume_num_optional_CD']);
+
+    const expanded = template.replace(/\{([a-zA-Z_]+)\}/g, (match, key: string) => {
+        if (!(key in values)) return match;
+        const value = values[key];
+        return folderPlaceholders.has(key) ? value : value.replace(/[/\\]/g, '');
+    });
+
+    const segments = expanded
+        .split('/')
+        .map(sanitizePathSegment)
+        .filter(segment => segment.length > 0);
+
+    if (segments.length === 0) {
+        return sanitizePathSegment(`${values.artist_name} - ${values.track_title}`) || `track-${values.track_id}`;
+    }
+
+    return segments.join('/');
+}
+
+/**
+ * Get the folder portion of a relative path ('' if there is none)
+ */
+export function getPathDirectory(path: string): string {
+    const index = path.lastIndexOf('/');
+    return index === -1 ? '' : path.substring(0, index);
+}
+
+/**
+ * Get the file name portion of a relative path
+ */
+export function getPathBasename(path: string): string {
+    return path.substring(path.lastIndexOf('/') + 1);
+}
@@ -0,0 +1,164 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+    getBackoffDelay,
+    HttpError,
+    httpErrorFromResponse,
+    IncompleteResponseError,
+    isExpiredUrlError,
+    parseRetryAfter,
+    withRetry,
+} from './retry';
+
+beforeEach(() => {
+    vi.useFakeTimers();
+});
+
+afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+});
+
+/**
+ * Operation failing with the given errors in turn, then resolving with 'done'
+ */
+function failing(...errors: unknown[]) {
+    return vi.fn(async (attempt: number) => {
+        if (attempt < errors.length) throw errors[attempt];
+        return 'done';
+    });
+}
+
+describe('withRetry', () => {
+    it('retries transient failures and passes the attempt number', async () => {
+        const operation = failing(new TypeError('Failed to fetch'), new HttpError('Download failed: 503', 503), new IncompleteResponseError('Ended early'));
+        const onRetry = vi.fn();
+
+        const result = withRetry(operation, { attempts: 3, onRetry });
+        await vi.runAllTimersAsync();
+
+        expect(await result).toBe('done');
+        expect(operation.mock.calls.map(([attempt]) => attempt)).toEqual([0, 1, 2, 3]);
+        expect(onRetry.mock.calls.map(([, attempt]) => attempt)).toEqual([1, 2, 3]);
+    });
+
+    it('gives up after the configured retries', async () => {
+        const error = new HttpError('Download failed: 500', 500);
+        const operation = vi.fn(async () => {
+            throw error;
+        });
+
+        const result = withRetry(operation, { attempts: 2 });
+        const rejection = expect(result).rejects.toBe(error);
+        await vi.runAllTimersAsync();
+
+        await rejection;
+        expect(operation).toHaveBeenCalledTimes(3);
+    });
+
+    it.each([
+        ['expired URL', new HttpError('Download failed: 403', 403)],
+        ['not found', new HttpError('Download failed: 404', 404)],
+        ['programming error', new Error('Unexpected')],
+    ])('does not retry a %s', async (_, error) => {
+        const operation = failing(error);
+        await expect(withRetry(operation, { attempts: 3 })).rejects.toBe(error);
+        expect(operation).toHaveBeenCalledOnce();
+    });
+
+    it('waits for the Retry-After delay instead of backing off', async () => {
+        const random = vi.spyOn(Math, 'random');
+        const onRetry = vi.fn();
+        const operation = failing(new HttpError('Download failed: 429', 429, 7000));
+
+        const result = withRetry(operation, { attempts: 1, onRetry });
+        await vi.advanceTimersByTimeAsync(6999);
+        expect(operation).toHaveBeenCalledOnce();
+
+        await vi.advanceTimersByTimeAsync(1);
+        expect(await result).toBe('done');
+        expect(onRetry).toHaveBeenCalledWith(expect.any(HttpError), 1, 7000);
+        expect(random).not.toHaveBeenCalled();
+    });
+
+    it('fails instead of waiting for an overlong Retry-After', async () => {
+        const error = new HttpError('Download failed: 503', 503, 10 * 60 * 1000);
+        const operation = failing(error);
+
+        await expect(withRetry(operation, { attempts: 3 })).rejects.toBe(error);
+        expect(operation).toHaveBeenCalledOnce();
+    });
+
+    it('stops waiting as soon as the signal aborts', async () => {
+        const controller = new AbortController();
+        const operation = failing(new TypeError('Failed to fetch'));
+        vi.spyOn(Math, 'random').mockReturnValue(1);
+
+        const result = withRetry(operation, { attempts: 3, baseDelay: 10000, maxDelay: 10000, signal: controller.signal });
+        const rejection = expect(result).rejects.toThrow('Paused');
+        await vi.advanceTimersByTimeAsync(5000);
+
+        controller.abort(new Error('Paused'));
+        await rejection;
+        expect(operation).toHaveBeenCalledOnce();
+        expect(vi.getTimerCount()).toBe(0);
+    });
+
+    it('does not retry once the signal is aborted', async () => {
+        const controller = new AbortController();
+        const operation = vi.fn(async () => {
+            controller.abort();
+            throw new TypeError('Failed to fetch');
+        });
+
+        await expect(withRetry(operation, { attempts: 3, signal: controller.signal })).rejects.toThrow('Failed to fetch');
+        expect(operation).toHaveBeenCalledOnce();
+    });
+});
+
+describe('getBackoffDelay', () => {
+    it.each([0, 0.5, 0.999])('stays within the exponential bound (random %f)', value => {
+        vi.spyOn(Math, 'random').mockReturnValue(value);
+
+        for (let attempt = 0; attempt < 8; attempt++) {
+            const delay = getBackoffDelay(attempt, 1000, 30000);
+            expect(delay).toBeGreaterThanOrEqual(0);
+            expect(delay).toBeLessThanOrEqual(Math.min(30000, 1000 * 2 ** attempt));
+        }
+    });
+
+    it('scales the full window by the random factor', () => {
+        vi.spyOn(Math, 'random').mockReturnValue(0.5);
+        expect(getBackoffDelay(2, 1000, 30000)).toBe(2000);
+        expect(getBackoffDelay(10, 1000, 30000)).toBe(15000);
+    });
+});
+
+describe('parseRetryAfter', () => {
+    it('reads seconds and HTTP dates', () => {
+        vi.setSystemTime(Date.parse('2024-01-01T00:00:00Z'));
+
+        expect(parseRetryAfter('120')).toBe(120000);
+        expect(parseRetryAfter('Mon, 01 Jan 2024 00:00:30 GMT')).toBe(30000);
+        expect(parseRetryAfter('Sun, 31 Dec 2023 23:59:00 GMT')).toBe(0);
+        expect(parseRetryAfter('soon')).toBeNull();
+        expect(parseRetryAfter(null)).toBeNull();
+    });
+});
+
+describe('httpErrorFromResponse', () => {
+    it('keeps Retry-After only for 429 and 503', () => {
+        const headers = { 'Retry-After': '5' };
+
+        expect(httpErrorFromResponse(new Response(null, { status: 429, headers }), 'Download failed')).toMatchObject({
+            message: 'Download failed: 429',
+            status: 429,
+            retryAfter: 5000,
+        });
+        expect(httpErrorFromResponse(new Response(null, { status: 500, headers }), 'Download failed').retryAfter).toBeNull();
+    });
+
+    it('marks expired signed URLs', () => {
+        expect(isExpiredUrlError(httpErrorFromResponse(new Response(null, { status: 410 }), 'Download failed'))).toBe(true);
+        expect(isExpiredUrlError(httpErrorFromResponse(new Response(null, { status: 500 }), 'Download failed'))).toBe(false);
+    });
+});
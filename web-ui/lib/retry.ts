@@ -0,0 +1,141 @@
+/**
+ * Shared retry layer for CDN downloads
+ * Retries transient failures (network errors, truncated bodies, 408/425/429/5xx) with jittered
+ * exponential backoff and honors Retry-After on 429/503. Expired stream URLs are not retried
+ * here; callers re-request the stream manifest instead (see isExpiredUrlError).
+ */
+
+const DEFAULT_BASE_DELAY = 1000;
+const DEFAULT_MAX_DELAY = 30000;
+// Server-requested waits longer than this fail the attempt instead of stalling the queue
+const MAX_RETRY_AFTER = 5 * 60 * 1000;
+
+export interface RetryOptions {
+    /** Retries after the first attempt */
+    attempts: number;
+    baseDelay?: number;
+    maxDelay?: number;
+    signal?: AbortSignal;
+    onRetry?: (error: unknown, attempt: number, delay: number) => void;
+}
+
+/**
+ * Non-2xx response from a download request
+ */
+export class HttpError extends Error {
+    status: number;
+    /** Delay requested through Retry-After, in ms */
+    retryAfter: number | null;
+
+    constructor(message: string, status: number, retryAfter: number | null = null) {
+        super(message);
+        this.name = 'HttpError';
+        this.status = status;
+        this.retryAfter = retryAfter;
+    }
+}
+
+/**
+ * Response body that ended before all expected bytes arrived
+ */
+export class IncompleteResponseError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'IncompleteResponseError';
+    }
+}
+
+/**
+ * Build an HttpError from a failed response
+ */
+export function httpErrorFromResponse(response: Response, message: string): HttpError {
+    const retryAfter = response.status === 429 || response.status === 503
+        ? parseRetryAfter(response.headers.get('Retry-After'))
+        : null;
+    return new HttpError(`${message}: ${response.status}`, response.status, retryAfter);
+}
+
+/**
+ * Parse a Retry-After header (seconds or HTTP date) into ms
+ */
+export function parseRetryAfter(value: string | null): number | null {
+    if (!value) return null;
+
+    const seconds = Number(value);
+    if (!isNaN(seconds)) {
+        return Math.max(0, seconds * 1000);
+    }
+
+    const date = Date.parse(value);
+    return isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+/**
+ * Signed CDN URLs answer 401/403/410 once they expire
+ */
+export function isExpiredUrlError(error: unknown): boolean {
+    return error instanceof HttpError && (error.status === 401 || error.status === 403 || error.status === 410);
+}
+
+function isRetryable(error: unknown): boolean {
+    if (error instanceof HttpError) {
+        return error.status === 408 || error.status === 425 || error.status === 429 || error.status >= 500;
+    }
+    // fetch rejects with a TypeError on network failures and dropped connections
+    return error instanceof TypeError || error instanceof IncompleteResponseError;
+}
+
+/**
+ * Full-jitter exponential backoff
+ */
+export function getBackoffDelay(attempt: number, baseDelay = DEFAULT_BASE_DELAY, maxDelay = DEFAULT_MAX_DELAY): number {
+    return Math.round(Math.random() * Math.min(maxDelay, baseDelay * 2 ** attempt));
+}
+
+/**
+ * Wait for the given time, rejecting early if the signal is aborted
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(signal.reason);
+            return;
+        }
+        const onAbort = () => {
+            clearTimeout(timeoutId);
+            reject(signal?.reason);
+        };
+        const timeoutId = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
+
+/**
+ * Run an async operation, retrying transient failures
+ * @param operation - Called with the zero-based attempt number
+ */
+export async function withRetry<T>(operation: (attempt: number) => Promise<T>, options: RetryOptions): Promise<T> {
+    const { attempts, baseDelay, maxDelay, signal, onRetry } = options;
+
+    for (let attempt = 0; ; attempt++) {
+        try {
+            return await operation(attempt);
+        } catch (error) {
+            if (signal?.aborted || attempt >= attempts || !isRetryable(error)) {
+                throw error;
+            }
+
+            const retryAfter = error instanceof HttpError ? error.retryAfter : null;
+            if (retryAfter !== null && retryAfter > MAX_RETRY_AFTER) {
+                throw error;
+            }
+
+            const delay = retryAfter ?? getBackoffDelay(attempt, baseDelay, maxDelay);
+            onRetry?.(error, attempt + 1, delay);
+            await sleep(delay, signal);
+        }
+    }
+}
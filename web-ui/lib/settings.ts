@@ -3,12 +3,20 @@
  * Used for serverless deployment where no backend storage is available
  */
 
+/** Which lyrics get embedded: time-tagged LRC, plain text, or both where the container allows */
+export type LyricsEmbedMode = 'synced' | 'unsynced' | 'both';
+
 export interface TidalSettings {
     quality_audio: 'LOW' | 'HIGH' | 'LOSSLESS' | 'HI_RES_LOSSLESS';
     quality_video: '360' | '480' | '720' | '1080';
     skip_existing: boolean;
+    skip_existing_upgrade: boolean;
+    /** Decode each FLAC to check its STREAMINFO MD5; loads FFmpeg */
+    verify_flac_md5: boolean;
     lyrics_embed: boolean;
     lyrics_file: boolean;
+    lyrics_embed_flac: LyricsEmbedMode;
+    lyrics_embed_m4a: LyricsEmbedMode;
     video_download: boolean;
     download_delay: boolean;
     download_dolby_atmos: boolean;
@@ -20,18 +28,29 @@ export interface TidalSettings {
     metadata_cover_dimension: string;
     metadata_cover_embed: boolean;
     metadata_genre_lookup: boolean;
+    metadata_musicbrainz_ids: boolean;
     metadata_artist_separator: '; ' | ', ' | ' / ' | ' & ';
     multi_thread_download: boolean;
+    download_retry_attempts: '0' | '1' | '3' | '5';
     playlist_details_mode: boolean;
+    artist_include_albums: boolean;
+    artist_include_eps_singles: boolean;
+    artist_include_compilations: boolean;
+    artist_skip_duplicates: boolean;
+    artist_single_archive: boolean;
 }
 
 export const DEFAULT_SETTINGS: TidalSettings = {
     quality_audio: 'LOSSLESS',
     quality_video: '1080',
     skip_existing: true,
+    skip_existing_upgrade: false,
+    verify_flac_md5: false,
     lyrics_embed: true,
     lyrics_file: false,
-    video_download: true,
+    lyrics_embed_flac: 'both',
+    lyrics_embed_m4a: 'both',
+    video_download: false,
     download_delay: false,
     download_dolby_atmos: false,
     format_album: 'Albums/{album_artist} - {album_title}/{track_volume_num_optional}{album_track_num}. {artist_name} - {track_title}',
@@ -42,9 +61,16 @@ export const DEFAULT_SETTINGS: TidalSettings = {
     metadata_cover_dimension: '1280',
     metadata_cover_embed: true,
     metadata_genre_lookup: true,
+    metadata_musicbrainz_ids: false,
     metadata_artist_separator: '; ',
     multi_thread_download: false,
+    download_retry_attempts: '3',
     playlist_details_mode: false,
+    artist_include_albums: true,
+    artist_include_eps_singles: true,
+    artist_include_compilations: false,
+    artist_skip_duplicates: true,
+    artist_single_archive: false,
 };
 
 const STORAGE_KEY = 'tidal-dl-ng-settings';
@@ -42,6 +42,8 @@ export interface TidalTrack {
 export interface TidalAlbum {
     id: number;
     title: string;
+    version?: string;
+    type?: 'ALBUM' | 'EP' | 'SINGLE' | 'COMPILATION';
     duration: number;
     numberOfTracks: number;
     numberOfVolumes: number;
@@ -58,10 +60,57 @@ export interface TidalAlbum {
     cover: string;
 }
 
+export interface TidalVideo {
+    id: number;
+    title: string;
+    duration: number;
+    trackNumber: number;
+    volumeNumber: number;
+    explicit: boolean;
+    quality: string; // e.g. 'MP4_1080P'
+    imageId?: string;
+    releaseDate?: string;
+    artist: {
+        id: number;
+        name: string;
+    };
+    artists: Array<{ id: number; name: string }>;
+    album?: {
+        id: number;
+        title: string;
+        cover: string;
+    } | null;
+}
+
+/**
+ * Entry of a mixed album/playlist listing
+ */
+export type MediaItem =
+    | { type: 'track'; item: TidalTrack }
+    | { type: 'video'; item: TidalVideo };
+
+export interface TidalMix {
+    id: string;
+    title: string;
+    subTitle?: string;
+}
+
+export interface TidalArtist {
+    id: number;
+    name: string;
+    picture?: string;
+}
+
+/**
+ * Release groups as exposed by the artist albums endpoint `filter` parameter
+ */
+export type ArtistReleaseFilter = 'ALBUMS' | 'EPSANDSINGLES' | 'COMPILATIONS';
+
 export interface TidalPlaylist {
     uuid: string;
     title: string;
     numberOfTracks: number;
+    numberOfVideos?: number;
     duration: number;
     image: string;
     squareImage: string;
@@ -90,6 +139,19 @@ export interface StreamInfo {
     trackPeakAmplitude?: number;
 }
 
+export interface TidalLyrics {
+    /** Synced lyrics in LRC format */
+    subtitles: string | null;
+    lyrics: string | null;
+}
+
+export interface VideoStreamInfo {
+    videoId: number;
+    videoQuality: string;
+    // HLS master playlist URL decoded from the manifest
+    manifestUrl: string;
+}
+
 /**
  * Get cover art URL from cover ID
  */
@@ -148,8 +210,8 @@ export async function search(query: string, types: string[] = ['TRACKS', 'ALBUMS
 /**
  * Get track info by ID
  */
-export async function getTrack(trackId: string | number): Promise<TidalTrack> {
-    const response = await fetchWithAuth(`/api/tracks/${trackId}?countryCode=US`);
+export async function getTrack(trackId: string | number, signal?: AbortSignal): Promise<TidalTrack> {
+    const response = await fetchWithAuth(`/api/tracks/${trackId}?countryCode=US`, { signal });
 
     if (!response.ok) {
         throw new Error('Failed to get track');
@@ -161,8 +223,8 @@ export async function getTrack(trackId: string | number): Promise<TidalTrack> {
 /**
  * Get playlist info by ID
  */
-export async function getPlaylist(playlistId: string): Promise<TidalPlaylist> {
-    const response = await fetchWithAuth(`/api/playlists/${playlistId}?countryCode=US`);
+export async function getPlaylist(playlistId: string, signal?: AbortSignal): Promise<TidalPlaylist> {
+    const response = await fetchWithAuth(`/api/playlists/${playlistId}?countryCode=US`, { signal });
 
     if (!response.ok) {
         throw new Error('Failed to get playlist');
@@ -174,8 +236,8 @@ export async function getPlaylist(playlistId: string): Promise<TidalPlaylist> {
 /**
  * Get album info by ID
  */
-export async function getAlbum(albumId: string | number): Promise<TidalAlbum> {
-    const response = await fetchWithAuth(`/api/albums/${albumId}?countryCode=US`);
+export async function getAlbum(albumId: string | number, signal?: AbortSignal): Promise<TidalAlbum> {
+    const response = await fetchWithAuth(`/api/albums/${albumId}?countryCode=US`, { signal });
 
     if (!response.ok) {
         throw new Error('Failed to get album');
@@ -185,63 +247,253 @@ export async function getAlbum(albumId: string | number): Promise<TidalAlbum> {
 }
 
 /**
- * Get album tracks
+ * One page of a paginated Tidal listing
  */
-export async function getAlbumTracks(albumId: string | number): Promise<TidalTrack[]> {
-    const response = await fetchWithAuth(`/api/albums/${albumId}/tracks?countryCode=US&limit=100`);
+export interface ListPage<T> {
+    items: T[];
+    offset: number;
+    total: number;
+}
 
-    if (!response.ok) {
-        throw new Error('Failed to get album tracks');
+export type TrackPage = ListPage<TidalTrack>;
+
+// Maximum page size accepted by the Tidal v1 listing endpoints
+const PAGE_LIMIT = 100;
+
+/**
+ * Iterate over a paginated Tidal listing using offset/totalNumberOfItems
+ * @param path - API path without query string (e.g. /api/albums/123/tracks)
+ * @param errorMessage - Error thrown when a page request fails
+ * @param mapItems - Converts the raw page response into items
+ * @param extraParams - Additional query parameters sent with every page
+ * @param signal - Aborts the pending page request
+ */
+async function* paginateItems<T>(
+    path: string,
+    errorMessage: string,
+    mapItems: (data: Record<string, unknown>) => T[],
+    extraParams: Record<string, string> = {},
+    signal?: AbortSignal
+): AsyncGenerator<ListPage<T>> {
+    let offset = 0;
+
+    while (true) {
+        const params = new URLSearchParams({
+            ...extraParams,
+            countryCode: 'US',
+            limit: PAGE_LIMIT.toString(),
+            offset: offset.toString(),
+        });
+        const response = await fetchWithAuth(`${path}?${params}`, { signal });
+
+        if (!response.ok) {
+            throw new Error(errorMessage);
+        }
+
+        const data = await response.json();
+        const items = mapItems(data);
+        const total = typeof data.totalNumberOfItems === 'number' ? data.totalNumberOfItems : offset + items.length;
+
+        yield { items, offset, total };
+
+        // `limit` counts raw items, so advance by the page size the API reports
+        const rawCount = Array.isArray(data.items) ? data.items.length : items.length;
+        offset += rawCount;
+
+        if (rawCount === 0 || offset >= total) {
+            break;
+        }
     }
+}
 
-    const data = await response.json();
-    return data.items;
+/**
+ * Iterate over album tracks page by page
+ */
+export function paginateAlbumTracks(albumId: string | number, signal?: AbortSignal): AsyncGenerator<TrackPage> {
+    return paginateItems(`/api/albums/${albumId}/tracks`, 'Failed to get album tracks', (data) => {
+        return Array.isArray(data.items) ? data.items as TidalTrack[] : [];
+    }, {}, signal);
 }
 
 /**
- * Get playlist tracks
+ * Iterate over playlist tracks page by page
  */
-export async function getPlaylistTracks(playlistId: string): Promise<TidalTrack[]> {
-    const response = await fetchWithAuth(`/api/playlists/${playlistId}/tracks?countryCode=US&limit=100`);
+export function paginatePlaylistTracks(playlistId: string, signal?: AbortSignal): AsyncGenerator<TrackPage> {
+    return paginateItems(`/api/playlists/${playlistId}/tracks`, 'Failed to get playlist tracks', (data) => {
+        // Handle different response structures
+        let items = data.items as unknown[] | undefined;
+        const nested = data.tracks as { items?: unknown[] } | undefined;
+        if (!items && nested?.items) {
+            items = nested.items;
+        }
+
+        if (!items || !Array.isArray(items)) {
+            console.error('Unexpected playlist response structure:', data);
+            return [];
+        }
+
+        // Map items - handle both direct track objects and nested {item: track} structure
+        return items
+            .map((item) => {
+                const entry = item as TidalTrack | { item?: TidalTrack };
+                if ('item' in entry && entry.item) {
+                    return entry.item;
+                }
+                // Direct track object
+                if ('id' in entry && 'title' in entry) {
+                    return entry as TidalTrack;
+                }
+                return undefined;
+            })
+            .filter((track): track is TidalTrack => track !== undefined && track !== null);
+    }, {}, signal);
+}
+
+/**
+ * Map a mixed `/items` listing into typed media items
+ * Items of unsupported types (e.g. cuts) are dropped
+ */
+function mapMediaItems(data: Record<string, unknown>): MediaItem[] {
+    const items = Array.isArray(data.items) ? data.items : [];
+    const mapped: MediaItem[] = [];
+
+    for (const entry of items as Array<{ item?: TidalTrack | TidalVideo; type?: string }>) {
+        if (!entry?.item) continue;
+        if (entry.type === 'video') {
+            mapped.push({ type: 'video', item: entry.item as TidalVideo });
+        } else if (entry.type === 'track') {
+            mapped.push({ type: 'track', item: entry.item as TidalTrack });
+        }
+    }
+
+    return mapped;
+}
+
+/**
+ * Iterate over album tracks and videos page by page
+ */
+export function paginateAlbumItems(albumId: string | number, signal?: AbortSignal): AsyncGenerator<ListPage<MediaItem>> {
+    return paginateItems(`/api/albums/${albumId}/items`, 'Failed to get album items', mapMediaItems, {}, signal);
+}
+
+/**
+ * Iterate over playlist tracks and videos page by page
+ */
+export function paginatePlaylistItems(playlistId: string, signal?: AbortSignal): AsyncGenerator<ListPage<MediaItem>> {
+    return paginateItems(`/api/playlists/${playlistId}/items`, 'Failed to get playlist items', mapMediaItems, {}, signal);
+}
+
+/**
+ * Get mix info by ID
+ * Mixes have no v1 metadata endpoint, so the title comes from the mix page
+ */
+export async function getMix(mixId: string, signal?: AbortSignal): Promise<TidalMix> {
+    const response = await fetchWithAuth(`/api/pages/mix?mixId=${mixId}&countryCode=US&deviceType=BROWSER`, { signal });
 
     if (!response.ok) {
-        throw new Error('Failed to get playlist tracks');
+        throw new Error('Failed to get mix');
     }
 
     const data = await response.json();
 
-    // Handle different response structures
-    let items = data.items;
-    if (!items && data.tracks?.items) {
-        items = data.tracks.items;
+    return {
+        id: mixId,
+        title: data.title || `Mix ${mixId}`,
+        subTitle: data.rows?.[0]?.modules?.[0]?.mix?.subTitle,
+    };
+}
+
+/**
+ * Iterate over mix tracks and videos page by page
+ */
+export function paginateMixItems(mixId: string, signal?: AbortSignal): AsyncGenerator<ListPage<MediaItem>> {
+    return paginateItems(`/api/mixes/${mixId}/items`, 'Failed to get mix items', mapMediaItems, {}, signal);
+}
+
+/**
+ * Get all tracks and videos of a mix
+ */
+export async function getMixItems(mixId: string): Promise<MediaItem[]> {
+    return collectItems(paginateMixItems(mixId));
+}
+
+/**
+ * Collect every page of a paginated listing into a single array
+ * @param onPage - Called after each page with the number of items fetched so far
+ */
+export async function collectItems<T>(
+    pages: AsyncGenerator<ListPage<T>>,
+    onPage?: (fetched: number, total: number) => void
+): Promise<T[]> {
+    const items: T[] = [];
+    for await (const page of pages) {
+        items.push(...page.items);
+        onPage?.(items.length, page.total);
     }
+    return items;
+}
 
-    if (!items || !Array.isArray(items)) {
-        console.error('Unexpected playlist response structure:', data);
-        return [];
+/**
+ * Get artist info by ID
+ */
+export async function getArtist(artistId: string | number, signal?: AbortSignal): Promise<TidalArtist> {
+    const response = await fetchWithAuth(`/api/artists/${artistId}?countryCode=US`, { signal });
+
+    if (!response.ok) {
+        throw new Error('Failed to get artist');
     }
 
-    // Map items - handle both direct track objects and nested {item: track} structure
-    const tracks = items
-        .map((item: TidalTrack | { item?: TidalTrack }) => {
-            if ('item' in item && item.item) {
-                return item.item;
-            }
-            // Direct track object
-            if ('id' in item && 'title' in item) {
-                return item as TidalTrack;
-            }
-            return undefined;
-        })
-        .filter((track: TidalTrack | undefined): track is TidalTrack => track !== undefined && track !== null);
+    return response.json();
+}
+
+/**
+ * Iterate over an artist's releases of one release group page by page
+ */
+export function paginateArtistAlbums(artistId: string | number, filter: ArtistReleaseFilter, signal?: AbortSignal): AsyncGenerator<ListPage<TidalAlbum>> {
+    return paginateItems(`/api/artists/${artistId}/albums`, 'Failed to get artist albums', (data) => {
+        const items = Array.isArray(data.items) ? data.items as TidalAlbum[] : [];
+        // The endpoint doesn't always set `type` for compilations
+        return filter === 'COMPILATIONS'
+            ? items.map(album => ({ ...album, type: album.type || 'COMPILATION' }))
+            : items;
+    }, { filter }, signal);
+}
 
-    return tracks;
+/**
+ * Get all of an artist's releases for the given release groups
+ */
+export async function getArtistAlbums(
+    artistId: string | number,
+    filters: ArtistReleaseFilter[] = ['ALBUMS', 'EPSANDSINGLES', 'COMPILATIONS'],
+    signal?: AbortSignal
+): Promise<TidalAlbum[]> {
+    const albums: TidalAlbum[] = [];
+    for (const filter of filters) {
+        for await (const page of paginateArtistAlbums(artistId, filter, signal)) {
+            albums.push(...page.items);
+        }
+    }
+    return albums;
+}
+
+/**
+ * Get album tracks
+ */
+export async function getAlbumTracks(albumId: string | number): Promise<TidalTrack[]> {
+    return collectItems(paginateAlbumTracks(albumId));
+}
+
+/**
+ * Get playlist tracks
+ */
+export async function getPlaylistTracks(playlistId: string): Promise<TidalTrack[]> {
+    return collectItems(paginatePlaylistTracks(playlistId));
 }
 
 /**
  * Get stream URL for a track
  */
-export async function getStreamInfo(trackId: string | number): Promise<StreamInfo> {
+export async function getStreamInfo(trackId: string | number, signal?: AbortSignal): Promise<StreamInfo> {
     const settings = getSettings();
     const quality = settings.quality_audio;
     const workerUrl = getWorkerUrl();
@@ -255,6 +507,7 @@ export async function getStreamInfo(trackId: string | number): Promise<StreamInf
         headers: {
             'Authorization': `Bearer ${token}`,
         },
+        signal,
     });
 
     if (!response.ok) {
@@ -363,7 +616,7 @@ export async function getStreamInfo(trackId: string | number): Promise<StreamInf
  * Uses the Atmos-specific access token obtained via token swap.
  * The Atmos client credentials are required to get E-AC-3 JOC streams.
  */
-export async function getStreamInfoAtmos(trackId: string | number): Promise<StreamInfo> {
+export async function getStreamInfoAtmos(trackId: string | number, signal?: AbortSignal): Promise<StreamInfo> {
     const { getValidAtmosToken } = await import('./auth');
 
     const workerUrl = getWorkerUrl();
@@ -377,6 +630,7 @@ export async function getStreamInfoAtmos(trackId: string | number): Promise<Stre
         headers: {
             'Authorization': `Bearer ${token}`,
         },
+        signal,
     });
 
     if (!response.ok) {
@@ -416,6 +670,68 @@ export async function getStreamInfoAtmos(trackId: string | number): Promise<Stre
     };
 }
 
+/**
+ * Get video info by ID
+ */
+export async function getVideo(videoId: string | number, signal?: AbortSignal): Promise<TidalVideo> {
+    const response = await fetchWithAuth(`/api/videos/${videoId}?countryCode=US`, { signal });
+
+    if (!response.ok) {
+        throw new Error('Failed to get video');
+    }
+
+    return response.json();
+}
+
+/**
+ * Get the HLS manifest URL for a video
+ * Resolution selection happens client-side from the master playlist variants
+ */
+export async function getVideoStreamInfo(videoId: string | number, signal?: AbortSignal): Promise<VideoStreamInfo> {
+    const workerUrl = getWorkerUrl();
+    const token = await getValidToken();
+
+    if (!token) {
+        throw new Error('Not authenticated');
+    }
+
+    const response = await fetch(`${workerUrl}/stream-video?videoId=${videoId}&quality=HIGH`, {
+        headers: {
+            'Authorization': `Bearer ${token}`,
+        },
+        signal,
+    });
+
+    if (!response.ok) {
+        throw new Error('Failed to get video stream URL');
+    }
+
+    const data = await response.json();
+
+    // EMU manifest - base64 encoded JSON pointing at an HLS master playlist
+    let manifestUrl = '';
+    if (data.manifestMimeType === 'application/vnd.tidal.emu') {
+        try {
+            const manifestJson = JSON.parse(atob(data.manifest));
+            manifestUrl = (manifestJson.urls?.[0] || '').replace('http://', 'https://');
+        } catch (e) {
+            console.error('Failed to decode video manifest:', e);
+        }
+    } else {
+        console.warn('Unexpected video manifest type:', data.manifestMimeType);
+    }
+
+    if (!manifestUrl) {
+        throw new Error('Could not get video stream URL');
+    }
+
+    return {
+        videoId: data.videoId,
+        videoQuality: data.videoQuality,
+        manifestUrl,
+    };
+}
+
 /**
  * Parse a Tidal URL and extract media type and ID
  */
@@ -426,6 +742,7 @@ export function parseTidalUrl(url: string): { type: string; id: string } | null
         { regex: /tidal\.com\/(?:browse\/)?playlist\/([a-f0-9-]+)/i, type: 'playlist' },
         { regex: /tidal\.com\/(?:browse\/)?video\/(\d+)/i, type: 'video' },
         { regex: /tidal\.com\/(?:browse\/)?artist\/(\d+)/i, type: 'artist' },
+        { regex: /tidal\.com\/(?:browse\/)?mix\/([a-f0-9]+)/i, type: 'mix' },
     ];
 
     for (const pattern of patterns) {
@@ -441,24 +758,22 @@ export function parseTidalUrl(url: string): { type: string; id: string } | null
 /**
  * Get lyrics for a track
  */
-export async function getLyrics(trackId: string | number): Promise<string | null> {
+export async function getLyrics(trackId: string | number, signal?: AbortSignal): Promise<TidalLyrics | null> {
     try {
-        const response = await fetchWithAuth(`/api/tracks/${trackId}/lyrics?countryCode=US`);
+        const response = await fetchWithAuth(`/api/tracks/${trackId}/lyrics?countryCode=US`, { signal });
 
         if (!response.ok) {
-
             return null;
         }
 
         const data = await response.json();
 
-        // Tidal returns lyrics in 'subtitles' for synced lyrics (LRC format) or 'lyrics' for plain text
-        const lyrics = data.subtitles || data.lyrics || null;
-        if (lyrics) {
-
-        }
-        return lyrics;
+        // Tidal returns lyrics in 'subtitles' for synced lyrics (LRC format) and 'lyrics' for plain text
+        const lyrics: TidalLyrics = { subtitles: data.subtitles || null, lyrics: data.lyrics || null };
+        return lyrics.subtitles || lyrics.lyrics ? lyrics : null;
     } catch (e) {
+        // Cancellation must reach the caller instead of looking like missing lyrics
+        if (signal?.aborted) throw e;
         console.warn('Failed to fetch lyrics:', e);
         return null;
     }
@@ -0,0 +1,319 @@
+import { describe, expect, it } from 'vitest';
+import {
+    centralDirectoryHeader,
+    CentralEntry,
+    crc32,
+    createZipWriter,
+    endOfCentralDirectory,
+    localFileHeader,
+    ZipSink,
+} from './zip-writer';
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+/**
+ * Sink that keeps the written chunks for inspection
+ */
+function createTestSink(): ZipSink & { bytes(): Uint8Array } {
+    const chunks: Uint8Array[] = [];
+    return {
+        write: async (chunk) => {
+            chunks.push(chunk.slice());
+        },
+        close: async () => new Blob(chunks as BlobPart[]),
+        abort: async () => {
+            chunks.length = 0;
+        },
+        bytes: () => {
+            const total = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+            const out = new Uint8Array(total);
+            let pos = 0;
+            for (const chunk of chunks) {
+                out.set(chunk, pos);
+                pos += chunk.length;
+            }
+            return out;
+        },
+    };
+}
+
+function viewOf(bytes: Uint8Array): DataView {
+    return new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+}
+
+function getUint64(view: DataView, offset: number): number {
+    return view.getUint32(offset, true) + view.getUint32(offset + 4, true) * 0x100000000;
+}
+
+interface ParsedCentralEntry {
+    name: string;
+    versionNeeded: number;
+    flags: number;
+    crc: number;
+    compressedSize: number;
+    size: number;
+    extraLength: number;
+    offset: number;
+}
+
+/**
+ * Read the end record and the central directory of a classic (non-ZIP64) archive
+ */
+function readCentralDirectory(bytes: Uint8Array): { count: number; cdOffset: number; cdSize: number; entries: ParsedCentralEntry[] } {
+    const view = viewOf(bytes);
+    const end = bytes.length - 22;
+    expect(view.getUint32(end, true)).toBe(0x06054b50);
+
+    const count = view.getUint16(end + 10, true);
+    const cdSize = view.getUint32(end + 12, true);
+    const cdOffset = view.getUint32(end + 16, true);
+
+    const entries: ParsedCentralEntry[] = [];
+    let pos = cdOffset;
+    for (let i = 0; i < count; i++) {
+        expect(view.getUint32(pos, true)).toBe(0x02014b50);
+        const nameLength = view.getUint16(pos + 28, true);
+        const extraLength = view.getUint16(pos + 30, true);
+        entries.push({
+            name: decoder.decode(bytes.subarray(pos + 46, pos + 46 + nameLength)),
+            versionNeeded: view.getUint16(pos + 6, true),
+            flags: view.getUint16(pos + 8, true),
+            crc: view.getUint32(pos + 16, true),
+            compressedSize: view.getUint32(pos + 20, true),
+            size: view.getUint32(pos + 24, true),
+            extraLength,
+            offset: view.getUint32(pos + 42, true),
+        });
+        pos += 46 + nameLength + extraLength;
+    }
+    expect(pos).toBe(cdOffset + cdSize);
+
+    return { count, cdOffset, cdSize, entries };
+}
+
+const entry = (overrides: Partial<CentralEntry>): CentralEntry => ({
+    name: encoder.encode('big.bin'),
+    crc: 0x12345678,
+    size: 10,
+    offset: 0,
+    time: 0,
+    date: 0,
+    ...overrides,
+});
+
+describe('crc32', () => {
+    it.each([
+        ['', 0x00000000],
+        ['a', 0xE8B7BE43],
+        ['123456789', 0xCBF43926],
+        ['The quick brown fox jumps over the lazy dog', 0x414FA339],
+    ])('crc32(%j) = %i', (input, expected) => {
+        expect(crc32(encoder.encode(input))).toBe(expected);
+    });
+
+    it('returns an unsigned value', () => {
+        expect(crc32(new Uint8Array([0xFF, 0xFF, 0xFF, 0xFF]))).toBe(0xFFFFFFFF);
+    });
+});
+
+describe('createZipWriter', () => {
+    it('writes a local header followed directly by the stored data', async () => {
+        const sink = createTestSink();
+        const writer = createZipWriter(sink);
+        const data = encoder.encode('hello');
+        await writer.addFile('a/hello.txt', data, new Date(2024, 0, 2, 3, 4, 6));
+        await writer.addFile('b.txt', encoder.encode('second'));
+        await writer.finish();
+
+        const bytes = sink.bytes();
+        const view = viewOf(bytes);
+        expect(view.getUint32(0, true)).toBe(0x04034b50);
+        expect(view.getUint16(4, true)).toBe(20);
+        // UTF-8 names; bit 3 stays clear since sizes and CRC are known up front (no data descriptor)
+        expect(view.getUint16(6, true)).toBe(0x0800);
+        expect(view.getUint16(8, true)).toBe(0);
+        expect(view.getUint16(10, true)).toBe((3 << 11) | (4 << 5) | 3);
+        expect(view.getUint16(12, true)).toBe(((2024 - 1980) << 9) | (1 << 5) | 2);
+        expect(view.getUint32(14, true)).toBe(crc32(data));
+        expect(view.getUint32(18, true)).toBe(5);
+        expect(view.getUint32(22, true)).toBe(5);
+        expect(view.getUint16(26, true)).toBe('a/hello.txt'.length);
+        expect(view.getUint16(28, true)).toBe(0);
+        expect(decoder.decode(bytes.subarray(30, 41))).toBe('a/hello.txt');
+        expect(decoder.decode(bytes.subarray(41, 46))).toBe('hello');
+        // The next entry's header follows the data without a data descriptor in between
+        expect(view.getUint32(46, true)).toBe(0x04034b50);
+    });
+
+    it('lists every entry in the central directory with its offset, CRC and sizes', async () => {
+        const sink = createTestSink();
+        const writer = createZipWriter(sink);
+        const files = [['one.flac', 'first file'], ['Album/two.flac', 'second'], ['Album/cover.jpg', '']] as const;
+        for (const [path, text] of files) {
+            await writer.addFile(path, encoder.encode(text));
+        }
+        await writer.finish();
+
+        const bytes = sink.bytes();
+        const { count, cdOffset, cdSize, entries } = readCentralDirectory(bytes);
+        expect(count).toBe(3);
+        expect(bytes.length).toBe(cdOffset + cdSize + 22);
+
+        let offset = 0;
+        files.forEach(([path, text], i) => {
+            const data = encoder.encode(text);
+            expect(entries[i]).toEqual({
+                name: path,
+                versionNeeded: 20,
+                flags: 0x0800,
+                crc: crc32(data),
+                compressedSize: data.length,
+                size: data.length,
+                extraLength: 0,
+                offset,
+            });
+            offset += 30 + encoder.encode(path).length + data.length;
+        });
+        expect(cdOffset).toBe(offset);
+
+        // No ZIP64 records for a small archive
+        expect(viewOf(bytes).getUint32(bytes.length - 22 - 20, true)).not.toBe(0x07064b50);
+    });
+
+    it('numbers duplicate paths instead of writing the same entry name twice', async () => {
+        const sink = createTestSink();
+        const writer = createZipWriter(sink);
+        const paths = ['Album/01 Track.flac', 'Album/01 Track.flac', 'Album/01 Track.flac', 'v1.0/README', 'v1.0/README', '.hidden', '.hidden'];
+        for (const path of paths) {
+            await writer.addFile(path, encoder.encode(path));
+        }
+        await writer.finish();
+
+        const names = readCentralDirectory(sink.bytes()).entries.map(item => item.name);
+        expect(names).toEqual([
+            'Album/01 Track.flac',
+            'Album/01 Track (2).flac',
+            'Album/01 Track (3).flac',
+            'v1.0/README',
+            'v1.0/README (2)',
+            '.hidden',
+            '.hidden (2)',
+        ]);
+        expect(writer.hasFile('Album/01 Track (3).flac')).toBe(true);
+        expect(writer.hasFile('Album/01 Track (4).flac')).toBe(false);
+    });
+
+    it('rejects files added after finish', async () => {
+        const writer = createZipWriter(createTestSink());
+        await writer.finish();
+        await expect(writer.addFile('late.txt', new Uint8Array(1))).rejects.toThrow();
+    });
+
+    it('adds the ZIP64 end record and locator once the entry count reaches 65535', async () => {
+        const sink = createTestSink();
+        const writer = createZipWriter(sink);
+        const total = 0xFFFF;
+        const data = new Uint8Array(0);
+        for (let i = 0; i < total; i++) {
+            await writer.addFile(String(i), data);
+        }
+        await writer.finish();
+
+        const bytes = sink.bytes();
+        const view = viewOf(bytes);
+        const end = bytes.length - 22;
+        const locator = end - 20;
+        const zip64End = locator - 56;
+
+        expect(view.getUint32(end, true)).toBe(0x06054b50);
+        expect(view.getUint16(end + 8, true)).toBe(0xFFFF);
+        expect(view.getUint16(end + 10, true)).toBe(0xFFFF);
+
+        expect(view.getUint32(locator, true)).toBe(0x07064b50);
+        expect(getUint64(view, locator + 8)).toBe(zip64End);
+        expect(view.getUint32(locator + 16, true)).toBe(1);
+
+        expect(view.getUint32(zip64End, true)).toBe(0x06064b50);
+        expect(getUint64(view, zip64End + 4)).toBe(44);
+        expect(view.getUint16(zip64End + 12, true)).toBe(45);
+        expect(getUint64(view, zip64End + 24)).toBe(total);
+        expect(getUint64(view, zip64End + 32)).toBe(total);
+        const cdSize = getUint64(view, zip64End + 40);
+        const cdOffset = getUint64(view, zip64End + 48);
+        expect(cdOffset + cdSize).toBe(zip64End);
+        expect(view.getUint32(cdOffset, true)).toBe(0x02014b50);
+    });
+});
+
+describe('ZIP64 records', () => {
+    const large = 0x100000000 + 5;
+
+    it('moves sizes of 4 GiB and more into the local ZIP64 extra field', () => {
+        const header = localFileHeader(entry({ size: large }));
+        const view = viewOf(header);
+        const extra = 30 + 7;
+
+        expect(view.getUint16(4, true)).toBe(45);
+        expect(view.getUint32(18, true)).toBe(0xFFFFFFFF);
+        expect(view.getUint32(22, true)).toBe(0xFFFFFFFF);
+        expect(view.getUint16(28, true)).toBe(20);
+        expect(view.getUint16(extra, true)).toBe(0x0001);
+        expect(view.getUint16(extra + 2, true)).toBe(16);
+        expect(getUint64(view, extra + 4)).toBe(large);
+        expect(getUint64(view, extra + 12)).toBe(large);
+        expect(header.length).toBe(extra + 20);
+    });
+
+    it('keeps the local header classic below 4 GiB', () => {
+        const view = viewOf(localFileHeader(entry({ size: 0xFFFFFFFE })));
+        expect(view.getUint16(4, true)).toBe(20);
+        expect(view.getUint32(18, true)).toBe(0xFFFFFFFE);
+        expect(view.getUint16(28, true)).toBe(0);
+    });
+
+    it('only includes the overflowing fields in the central ZIP64 extra field', () => {
+        const sizeAndOffset = viewOf(centralDirectoryHeader(entry({ size: large, offset: large + 1 })));
+        const extra = 46 + 7;
+        expect(sizeAndOffset.getUint16(6, true)).toBe(45);
+        expect(sizeAndOffset.getUint32(20, true)).toBe(0xFFFFFFFF);
+        expect(sizeAndOffset.getUint32(24, true)).toBe(0xFFFFFFFF);
+        expect(sizeAndOffset.getUint32(42, true)).toBe(0xFFFFFFFF);
+        expect(sizeAndOffset.getUint16(30, true)).toBe(28);
+        expect(sizeAndOffset.getUint16(extra + 2, true)).toBe(24);
+        expect(getUint64(sizeAndOffset, extra + 4)).toBe(large);
+        expect(getUint64(sizeAndOffset, extra + 12)).toBe(large);
+        expect(getUint64(sizeAndOffset, extra + 20)).toBe(large + 1);
+
+        const offsetOnly = viewOf(centralDirectoryHeader(entry({ offset: large })));
+        expect(offsetOnly.getUint32(20, true)).toBe(10);
+        expect(offsetOnly.getUint32(42, true)).toBe(0xFFFFFFFF);
+        expect(offsetOnly.getUint16(30, true)).toBe(12);
+        expect(offsetOnly.getUint16(extra + 2, true)).toBe(8);
+        expect(getUint64(offsetOnly, extra + 4)).toBe(large);
+    });
+
+    it('adds the ZIP64 end record when the central directory starts past 4 GiB', () => {
+        const record = endOfCentralDirectory(3, large, 200);
+        const view = viewOf(record);
+
+        expect(record.length).toBe(56 + 20 + 22);
+        expect(view.getUint32(0, true)).toBe(0x06064b50);
+        expect(getUint64(view, 24)).toBe(3);
+        expect(getUint64(view, 40)).toBe(200);
+        expect(getUint64(view, 48)).toBe(large);
+        expect(view.getUint32(56, true)).toBe(0x07064b50);
+        expect(getUint64(view, 64)).toBe(large + 200);
+
+        expect(view.getUint32(76, true)).toBe(0x06054b50);
+        expect(view.getUint16(76 + 10, true)).toBe(3);
+        expect(view.getUint32(76 + 12, true)).toBe(200);
+        expect(view.getUint32(76 + 16, true)).toBe(0xFFFFFFFF);
+    });
+
+    it('writes only the classic end record below the limits', () => {
+        const record = endOfCentralDirectory(0xFFFE, 1000, 200);
+        expect(record.length).toBe(22);
+        expect(viewOf(record).getUint32(0, true)).toBe(0x06054b50);
+    });
+});
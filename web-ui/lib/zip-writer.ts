@@ -0,0 +1,357 @@
+/**
+ * Streaming ZIP writer (STORE mode, no compression)
+ *
+ * Audio and video are already compressed, so entries are stored as-is and written
+ * to the sink as soon as they're added, instead of being buffered until the end.
+ * ZIP64 records are emitted automatically once an entry, offset or the entry count
+ * exceeds the classic ZIP limits (4 GB / 65535 entries).
+ *
+ * Archive Layout:
+ * [local header 1][data 1] ... [local header n][data n]
+ * [central directory] [ZIP64 end record + locator (if needed)] [end of central directory]
+ */
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const ZIP64_END_SIGNATURE = 0x06064b50;
+const ZIP64_LOCATOR_SIGNATURE = 0x07064b50;
+const END_SIGNATURE = 0x06054b50;
+
+const ZIP32_MAX = 0xFFFFFFFF;
+const ZIP16_MAX = 0xFFFF;
+const UTF8_FLAG = 0x0800;
+const VERSION_DEFAULT = 20;
+const VERSION_ZIP64 = 45;
+
+const OPFS_TEMP_DIR = 'zip-temp';
+// Temp archives are kept for a while so a pending browser download can still read them
+const OPFS_TEMP_MAX_AGE = 60 * 60 * 1000;
+
+/**
+ * Destination for archive bytes
+ */
+export interface ZipSink {
+    write(chunk: Uint8Array): Promise<void>;
+    /** Finish writing and return the archive (disk-backed where possible) */
+    close(): Promise<Blob>;
+    /** Discard a partially written archive */
+    abort(): Promise<void>;
+}
+
+export interface ZipWriter {
+    /** Add an entry; a path already in the archive gets a " (2)", " (3)", ... suffix */
+    addFile(path: string, data: Uint8Array, modified?: Date): Promise<void>;
+    hasFile(path: string): boolean;
+    /** Write the central directory; no files can be added afterwards */
+    finish(): Promise<void>;
+}
+
+export interface CentralEntry {
+    name: Uint8Array;
+    crc: number;
+    size: number;
+    offset: number;
+    time: number;
+    date: number;
+}
+
+let crcTable: Uint32Array | null = null;
+
+/**
+ * CRC-32 (IEEE 802.3) as required by the ZIP format
+ */
+export function crc32(data: Uint8Array): number {
+    if (!crcTable) {
+        crcTable = new Uint32Array(256);
+        for (let n = 0; n < 256; n++) {
+            let c = n;
+            for (let k = 0; k < 8; k++) {
+                c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+            }
+            crcTable[n] = c >>> 0;
+        }
+    }
+
+    let crc = 0xFFFFFFFF;
+    for (let i = 0; i < data.length; i++) {
+        crc = crcTable[(crc ^ data[i]) & 0xFF] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xFFFFFFFF) >>> 0;
+}
+
+/**
+ * Convert a date to MS-DOS time and date fields
+ */
+function toDosDateTime(date: Date): { time: number; date: number } {
+    const year = Math.max(date.getFullYear(), 1980);
+    return {
+        time: (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1),
+        date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+    };
+}
+
+/**
+ * Write a 64-bit little-endian integer (values up to 2^53)
+ */
+function setUint64(view: DataView, offset: number, value: number): void {
+    view.setUint32(offset, value >>> 0, true);
+    view.setUint32(offset + 4, Math.floor(value / 0x100000000), true);
+}
+
+/**
+ * Build a ZIP64 extended information extra field
+ */
+function zip64Extra(values: number[]): Uint8Array {
+    const extra = new Uint8Array(4 + values.length * 8);
+    const view = new DataView(extra.buffer);
+    view.setUint16(0, 0x0001, true);
+    view.setUint16(2, values.length * 8, true);
+    values.forEach((value, i) => setUint64(view, 4 + i * 8, value));
+    return extra;
+}
+
+/**
+ * Build the local file header for a stored entry
+ */
+export function localFileHeader(entry: CentralEntry): Uint8Array {
+    const isZip64 = entry.size >= ZIP32_MAX;
+    const extra = isZip64 ? zip64Extra([entry.size, entry.size]) : new Uint8Array(0);
+    const header = new Uint8Array(30 + entry.name.length + extra.length);
+    const view = new DataView(header.buffer);
+
+    view.setUint32(0, LOCAL_HEADER_SIGNATURE, true);
+    view.setUint16(4, isZip64 ? VERSION_ZIP64 : VERSION_DEFAULT, true);
+    view.setUint16(6, UTF8_FLAG, true);
+    view.setUint16(8, 0, true); // STORE
+    view.setUint16(10, entry.time, true);
+    view.setUint16(12, entry.date, true);
+    view.setUint32(14, entry.crc, true);
+    view.setUint32(18, isZip64 ? ZIP32_MAX : entry.size, true);
+    view.setUint32(22, isZip64 ? ZIP32_MAX : entry.size, true);
+    view.setUint16(26, entry.name.length, true);
+    view.setUint16(28, extra.length, true);
+    header.set(entry.name, 30);
+    header.set(extra, 30 + entry.name.length);
+
+    return header;
+}
+
+/**
+ * Build the central directory record for an entry
+ * ZIP64 values are only included for fields that overflow
+ */
+export function centralDirectoryHeader(entry: CentralEntry): Uint8Array {
+    const zip64Values: number[] = [];
+    if (entry.size >= ZIP32_MAX) zip64Values.push(entry.size, entry.size);
+    if (entry.offset >= ZIP32_MAX) zip64Values.push(entry.offset);
+
+    const extra = zip64Values.length > 0 ? zip64Extra(zip64Values) : new Uint8Array(0);
+    const header = new Uint8Array(46 + entry.name.length + extra.length);
+    const view = new DataView(header.buffer);
+
+    view.setUint32(0, CENTRAL_HEADER_SIGNATURE, true);
+    view.setUint16(4, VERSION_ZIP64, true);
+    view.setUint16(6, extra.length > 0 ? VERSION_ZIP64 : VERSION_DEFAULT, true);
+    view.setUint16(8, UTF8_FLAG, true);
+    view.setUint16(10, 0, true); // STORE
+    view.setUint16(12, entry.time, true);
+    view.setUint16(14, entry.date, true);
+    view.setUint32(16, entry.crc, true);
+    view.setUint32(20, Math.min(entry.size, ZIP32_MAX), true);
+    view.setUint32(24, Math.min(entry.size, ZIP32_MAX), true);
+    view.setUint16(28, entry.name.length, true);
+    view.setUint16(30, extra.length, true);
+    // Comment length, disk number and attributes stay 0
+    view.setUint32(42, Math.min(entry.offset, ZIP32_MAX), true);
+    header.set(entry.name, 46);
+    header.set(extra, 46 + entry.name.length);
+
+    return header;
+}
+
+/**
+ * Build the end of central directory records
+ * ZIP64 end record and locator are prepended when any classic field overflows
+ */
+export function endOfCentralDirectory(count: number, cdOffset: number, cdSize: number): Uint8Array {
+    const isZip64 = count >= ZIP16_MAX || cdOffset >= ZIP32_MAX || cdSize >= ZIP32_MAX;
+    const record = new Uint8Array((isZip64 ? 56 + 20 : 0) + 22);
+    const view = new DataView(record.buffer);
+    let pos = 0;
+
+    if (isZip64) {
+        const zip64EndOffset = cdOffset + cdSize;
+
+        view.setUint32(0, ZIP64_END_SIGNATURE, true);
+        setUint64(view, 4, 44); // Size of the remaining record
+        view.setUint16(12, VERSION_ZIP64, true);
+        view.setUint16(14, VERSION_ZIP64, true);
+        setUint64(view, 24, count);
+        setUint64(view, 32, count);
+        setUint64(view, 40, cdSize);
+        setUint64(view, 48, cdOffset);
+
+        view.setUint32(56, ZIP64_LOCATOR_SIGNATURE, true);
+        setUint64(view, 64, zip64EndOffset);
+        view.setUint32(72, 1, true); // Total number of disks
+
+        pos = 76;
+    }
+
+    view.setUint32(pos, END_SIGNATURE, true);
+    view.setUint16(pos + 8, Math.min(count, ZIP16_MAX), true);
+    view.setUint16(pos + 10, Math.min(count, ZIP16_MAX), true);
+    view.setUint32(pos + 12, Math.min(cdSize, ZIP32_MAX), true);
+    view.setUint32(pos + 16, Math.min(cdOffset, ZIP32_MAX), true);
+
+    return record;
+}
+
+/**
+ * Number a path that is already taken, e.g. `Album/01 Track.flac` → `Album/01 Track (2).flac`
+ * Extractors handle duplicate entry names inconsistently, so every entry gets its own.
+ */
+function uniquePath(path: string, taken: Set<string>): string {
+    if (!taken.has(path)) return path;
+
+    const dot = path.lastIndexOf('.');
+    const hasExtension = dot > path.lastIndexOf('/') + 1;
+    const stem = hasExtension ? path.slice(0, dot) : path;
+    const extension = hasExtension ? path.slice(dot) : '';
+
+    for (let n = 2; ; n++) {
+        const candidate = `${stem} (${n})${extension}`;
+        if (!taken.has(candidate)) return candidate;
+    }
+}
+
+/**
+ * Create a ZIP writer that streams entries to a sink as they're added
+ */
+export function createZipWriter(sink: ZipSink): ZipWriter {
+    const encoder = new TextEncoder();
+    const entries: CentralEntry[] = [];
+    const paths = new Set<string>();
+    let offset = 0;
+    let finished = false;
+
+    const write = async (chunk: Uint8Array) => {
+        await sink.write(chunk);
+        offset += chunk.length;
+    };
+
+    return {
+        addFile: async (path, data, modified = new Date()) => {
+            if (finished) {
+                throw new Error('Cannot add files to a finished ZIP archive');
+            }
+
+            const entryPath = uniquePath(path, paths);
+            const entry: CentralEntry = {
+                name: encoder.encode(entryPath),
+                crc: crc32(data),
+                size: data.length,
+                offset,
+                ...toDosDateTime(modified),
+            };
+
+            await write(localFileHeader(entry));
+            await write(data);
+
+            entries.push(entry);
+            paths.add(entryPath);
+        },
+
+        hasFile: (path) => paths.has(path),
+
+        finish: async () => {
+            if (finished) return;
+            finished = true;
+
+            const cdOffset = offset;
+            for (const entry of entries) {
+                await write(centralDirectoryHeader(entry));
+            }
+            await write(endOfCentralDirectory(entries.length, cdOffset, offset - cdOffset));
+        },
+    };
+}
+
+/**
+ * In-memory sink
+ * Each chunk is moved into its own Blob right away, so browsers can page large archives to disk
+ */
+export function createMemoryZipSink(): ZipSink {
+    let parts: Blob[] = [];
+
+    return {
+        write: async (chunk) => {
+            parts.push(new Blob([chunk as BlobPart]));
+        },
+        close: async () => {
+            const blob = new Blob(parts, { type: 'application/zip' });
+            parts = [];
+            return blob;
+        },
+        abort: async () => {
+            parts = [];
+        },
+    };
+}
+
+/**
+ * Sink backed by a FileSystemWritableFileStream in the origin private file system
+ * Returns null where OPFS or createWritable isn't available (e.g. Safari)
+ */
+export async function createOpfsZipSink(): Promise<ZipSink | null> {
+    if (typeof navigator === 'undefined' || !navigator.storage?.getDirectory) return null;
+
+    try {
+        const root = await navigator.storage.getDirectory();
+        const dir = await root.getDirectoryHandle(OPFS_TEMP_DIR, { create: true });
+        await removeStaleArchives(dir);
+
+        const fileName = `${Date.now()}-${Math.random().toString(36).slice(2, 10)}.zip`;
+        const handle = await dir.getFileHandle(fileName, { create: true });
+        if (typeof handle.createWritable !== 'function') return null;
+        const writable = await handle.createWritable();
+
+        return {
+            write: (chunk) => writable.write(chunk as BufferSource),
+            close: async () => {
+                await writable.close();
+                return handle.getFile();
+            },
+            abort: async () => {
+                await writable.abort().catch(() => { });
+                await dir.removeEntry(fileName).catch(() => { });
+            },
+        };
+    } catch (error) {
+        console.warn('OPFS unavailable for ZIP output, buffering in memory:', error);
+        return null;
+    }
+}
+
+/**
+ * Delete temp archives left by earlier downloads
+ */
+async function removeStaleArchives(dir: FileSystemDirectoryHandle): Promise<void> {
+    // keys() comes from the dom.asynciterable lib, which this project doesn't include
+    const names = (dir as unknown as { keys(): AsyncIterable<string> }).keys();
+    const now = Date.now();
+
+    for await (const entryName of names) {
+        const createdAt = parseInt(entryName.split('-')[0], 10);
+        if (!createdAt || now - createdAt > OPFS_TEMP_MAX_AGE) {
+            await dir.removeEntry(entryName).catch(() => { });
+        }
+    }
+}
+
+/**
+ * Create the best available sink: OPFS on disk, otherwise memory
+ */
+export async function createZipSink(): Promise<ZipSink> {
+    return (await createOpfsZipSink()) || createMemoryZipSink();
+}
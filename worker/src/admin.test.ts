@@ -0,0 +1,109 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import worker, { type Env } from './index';
+
+const SECRETS = {
+    TIDAL_CLIENT_SECRET: 'client-secret-value',
+    TIDAL_ATMOS_CLIENT_ID: 'atmos-client-id-value',
+    TIDAL_ATMOS_CLIENT_SECRET: 'atmos-client-secret-value',
+    ADMIN_TOKEN: 'admin-token-value',
+};
+
+function createEnv(overrides: Partial<Env> = {}): Env {
+    return {
+        ALLOWED_ORIGINS: 'http://localhost:3000',
+        TIDAL_CLIENT_ID: 'client-id',
+        ...SECRETS,
+        BUILD_VERSION: 'abc1234',
+        ...overrides,
+    };
+}
+
+const executionContext = {
+    waitUntil() { },
+    passThroughOnException() { },
+} as unknown as ExecutionContext;
+
+function diagnostics(env: Env, authorization?: string): Promise<Response> {
+    const headers: HeadersInit = authorization ? { Authorization: authorization } : {};
+    return worker.fetch(new Request('https://worker.test/admin/diagnostics', { headers }), env, executionContext);
+}
+
+// Workers-only API, missing from Node
+beforeAll(() => {
+    Object.defineProperty(crypto.subtle, 'timingSafeEqual', {
+        configurable: true,
+        value: (a: ArrayBuffer, b: ArrayBuffer) => {
+            const left = new Uint8Array(a);
+            const right = new Uint8Array(b);
+            return left.length === right.length && left.every((byte, i) => byte === right[i]);
+        },
+    });
+});
+
+afterAll(() => {
+    delete (crypto.subtle as { timingSafeEqual?: unknown }).timingSafeEqual;
+});
+
+describe('/admin/diagnostics', () => {
+    beforeEach(() => {
+        vi.stubGlobal('fetch', vi.fn(async () => new Response(null, { status: 200 })));
+    });
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it('does not exist without ADMIN_TOKEN', async () => {
+        const response = await diagnostics(createEnv({ ADMIN_TOKEN: undefined }), `Bearer ${SECRETS.ADMIN_TOKEN}`);
+        expect(response.status).toBe(404);
+        expect(await response.json()).toEqual({ error: 'Not found', code: 'not_found' });
+        expect(fetch).not.toHaveBeenCalled();
+    });
+
+    it('rejects a missing token', async () => {
+        const response = await diagnostics(createEnv());
+        expect(response.status).toBe(401);
+        expect(await response.json()).toMatchObject({ code: 'unauthorized' });
+        expect(fetch).not.toHaveBeenCalled();
+    });
+
+    it('rejects a wrong token', async () => {
+        for (const authorization of ['Bearer admin-token-valu', `Bearer ${SECRETS.ADMIN_TOKEN}x`, SECRETS.ADMIN_TOKEN]) {
+            const response = await diagnostics(createEnv(), authorization);
+            expect(response.status).toBe(401);
+            expect(await response.json()).toMatchObject({ code: 'unauthorized' });
+        }
+        expect(fetch).not.toHaveBeenCalled();
+    });
+
+    it('reports configuration presence without leaking any secret', async () => {
+        vi.mocked(fetch).mockImplementation(async input => {
+            if (String(input).startsWith('https://resources.tidal.com')) throw new TypeError('fetch failed');
+            return new Response(null, { status: 404 });
+        });
+
+        const response = await diagnostics(createEnv({ TIDAL_ATMOS_CLIENT_SECRET: '' }), `bearer ${SECRETS.ADMIN_TOKEN}`);
+        expect(response.status).toBe(200);
+        expect(response.headers.get('Cache-Control')).toBe('no-store');
+
+        const text = await response.text();
+        const headers = [...response.headers].map(([name, value]) => `${name}: ${value}`).join('\n');
+        for (const secret of Object.values(SECRETS)) {
+            expect(text).not.toContain(secret);
+            expect(headers).not.toContain(secret);
+        }
+
+        const body = JSON.parse(text);
+        expect(body.version).toBe('abc1234');
+        expect(body.config).toEqual({
+            ALLOWED_ORIGINS: true,
+            TIDAL_CLIENT_ID: true,
+            TIDAL_CLIENT_SECRET: true,
+            TIDAL_ATMOS_CLIENT_ID: true,
+            TIDAL_ATMOS_CLIENT_SECRET: false,
+        });
+        expect(body.upstream.auth).toMatchObject({ reachable: true, status: 404 });
+        expect(body.upstream.api).toMatchObject({ reachable: true, status: 404 });
+        expect(body.upstream.resources).toMatchObject({ reachable: false, error: 'TypeError' });
+    });
+});
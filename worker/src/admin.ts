@@ -0,0 +1,88 @@
+/**
+ * Admin endpoints, gated by the ADMIN_TOKEN secret (`wrangler secret put ADMIN_TOKEN`)
+ * Responses only ever describe configuration (present or not), never its values.
+ */
+
+import type { Env } from './index';
+import { HttpError, json } from './http';
+import type { RouteContext } from './router';
+
+// Hosts the worker depends on, probed by /admin/diagnostics
+const UPSTREAM_HOSTS = {
+    auth: 'https://auth.tidal.com/v1/oauth2',
+    api: 'https://api.tidal.com/v1',
+    resources: 'https://resources.tidal.com/images',
+};
+
+const UPSTREAM_TIMEOUT = 5000;
+
+// Settings reported by name only
+const CONFIG_KEYS = [
+    'ALLOWED_ORIGINS',
+    'TIDAL_CLIENT_ID',
+    'TIDAL_CLIENT_SECRET',
+    'TIDAL_ATMOS_CLIENT_ID',
+    'TIDAL_ATMOS_CLIENT_SECRET',
+] as const;
+
+interface UpstreamStatus {
+    reachable: boolean;
+    status?: number;
+    latencyMs: number;
+    error?: string;
+}
+
+async function sha256(value: string): Promise<ArrayBuffer> {
+    return crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+}
+
+/**
+ * Check the bearer token against ADMIN_TOKEN in constant time
+ * Without ADMIN_TOKEN the admin endpoints don't exist (404).
+ */
+async function requireAdmin(request: Request, env: Env): Promise<void> {
+    if (!env.ADMIN_TOKEN) {
+        throw new HttpError(404, 'not_found', 'Not found');
+    }
+
+    const match = /^Bearer\s+(.+)$/i.exec(request.headers.get('Authorization') || '');
+    // Hashing first gives equal-length inputs, as timingSafeEqual requires
+    const valid = match !== null && crypto.subtle.timingSafeEqual(await sha256(match[1]), await sha256(env.ADMIN_TOKEN));
+    if (!valid) {
+        throw new HttpError(401, 'unauthorized', 'Invalid admin token');
+    }
+}
+
+/**
+ * Any HTTP response counts as reachable; only network errors and timeouts don't
+ */
+async function probeUpstream(url: string): Promise<UpstreamStatus> {
+    const start = Date.now();
+    try {
+        const response = await fetch(url, { method: 'HEAD', signal: AbortSignal.timeout(UPSTREAM_TIMEOUT) });
+        return { reachable: true, status: response.status, latencyMs: Date.now() - start };
+    } catch (error) {
+        const message = error instanceof Error ? error.name : 'Error';
+        return { reachable: false, latencyMs: Date.now() - start, error: message };
+    }
+}
+
+// Config presence, upstream reachability and build version
+export async function handleDiagnostics({ request, env }: RouteContext<Env, never>): Promise<Response> {
+    await requireAdmin(request, env);
+
+    const config: Record<string, boolean> = {};
+    for (const key of CONFIG_KEYS) {
+        config[key] = Boolean(env[key]);
+    }
+
+    const names = Object.keys(UPSTREAM_HOSTS) as Array<keyof typeof UPSTREAM_HOSTS>;
+    const results = await Promise.all(names.map(name => probeUpstream(UPSTREAM_HOSTS[name])));
+    const upstream = Object.fromEntries(names.map((name, i) => [name, results[i]]));
+
+    return json({
+        version: env.BUILD_VERSION || 'unknown',
+        config,
+        upstream,
+    }, 200, { 'Cache-Control': 'no-store' });
+}
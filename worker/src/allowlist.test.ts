@@ -0,0 +1,137 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { checkApiRequest } from './allowlist';
+import { HttpError } from './http';
+import worker, { type Env } from './index';
+
+const PLAYLIST = '0b1c2d3e-4f50-6172-8394-a5b6c7d8e9f0';
+const PAGE = 'countryCode=US&limit=100&offset=200';
+
+/**
+ * The error checkApiRequest throws for a request, or undefined when it is allowed
+ */
+function check(method: string, target: string): HttpError | undefined {
+    const url = new URL(target, 'https://worker.test');
+    try {
+        checkApiRequest(method, url.pathname, url.searchParams);
+    } catch (error) {
+        expect(error).toBeInstanceOf(HttpError);
+        return error as HttpError;
+    }
+    return undefined;
+}
+
+describe('checkApiRequest', () => {
+    // Every request shape web-ui/lib/tidal-client.ts (and the session check in auth.ts) sends
+    it.each([
+        ['session check', '/sessions'],
+        ['search', '/search?query=daft+punk&limit=10&types=TRACKS%2CALBUMS%2CPLAYLISTS&countryCode=US'],
+        ['track', '/tracks/12345?countryCode=US'],
+        ['lyrics', '/tracks/12345/lyrics?countryCode=US'],
+        ['album', '/albums/678?countryCode=US'],
+        ['album tracks', `/albums/678/tracks?${PAGE}`],
+        ['album items', `/albums/678/items?${PAGE}`],
+        ['playlist', `/playlists/${PLAYLIST}?countryCode=US`],
+        ['playlist tracks', `/playlists/${PLAYLIST}/tracks?${PAGE}`],
+        ['playlist items', `/playlists/${PLAYLIST}/items?${PAGE}`],
+        ['mix page', '/pages/mix?mixId=0123abcdefABCDEF&countryCode=US&deviceType=BROWSER'],
+        ['mix items', `/mixes/0123abcdefABCDEF/items?${PAGE}`],
+        ['artist', '/artists/42?countryCode=US'],
+        ['artist albums', `/artists/42/albums?filter=ALBUMS&${PAGE}`],
+        ['artist EPs and singles', `/artists/42/albums?filter=EPSANDSINGLES&${PAGE}`],
+        ['artist compilations', `/artists/42/albums?filter=COMPILATIONS&${PAGE}`],
+        ['video', '/videos/9876?countryCode=US'],
+    ])('allows %s', (_, target) => {
+        expect(check('GET', target)).toBeUndefined();
+    });
+
+    it.each([
+        ['favorites', '/users/1/favorites/tracks?countryCode=US'],
+        ['playlist edits', `/playlists/${PLAYLIST}/items/0?countryCode=US`],
+        ['non-numeric ids', '/tracks/abc?countryCode=US'],
+        ['path traversal', '/tracks/1/../../users/1?countryCode=US'],
+        ['extra segments', '/tracks/1/lyrics/extra?countryCode=US'],
+        ['malformed playlist ids', '/playlists/not-a-uuid?countryCode=US'],
+        ['the root', '/'],
+    ])('rejects %s with 403', (_, target) => {
+        const error = check('GET', target);
+        expect(error?.status).toBe(403);
+        expect(error?.code).toBe('endpoint_not_allowed');
+    });
+
+    it.each(['POST', 'PUT', 'PATCH', 'DELETE'])('rejects %s with 403', method => {
+        const error = check(method, `/playlists/${PLAYLIST}/items?countryCode=US`);
+        expect(error?.status).toBe(403);
+        expect(error?.code).toBe('method_not_allowed');
+        expect(error?.details).toMatchObject({ allowed: ['GET'] });
+    });
+
+    it.each([
+        ['an unknown param', '/tracks/1?countryCode=US&include=credentials'],
+        ['a param of another endpoint', '/tracks/1?countryCode=US&limit=10'],
+        ['a filter outside artist albums', `/albums/678/items?filter=ALBUMS&${PAGE}`],
+    ])('rejects %s with 403', (_, target) => {
+        const error = check('GET', target);
+        expect(error?.status).toBe(403);
+        expect(error?.code).toBe('query_not_allowed');
+    });
+
+    it.each([
+        ['a duplicate param', '/tracks/1?countryCode=US&countryCode=GB', 'invalid_field'],
+        ['a duplicate page param', `/albums/678/items?${PAGE}&offset=0`, 'invalid_field'],
+        ['a missing country', '/tracks/1', 'missing_field'],
+        ['a malformed country', '/tracks/1?countryCode=usa', 'invalid_field'],
+        ['an unknown release filter', `/artists/42/albums?filter=LIVE&${PAGE}`, 'invalid_field'],
+        ['an oversized limit', '/albums/678/items?countryCode=US&limit=10000', 'invalid_field'],
+        ['a line break in a search', '/search?query=a%0Ab&countryCode=US', 'invalid_field'],
+    ])('rejects %s with 400', (_, target, code) => {
+        const error = check('GET', target);
+        expect(error?.status).toBe(400);
+        expect(error?.code).toBe(code);
+    });
+});
+
+describe('/api/* proxy', () => {
+    const env: Env = {
+        ALLOWED_ORIGINS: 'http://localhost:3000',
+        TIDAL_CLIENT_ID: 'client-id',
+        TIDAL_CLIENT_SECRET: 'client-secret',
+        RATE_LIMIT_API: '0',
+    };
+    const executionContext = { waitUntil() { }, passThroughOnException() { } } as unknown as ExecutionContext;
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it('answers disallowed requests with a 403 envelope without calling Tidal', async () => {
+        vi.stubGlobal('fetch', vi.fn());
+
+        const response = await worker.fetch(new Request(`https://worker.test/api/playlists/${PLAYLIST}/items?countryCode=US`, {
+            method: 'DELETE',
+            headers: { Authorization: 'Bearer user-token' },
+        }), env, executionContext);
+
+        expect(response.status).toBe(403);
+        expect(await response.json()).toEqual({
+            error: 'Method DELETE not allowed for this endpoint',
+            code: 'method_not_allowed',
+            details: { path: `/playlists/${PLAYLIST}/items`, allowed: ['GET'] },
+        });
+        expect(fetch).not.toHaveBeenCalled();
+    });
+
+    it('forwards allowed requests with the caller authorization', async () => {
+        vi.stubGlobal('fetch', vi.fn(async () => new Response('{"items":[]}', { headers: { 'Content-Type': 'application/json' } })));
+
+        const response = await worker.fetch(new Request(`https://worker.test/api/playlists/${PLAYLIST}/items?${PAGE}`, {
+            headers: { Authorization: 'Bearer user-token' },
+        }), env, executionContext);
+
+        expect(response.status).toBe(200);
+        expect(await response.json()).toEqual({ items: [] });
+        expect(fetch).toHaveBeenCalledWith(`https://api.tidal.com/v1/playlists/${PLAYLIST}/items?${PAGE}`, expect.objectContaining({
+            method: 'GET',
+            headers: expect.objectContaining({ Authorization: 'Bearer user-token' }),
+        }));
+    });
+});
@@ -0,0 +1,123 @@
+/**
+ * Allowlist for the /api/* proxy
+ *
+ * Only the read-only Tidal endpoints the web UI calls are forwarded, each with the query params
+ * it may send. Anything else (other paths, other methods, unknown params) gets a structured 403,
+ * so the worker can't be used as an authenticated relay to modify a user's library.
+ */
+
+import { HttpError } from './http';
+import type { FieldRules, Method } from './router';
+
+interface AllowedEndpoint {
+    method: Method;
+    /** Tidal path without the /api prefix; `:name` segments must match PATH_PARAMS[name] */
+    path: string;
+    /** Every query param the endpoint accepts */
+    query: FieldRules;
+}
+
+const PATH_PARAMS: Record<string, RegExp> = {
+    id: /^\d+$/,
+    uuid: /^[0-9a-fA-F-]{36}$/,
+    mixId: /^[0-9a-zA-Z]+$/,
+};
+
+const COUNTRY: FieldRules = {
+    countryCode: { required: true, pattern: /^[A-Z]{2}$/ },
+};
+
+const PAGE: FieldRules = {
+    ...COUNTRY,
+    limit: { pattern: /^\d{1,4}$/ },
+    offset: { pattern: /^\d{1,6}$/ },
+};
+
+export const ALLOWED_ENDPOINTS: AllowedEndpoint[] = [
+    { method: 'GET', path: '/sessions', query: {} },
+    {
+        method: 'GET',
+        path: '/search',
+        query: {
+            ...PAGE,
+            query: { required: true, pattern: /^[^\r\n]{1,200}$/ },
+            types: { pattern: /^[A-Z_]+(,[A-Z_]+)*$/ },
+        },
+    },
+    { method: 'GET', path: '/tracks/:id', query: COUNTRY },
+    { method: 'GET', path: '/tracks/:id/lyrics', query: COUNTRY },
+    { method: 'GET', path: '/albums/:id', query: COUNTRY },
+    { method: 'GET', path: '/albums/:id/tracks', query: PAGE },
+    { method: 'GET', path: '/albums/:id/items', query: PAGE },
+    { method: 'GET', path: '/playlists/:uuid', query: COUNTRY },
+    { method: 'GET', path: '/playlists/:uuid/tracks', query: PAGE },
+    { method: 'GET', path: '/playlists/:uuid/items', query: PAGE },
+    {
+        method: 'GET',
+        path: '/pages/mix',
+        query: {
+            ...COUNTRY,
+            mixId: { required: true, pattern: PATH_PARAMS.mixId },
+            deviceType: { pattern: /^BROWSER$/ },
+        },
+    },
+    { method: 'GET', path: '/mixes/:mixId/items', query: PAGE },
+    { method: 'GET', path: '/artists/:id', query: COUNTRY },
+    {
+        method: 'GET',
+        path: '/artists/:id/albums',
+        query: { ...PAGE, filter: { pattern: /^(ALBUMS|EPSANDSINGLES|COMPILATIONS)$/ } },
+    },
+    { method: 'GET', path: '/videos/:id', query: COUNTRY },
+];
+
+function matchesPath(pattern: string, path: string): boolean {
+    const patternParts = pattern.split('/');
+    const pathParts = path.split('/');
+    if (patternParts.length !== pathParts.length) return false;
+
+    return patternParts.every((part, i) => part.startsWith(':')
+        ? PATH_PARAMS[part.slice(1)].test(pathParts[i])
+        : part === pathParts[i]);
+}
+
+/**
+ * Check a proxied request against the allowlist
+ * @param path - Tidal path without the /api prefix
+ * @throws HttpError 403 for endpoints, methods and params outside the allowlist, 400 for malformed values
+ */
+export function checkApiRequest(method: string, path: string, query: URLSearchParams): void {
+    const endpoints = ALLOWED_ENDPOINTS.filter(endpoint => matchesPath(endpoint.path, path));
+    if (endpoints.length === 0) {
+        throw new HttpError(403, 'endpoint_not_allowed', 'Endpoint not allowed', { path });
+    }
+
+    const endpoint = endpoints.find(candidate => candidate.method === method);
+    if (!endpoint) {
+        throw new HttpError(403, 'method_not_allowed', `Method ${method} not allowed for this endpoint`, {
+            path,
+            allowed: endpoints.map(candidate => candidate.method),
+        });
+    }
+
+    for (const name of new Set(query.keys())) {
+        const rule = endpoint.query[name];
+        if (!rule) {
+            throw new HttpError(403, 'query_not_allowed', `Query parameter ${name} not allowed`, { path, param: name });
+        }
+        if (query.getAll(name).length > 1) {
+            throw new HttpError(400, 'invalid_field', `Invalid ${name}`, { param: name });
+        }
+    }
+
+    for (const [name, rule] of Object.entries(endpoint.query)) {
+        const value = query.get(name);
+        if (value === null || value === '') {
+            if (rule.required) throw new HttpError(400, 'missing_field', `Missing ${name}`, { param: name });
+            continue;
+        }
+        if (rule.pattern && !rule.pattern.test(value)) {
+            throw new HttpError(400, 'invalid_field', `Invalid ${name}`, { param: name });
+        }
+    }
+}
@@ -0,0 +1,149 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import worker, { type Env } from './index';
+import { cached, cacheKey, isCatalogPath } from './cache';
+
+const ORIGIN = 'https://worker.test';
+
+/**
+ * caches.default on an in-memory map keyed by URL, like the Workers Cache API
+ */
+function createCache(): Cache & { entries: Map<string, Response> } {
+    const entries = new Map<string, Response>();
+    return {
+        entries,
+        match: vi.fn(async (key: Request) => entries.get(key.url)?.clone()),
+        put: vi.fn(async (key: Request, response: Response) => {
+            entries.set(key.url, response);
+        }),
+    } as unknown as Cache & { entries: Map<string, Response> };
+}
+
+let cache: ReturnType<typeof createCache>;
+
+// Workers-only API, missing from Node
+beforeEach(() => {
+    cache = createCache();
+    vi.stubGlobal('caches', { default: cache });
+});
+
+afterEach(() => {
+    vi.unstubAllGlobals();
+});
+
+describe('isCatalogPath', () => {
+    it.each([
+        '/albums/1',
+        '/albums/1/tracks',
+        '/artists/2/albums',
+        '/videos/3',
+    ])('caches %s', path => {
+        expect(isCatalogPath(path)).toBe(true);
+    });
+
+    it.each([
+        '/playlists/abc/items',
+        '/tracks/1/playbackinfopostpaywall',
+        '/tracks/1/lyrics',
+    ])('leaves %s uncached', path => {
+        expect(isCatalogPath(path)).toBe(false);
+    });
+});
+
+describe('cacheKey', () => {
+    it('sorts query params so equivalent URLs share a key', async () => {
+        const a = await cacheKey(ORIGIN, '/api/albums/1/tracks', new URLSearchParams('offset=0&countryCode=US&limit=100'));
+        const b = await cacheKey(ORIGIN, '/api/albums/1/tracks', new URLSearchParams('limit=100&countryCode=US&offset=0'));
+
+        expect(a.url).toBe(`${ORIGIN}/api/albums/1/tracks?countryCode=US&limit=100&offset=0`);
+        expect(b.url).toBe(a.url);
+        expect(a.method).toBe('GET');
+    });
+
+    it('scopes keys to a hash of the token, never the token itself', async () => {
+        const query = new URLSearchParams('countryCode=US');
+        const first = await cacheKey(ORIGIN, '/api/albums/1', query, 'Bearer first-token');
+        const again = await cacheKey(ORIGIN, '/api/albums/1', query, 'Bearer first-token');
+        const second = await cacheKey(ORIGIN, '/api/albums/1', query, 'Bearer second-token');
+        const anonymous = await cacheKey(ORIGIN, '/api/albums/1', query);
+
+        expect(again.url).toBe(first.url);
+        expect(new Set([first.url, second.url, anonymous.url]).size).toBe(3);
+        expect(first.url).not.toContain('first-token');
+        expect(anonymous.url).toBe(`${ORIGIN}/api/albums/1?countryCode=US`);
+    });
+});
+
+describe('cached', () => {
+    const waitUntil = (promise: Promise<unknown>) => {
+        void promise;
+    };
+
+    it('loads on a miss and serves the stored response on a hit', async () => {
+        const key = await cacheKey(ORIGIN, '/cover/abc/640');
+        const load = vi.fn(async () => new Response('image', { headers: { 'Set-Cookie': 'session=1' } }));
+
+        const miss = await cached(key, 60, waitUntil, load);
+        expect(miss.headers.get('X-Cache')).toBe('MISS');
+        expect(miss.headers.get('Cache-Control')).toBe('public, max-age=60');
+        expect(await miss.text()).toBe('image');
+
+        const hit = await cached(key, 60, waitUntil, load);
+        expect(hit.headers.get('X-Cache')).toBe('HIT');
+        expect(await hit.text()).toBe('image');
+        expect(load).toHaveBeenCalledOnce();
+    });
+
+    it('never stores cookies', async () => {
+        const key = await cacheKey(ORIGIN, '/cover/abc/640');
+        const response = await cached(key, 60, waitUntil, async () => new Response('image', { headers: { 'Set-Cookie': 'session=1' } }));
+
+        expect(response.headers.get('Set-Cookie')).toBeNull();
+        expect(cache.entries.get(key.url)?.headers.get('Set-Cookie')).toBeNull();
+    });
+
+    it.each([404, 429, 500])('does not store %i responses', async status => {
+        const key = await cacheKey(ORIGIN, '/cover/missing/640');
+        const load = vi.fn(async () => new Response(null, { status }));
+
+        const response = await cached(key, 60, waitUntil, load);
+        expect(response.status).toBe(status);
+        expect(response.headers.get('X-Cache')).toBe('MISS');
+        expect(cache.put).not.toHaveBeenCalled();
+
+        await cached(key, 60, waitUntil, load);
+        expect(load).toHaveBeenCalledTimes(2);
+    });
+});
+
+describe('catalog proxy cache', () => {
+    const env: Env = {
+        ALLOWED_ORIGINS: 'http://localhost:3000',
+        TIDAL_CLIENT_ID: 'client-id',
+        TIDAL_CLIENT_SECRET: 'client-secret',
+        RATE_LIMIT_API: '0',
+    };
+    const executionContext = { waitUntil() { }, passThroughOnException() { } } as unknown as ExecutionContext;
+
+    function album(authorization: string): Promise<Response> {
+        return worker.fetch(new Request(`${ORIGIN}/api/albums/1?countryCode=US`, {
+            headers: { Authorization: authorization },
+        }), env, executionContext);
+    }
+
+    it('does not serve one account\'s catalog response to another', async () => {
+        vi.stubGlobal('fetch', vi.fn(async (_url: string, init: RequestInit) => {
+            const token = (init.headers as Record<string, string>)['Authorization'];
+            return Response.json({ id: 1, token });
+        }));
+
+        expect(await (await album('Bearer first-token')).json()).toEqual({ id: 1, token: 'Bearer first-token' });
+
+        const repeated = await album('Bearer first-token');
+        expect(repeated.headers.get('X-Cache')).toBe('HIT');
+
+        const other = await album('Bearer second-token');
+        expect(other.headers.get('X-Cache')).toBe('MISS');
+        expect(await other.json()).toEqual({ id: 1, token: 'Bearer second-token' });
+        expect(fetch).toHaveBeenCalledTimes(2);
+    });
+});
@@ -0,0 +1,74 @@
+/**
+ * Edge caching through the Workers Cache API
+ * Keys are synthetic GET requests built from the path and query. Tidal can tailor catalog data
+ * to the account, so authorized requests are keyed by a hash of their token and never share
+ * entries with other callers. Responses carry X-Cache: HIT or MISS.
+ */
+
+import { withHeaders } from './http';
+
+export const COVER_TTL = 86400;
+export const CATALOG_TTL = 300;
+
+// Public catalog reads: album, track, artist and video lookups and their listings.
+// Anything user-specific (playlists, mixes, lyrics, playback info) is left uncached.
+const CATALOG_PATH = /^\/(albums|tracks|artists|videos)\/\d+(\/(tracks|items|albums))?$/;
+
+/**
+ * Whether a proxied Tidal path (without the /api prefix) is cacheable catalog data
+ */
+export function isCatalogPath(path: string): boolean {
+    return CATALOG_PATH.test(path);
+}
+
+/**
+ * SHA-256 of a string as hex
+ */
+async function sha256(value: string): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+    return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Cache key for a path on this worker; query params are sorted so equivalent URLs share an entry
+ * @param authorization - The caller's Authorization header; its hash scopes the entry to that token
+ */
+export async function cacheKey(origin: string, path: string, query?: URLSearchParams, authorization?: string | null): Promise<Request> {
+    const url = new URL(path, origin);
+    const params = new URLSearchParams(query);
+    params.sort();
+    if (authorization) {
+        // Appended after sorting so a caller's own query can't collide with it
+        params.append('__auth', await sha256(authorization));
+    }
+    url.search = params.toString();
+    return new Request(url.toString(), { method: 'GET' });
+}
+
+/**
+ * Serve from the edge cache, or load and store successful (200) responses for `ttl` seconds
+ * @param waitUntil - Keeps the cache write alive after the response is returned
+ */
+export async function cached(
+    key: Request,
+    ttl: number,
+    waitUntil: (promise: Promise<unknown>) => void,
+    load: () => Promise<Response>
+): Promise<Response> {
+    const cache = caches.default;
+
+    const hit = await cache.match(key);
+    if (hit) {
+        return withHeaders(hit, { 'X-Cache': 'HIT' });
+    }
+
+    const response = await load();
+    if (response.status !== 200) {
+        return withHeaders(response, { 'X-Cache': 'MISS' });
+    }
+
+    const stored = withHeaders(response, { 'Cache-Control': `public, max-age=${ttl}` });
+    stored.headers.delete('Set-Cookie');
+    waitUntil(cache.put(key, stored.clone()));
+    return withHeaders(stored, { 'X-Cache': 'MISS' });
+}
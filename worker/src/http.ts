@@ -0,0 +1,92 @@
+/**
+ * Shared response helpers for the worker
+ * Every error the worker generates uses the same JSON envelope: { error, code, details? }.
+ * `error` stays a human-readable string so existing clients can keep showing it directly.
+ */
+
+export interface ErrorBody {
+    error: string;
+    code: string;
+    details?: unknown;
+}
+
+/**
+ * Error thrown from handlers (or validation) and turned into an error response by the router
+ */
+export class HttpError extends Error {
+    status: number;
+    code: string;
+    details?: unknown;
+    /** Extra response headers, e.g. Retry-After */
+    headers?: HeadersInit;
+
+    constructor(status: number, code: string, message: string, details?: unknown, headers?: HeadersInit) {
+        super(message);
+        this.name = 'HttpError';
+        this.status = status;
+        this.code = code;
+        this.details = details;
+        this.headers = headers;
+    }
+}
+
+/**
+ * JSON response with the given status
+ */
+export function json(data: unknown, status = 200, headers?: HeadersInit): Response {
+    const response = new Response(JSON.stringify(data), { status, headers });
+    response.headers.set('Content-Type', 'application/json');
+    return response;
+}
+
+/**
+ * Error response in the shared envelope
+ */
+export function errorResponse(status: number, code: string, message: string, details?: unknown, headers?: HeadersInit): Response {
+    const body: ErrorBody = { error: message, code };
+    if (details !== undefined) body.details = details;
+    return json(body, status, headers);
+}
+
+// Longest upstream body quoted in error details
+const MAX_UPSTREAM_BODY = 1000;
+
+/**
+ * Read an upstream body: the parsed JSON, the raw text when it isn't JSON (e.g. an HTML error page),
+ * or undefined when it's empty
+ */
+export async function readUpstreamBody(response: Response): Promise<unknown> {
+    const text = await response.text();
+    if (!text) return undefined;
+    try {
+        return JSON.parse(text);
+    } catch {
+        return text.slice(0, MAX_UPSTREAM_BODY);
+    }
+}
+
+/**
+ * Relay an upstream JSON response with its status
+ * Empty and non-JSON bodies become an upstream_error carrying the upstream status and body
+ * (502 when upstream claimed success, since the client expects JSON).
+ */
+export async function relayJson(response: Response): Promise<Response> {
+    const text = await response.text();
+    try {
+        return json(JSON.parse(text), response.status);
+    } catch {
+        return errorResponse(response.ok ? 502 : response.status, 'upstream_error', `Unexpected response from Tidal (HTTP ${response.status})`, {
+            status: response.status,
+            body: text.slice(0, MAX_UPSTREAM_BODY) || undefined,
+        });
+    }
+}
+
+/**
+ * Copy a response with extra headers (upstream responses have immutable headers)
+ */
+export function withHeaders(response: Response, headers: HeadersInit): Response {
+    const copy = new Response(response.body, response);
+    new Headers(headers).forEach((value, key) => copy.headers.set(key, value));
+    return copy;
+}
@@ -7,12 +7,36 @@
  * 3. API Proxying - Forwards authenticated requests to Tidal
  */
 
+import { handleDiagnostics } from './admin';
+import { checkApiRequest } from './allowlist';
+import { cached, cacheKey, CATALOG_TTL, COVER_TTL, isCatalogPath } from './cache';
+import { errorResponse, HttpError, json, readUpstreamBody, relayJson, withHeaders } from './http';
+import { enforceRateLimit } from './rate-limit';
+import { createRouter, RouteContext } from './router';
+
+// Durable Object classes have to be exported from the entry module
+export { RateLimitCounter } from './rate-limit';
+
 export interface Env {
     ALLOWED_ORIGINS: string;
     TIDAL_CLIENT_ID: string;
     TIDAL_CLIENT_SECRET: string;
     TIDAL_ATMOS_CLIENT_ID?: string;
     TIDAL_ATMOS_CLIENT_SECRET?: string;
+    /** Bearer token for /admin/* (set via `wrangler secret put`); admin routes are disabled without it */
+    ADMIN_TOKEN?: string;
+    /** Reported by /admin/diagnostics, e.g. the git commit passed at deploy time */
+    BUILD_VERSION?: string;
+    /** Requests per window and client for /api/* and /stream* (default 300, 0 disables) */
+    RATE_LIMIT_API?: string;
+    /** Requests per window and client for /auth/* (default 30, 0 disables) */
+    RATE_LIMIT_AUTH?: string;
+    /** Rate limit window in seconds (default 60) */
+    RATE_LIMIT_WINDOW?: string;
+    /** Optional RateLimitCounter Durable Object namespace for exact rate limit counters across isolates */
+    RATE_LIMIT_COUNTER?: DurableObjectNamespace;
+    /** Optional KV namespace to share rate limit counters across isolates (approximate; RATE_LIMIT_COUNTER wins) */
+    RATE_LIMIT_KV?: KVNamespace;
     // SESSIONS: KVNamespace; // Optional: for server-side session storage
 }
 
@@ -20,31 +44,58 @@ export interface Env {
 const TIDAL_AUTH_URL = 'https://auth.tidal.com/v1/oauth2';
 const TIDAL_API_URL = 'https://api.tidal.com/v1';
 
-// Helper to add CORS headers
-function corsHeaders(origin: string, env: Env): HeadersInit {
+// Browser origins allowed to call the worker
+function isAllowedOrigin(origin: string, env: Env): boolean {
     // Default to localhost if ALLOWED_ORIGINS is not set
-    const allowedOrigins = (env.ALLOWED_ORIGINS || 'http://localhost:3000').split(',');
-    const allowOrigin = allowedOrigins.includes(origin) ? origin : allowedOrigins[0];
+    const allowedOrigins = (env.ALLOWED_ORIGINS || 'http://localhost:3000').split(',').map(o => o.trim());
+    return allowedOrigins.includes(origin);
+}
 
-    return {
-        'Access-Control-Allow-Origin': allowOrigin,
+// Helper to add CORS headers
+// Only called for allowed origins or requests without an Origin (non-browser clients)
+function corsHeaders(origin: string | null): HeadersInit {
+    const headers: Record<string, string> = {
         'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
         'Access-Control-Allow-Headers': 'Content-Type, Authorization',
         'Access-Control-Max-Age': '86400',
+        'Access-Control-Expose-Headers': 'X-Cache, Retry-After',
+        'Vary': 'Origin',
     };
+    if (origin) {
+        headers['Access-Control-Allow-Origin'] = origin;
+    }
+    return headers;
 }
 
 // Handle preflight requests
-function handleOptions(request: Request, env: Env): Response {
-    const origin = request.headers.get('Origin') || '';
+function handleOptions(request: Request): Response {
     return new Response(null, {
         status: 204,
-        headers: corsHeaders(origin, env),
+        headers: corsHeaders(request.headers.get('Origin')),
     });
 }
 
+// Authorization header forwarded to Tidal, required by the stream endpoints
+function requireAuthorization(request: Request): string {
+    const authHeader = request.headers.get('Authorization');
+    if (!authHeader) {
+        throw new HttpError(401, 'unauthorized', 'Missing authorization');
+    }
+    return authHeader;
+}
+
+// Atmos endpoints need their own client credentials
+function requireAtmosCredentials(env: Env): { clientId: string; clientSecret: string } {
+    if (!env.TIDAL_ATMOS_CLIENT_ID || !env.TIDAL_ATMOS_CLIENT_SECRET) {
+        throw new HttpError(501, 'not_configured', 'Atmos credentials not configured');
+    }
+    return { clientId: env.TIDAL_ATMOS_CLIENT_ID, clientSecret: env.TIDAL_ATMOS_CLIENT_SECRET };
+}
+
+type Context<P extends string = never> = RouteContext<Env, P>;
+
 // Device Authorization - Step 1: Get device code
-async function handleDeviceAuth(env: Env, origin: string): Promise<Response> {
+async function handleDeviceAuth({ env }: Context): Promise<Response> {
     const response = await fetch(`${TIDAL_AUTH_URL}/device_authorization`, {
         method: 'POST',
         headers: {
@@ -56,21 +107,11 @@ async function handleDeviceAuth(env: Env, origin: string): Promise<Response> {
         }),
     });
 
-    const data = await response.json();
-
-    return new Response(JSON.stringify(data), {
-        status: response.status,
-        headers: {
-            ...corsHeaders(origin, env),
-            'Content-Type': 'application/json',
-        },
-    });
+    return relayJson(response);
 }
 
 // Device Authorization - Step 2: Poll for token
-async function handleTokenPoll(request: Request, env: Env, origin: string): Promise<Response> {
-    const body = await request.json() as { device_code: string };
-
+async function handleTokenPoll({ env, body }: Context): Promise<Response> {
     const response = await fetch(`${TIDAL_AUTH_URL}/token`, {
         method: 'POST',
         headers: {
@@ -79,27 +120,17 @@ async function handleTokenPoll(request: Request, env: Env, origin: string): Prom
         body: new URLSearchParams({
             client_id: env.TIDAL_CLIENT_ID,
             client_secret: env.TIDAL_CLIENT_SECRET,
-            device_code: body.device_code,
+            device_code: body.device_code as string,
             grant_type: 'urn:ietf:params:oauth:grant-type:device_code',
             scope: 'r_usr w_usr',
         }),
     });
 
-    const data = await response.json();
-
-    return new Response(JSON.stringify(data), {
-        status: response.status,
-        headers: {
-            ...corsHeaders(origin, env),
-            'Content-Type': 'application/json',
-        },
-    });
+    return relayJson(response);
 }
 
 // Refresh token
-async function handleTokenRefresh(request: Request, env: Env, origin: string): Promise<Response> {
-    const body = await request.json() as { refresh_token: string };
-
+async function handleTokenRefresh({ env, body }: Context): Promise<Response> {
     const response = await fetch(`${TIDAL_AUTH_URL}/token`, {
         method: 'POST',
         headers: {
@@ -108,54 +139,22 @@ async function handleTokenRefresh(request: Request, env: Env, origin: string): P
         body: new URLSearchParams({
             client_id: env.TIDAL_CLIENT_ID,
             client_secret: env.TIDAL_CLIENT_SECRET,
-            refresh_token: body.refresh_token,
+            refresh_token: body.refresh_token as string,
             grant_type: 'refresh_token',
         }),
     });
 
-    const data = await response.json();
-
-    return new Response(JSON.stringify(data), {
-        status: response.status,
-        headers: {
-            ...corsHeaders(origin, env),
-            'Content-Type': 'application/json',
-        },
-    });
+    return relayJson(response);
 }
 
-// Atmos Token Swap - Takes the user's existing refresh token and refreshes it
-// using the Atmos client credentials to get an Atmos-specific access token.
-// This matches how tidal-dl-ng CLI handles Atmos: it swaps client_id/secret
-// and re-authenticates with the existing session tokens.
-async function handleAtmosTokenSwap(request: Request, env: Env, origin: string): Promise<Response> {
-    if (!env.TIDAL_ATMOS_CLIENT_ID || !env.TIDAL_ATMOS_CLIENT_SECRET) {
-        return new Response(JSON.stringify({ error: 'Atmos credentials not configured' }), {
-            status: 501,
-            headers: {
-                ...corsHeaders(origin, env),
-                'Content-Type': 'application/json',
-            },
-        });
-    }
-
-    const body = await request.json() as { refresh_token: string };
-
-    if (!body.refresh_token) {
-        return new Response(JSON.stringify({ error: 'Missing refresh_token. Login to Tidal first.' }), {
-            status: 400,
-            headers: {
-                ...corsHeaders(origin, env),
-                'Content-Type': 'application/json',
-            },
-        });
-    }
+// Refresh a token with the Atmos client credentials
+async function refreshAtmosToken(env: Env, refreshToken: string, failureMessage: string): Promise<Response> {
+    const { clientId, clientSecret } = requireAtmosCredentials(env);
 
-    // Use the existing refresh token but with Atmos client credentials
     const params = new URLSearchParams({
-        client_id: env.TIDAL_ATMOS_CLIENT_ID,
-        client_secret: env.TIDAL_ATMOS_CLIENT_SECRET,
-        refresh_token: body.refresh_token,
+        client_id: clientId,
+        client_secret: clientSecret,
+        refresh_token: refreshToken,
         grant_type: 'refresh_token',
     });
 
@@ -167,87 +166,47 @@ async function handleAtmosTokenSwap(request: Request, env: Env, origin: string):
         body: params,
     });
 
-    const data = await response.json();
-
     if (!response.ok) {
-        return new Response(JSON.stringify({
-            error: 'Atmos token swap failed',
-            details: data,
-        }), {
-            status: response.status,
-            headers: {
-                ...corsHeaders(origin, env),
-                'Content-Type': 'application/json',
-            },
-        });
+        return errorResponse(response.status, 'upstream_error', failureMessage, await readUpstreamBody(response));
     }
 
-    return new Response(JSON.stringify(data), {
-        status: response.status,
-        headers: {
-            ...corsHeaders(origin, env),
-            'Content-Type': 'application/json',
-        },
-    });
+    return relayJson(response);
 }
 
-// Atmos Refresh token - refreshes an existing Atmos token
-async function handleAtmosTokenRefresh(request: Request, env: Env, origin: string): Promise<Response> {
-    if (!env.TIDAL_ATMOS_CLIENT_ID || !env.TIDAL_ATMOS_CLIENT_SECRET) {
-        return new Response(JSON.stringify({ error: 'Atmos credentials not configured' }), {
-            status: 501,
-            headers: {
-                ...corsHeaders(origin, env),
-                'Content-Type': 'application/json',
-            },
-        });
-    }
+// Atmos Token Swap - Takes the user's existing refresh token and refreshes it
+// using the Atmos client credentials to get an Atmos-specific access token.
+// This matches how tidal-dl-ng CLI handles Atmos: it swaps client_id/secret
+// and re-authenticates with the existing session tokens.
+async function handleAtmosTokenSwap({ env, body }: Context): Promise<Response> {
+    requireAtmosCredentials(env);
 
-    const body = await request.json() as { refresh_token: string };
+    if (!body.refresh_token) {
+        throw new HttpError(400, 'missing_field', 'Missing refresh_token. Login to Tidal first.');
+    }
 
-    const params = new URLSearchParams({
-        client_id: env.TIDAL_ATMOS_CLIENT_ID,
-        client_secret: env.TIDAL_ATMOS_CLIENT_SECRET,
-        refresh_token: body.refresh_token,
-        grant_type: 'refresh_token',
-    });
+    return refreshAtmosToken(env, body.refresh_token as string, 'Atmos token swap failed');
+}
 
-    const response = await fetch(`${TIDAL_AUTH_URL}/token`, {
-        method: 'POST',
-        headers: {
-            'Content-Type': 'application/x-www-form-urlencoded',
-        },
-        body: params,
-    });
+// Atmos Refresh token - refreshes an existing Atmos token
+async function handleAtmosTokenRefresh({ env, body }: Context): Promise<Response> {
+    return refreshAtmosToken(env, body.refresh_token as string, 'Atmos token refresh failed');
+}
 
-    const data = await response.json();
+// Proxy allowlisted API requests to Tidal, caching public catalog GETs at the edge
+async function handleApiProxy({ request, url, params, waitUntil }: Context<'*'>): Promise<Response> {
+    const path = params['*'];
+    checkApiRequest(request.method, path, url.searchParams);
 
-    if (!response.ok) {
-        return new Response(JSON.stringify({
-            error: 'Atmos token refresh failed',
-            details: data,
-        }), {
-            status: response.status,
-            headers: {
-                ...corsHeaders(origin, env),
-                'Content-Type': 'application/json',
-            },
-        });
+    if (request.method === 'GET' && isCatalogPath(path)) {
+        const key = await cacheKey(url.origin, `/api${path}`, url.searchParams, request.headers.get('Authorization'));
+        return cached(key, CATALOG_TTL, waitUntil, () => proxyToTidal(request, path, url.search));
     }
-
-    return new Response(JSON.stringify(data), {
-        status: response.status,
-        headers: {
-            ...corsHeaders(origin, env),
-            'Content-Type': 'application/json',
-        },
-    });
+    return proxyToTidal(request, path, url.search);
 }
 
-// Proxy API requests to Tidal
-async function handleApiProxy(request: Request, env: Env, origin: string, pathname: string): Promise<Response> {
-    const url = new URL(request.url);
-    const tidalUrl = `${TIDAL_API_URL}${pathname}${url.search}`;
+// Forward a request to the Tidal API with the caller's authorization
+async function proxyToTidal(request: Request, path: string, search: string): Promise<Response> {
+    const tidalUrl = `${TIDAL_API_URL}${path}${search}`;
 
     const headers: HeadersInit = {
         'Content-Type': 'application/json',
@@ -270,32 +229,13 @@ async function handleApiProxy(request: Request, env: Env, origin: string, pathna
     return new Response(data, {
         status: response.status,
         headers: {
-            ...corsHeaders(origin, env),
             'Content-Type': response.headers.get('Content-Type') || 'application/json',
         },
     });
 }
 
-// Get stream URL for a track
-async function handleStreamUrl(request: Request, env: Env, origin: string): Promise<Response> {
-    const url = new URL(request.url);
-    const trackId = url.searchParams.get('trackId');
-    const quality = url.searchParams.get('quality') || 'LOSSLESS';
-    const authHeader = request.headers.get('Authorization');
-
-    if (!trackId || !authHeader) {
-        return new Response(JSON.stringify({ error: 'Missing trackId or authorization' }), {
-            status: 400,
-            headers: {
-                ...corsHeaders(origin, env),
-                'Content-Type': 'application/json',
-            },
-        });
-    }
-
-    // Get playback info from Tidal
-    const playbackUrl = `${TIDAL_API_URL}/tracks/${trackId}/playbackinfopostpaywall?audioquality=${quality}&playbackmode=STREAM&assetpresentation=FULL`;
-
+// Get playback info from Tidal with the caller's token
+async function fetchPlaybackInfo(playbackUrl: string, authHeader: string): Promise<Response> {
     const response = await fetch(playbackUrl, {
         headers: {
             'Authorization': authHeader,
@@ -303,196 +243,123 @@ async function handleStreamUrl(request: Request, env: Env, origin: string): Prom
         },
     });
 
-    const data = await response.json();
+    return relayJson(response);
+}
 
-    return new Response(JSON.stringify(data), {
-        status: response.status,
-        headers: {
-            ...corsHeaders(origin, env),
-            'Content-Type': 'application/json',
-        },
-    });
+// Get stream URL for a track
+async function handleStreamUrl({ request, url }: Context): Promise<Response> {
+    const authHeader = requireAuthorization(request);
+    const trackId = url.searchParams.get('trackId');
+    const quality = url.searchParams.get('quality') || 'LOSSLESS';
+
+    const playbackUrl = `${TIDAL_API_URL}/tracks/${trackId}/playbackinfopostpaywall?audioquality=${quality}&playbackmode=STREAM&assetpresentation=FULL`;
+    return fetchPlaybackInfo(playbackUrl, authHeader);
 }
 
 // Get Dolby Atmos stream URL for a track
 // The client provides a valid Atmos access token via Authorization header
-async function handleStreamAtmos(request: Request, env: Env, origin: string): Promise<Response> {
-    const url = new URL(request.url);
+async function handleStreamAtmos({ request, url }: Context): Promise<Response> {
+    const authHeader = requireAuthorization(request);
     const trackId = url.searchParams.get('trackId');
-    const authHeader = request.headers.get('Authorization');
-
-    if (!trackId || !authHeader) {
-        return new Response(JSON.stringify({ error: 'Missing trackId or authorization' }), {
-            status: 400,
-            headers: {
-                ...corsHeaders(origin, env),
-                'Content-Type': 'application/json',
-            },
-        });
-    }
 
     // Use the Atmos token to get playback info
     // Note: Atmos is only available at HIGH quality (320kbps)
     const playbackUrl = `${TIDAL_API_URL}/tracks/${trackId}/playbackinfopostpaywall?audioquality=HIGH&playbackmode=STREAM&assetpresentation=FULL`;
+    return fetchPlaybackInfo(playbackUrl, authHeader);
+}
 
-    const response = await fetch(playbackUrl, {
-        headers: {
-            'Authorization': authHeader,
-            'Content-Type': 'application/json',
-        },
-    });
+// Get HLS stream URL for a video
+async function handleStreamVideo({ request, url }: Context): Promise<Response> {
+    const authHeader = requireAuthorization(request);
+    const videoId = url.searchParams.get('videoId');
+    const quality = url.searchParams.get('quality') || 'HIGH';
 
-    const data = await response.json();
+    // The returned HLS master playlist lists every resolution up to the requested quality
+    const playbackUrl = `${TIDAL_API_URL}/videos/${videoId}/playbackinfopostpaywall?videoquality=${quality}&playbackmode=STREAM&assetpresentation=FULL`;
+    return fetchPlaybackInfo(playbackUrl, authHeader);
+}
 
-    return new Response(JSON.stringify(data), {
-        status: response.status,
+// Cover art proxy, cached at the edge by id and size
+async function handleCover({ url, waitUntil }: Context, coverId: string, size: string): Promise<Response> {
+    const key = await cacheKey(url.origin, `/cover/${coverId}/${size}`);
+    return cached(key, COVER_TTL, waitUntil, () => fetchCover(coverId, size));
+}
+
+async function fetchCover(coverId: string, size: string): Promise<Response> {
+    const formattedId = coverId.replace(/-/g, '/');
+    const coverUrl = `https://resources.tidal.com/images/${formattedId}/${size}x${size}.jpg`;
+
+    const coverResponse = await fetch(coverUrl);
+
+    if (!coverResponse.ok) {
+        throw new HttpError(coverResponse.status, 'upstream_error', 'Failed to fetch cover');
+    }
+
+    return new Response(coverResponse.body, {
         headers: {
-            ...corsHeaders(origin, env),
-            'Content-Type': 'application/json',
+            'Content-Type': 'image/jpeg',
+            'Cache-Control': `public, max-age=${COVER_TTL}`,
         },
     });
 }
 
+// Validation shared by several routes
+const TRACK_QUERY = { trackId: { required: true, pattern: /^\d+$/ } };
+const QUALITY_PATTERN = /^[A-Z_]+$/;
+const COVER_PARAMS = {
+    id: { required: true, pattern: /^[0-9a-fA-F-]+$/ },
+    size: { pattern: /^\d{2,4}$/ },
+};
+const REFRESH_TOKEN_BODY = { refresh_token: { required: true } };
+
+const router = createRouter<Env>()
+    .before(enforceRateLimit)
+    .get('/health', () => json({ status: 'ok' }))
+    .get('/admin/diagnostics', handleDiagnostics)
+
+    // Auth endpoints
+    .post('/auth/device', handleDeviceAuth)
+    .post('/auth/token', handleTokenPoll, { body: { device_code: { required: true } } })
+    .post('/auth/refresh', handleTokenRefresh, { body: REFRESH_TOKEN_BODY })
+
+    // Atmos auth endpoints
+    // Token swap: takes existing refresh token + Atmos credentials to get Atmos access token
+    .post('/auth/atmos-swap', handleAtmosTokenSwap, { body: {} })
+    .post('/auth/refresh-atmos', handleAtmosTokenRefresh, { body: REFRESH_TOKEN_BODY })
+
+    // Stream URL endpoints
+    .get('/stream', handleStreamUrl, { query: { ...TRACK_QUERY, quality: { pattern: QUALITY_PATTERN } } })
+    .get('/stream-atmos', handleStreamAtmos, { query: TRACK_QUERY })
+    .get('/stream-video', handleStreamVideo, {
+        query: { videoId: { required: true, pattern: /^\d+$/ }, quality: { pattern: QUALITY_PATTERN } },
+    })
+
+    // Cover art proxy endpoints; the query form is kept for older clients
+    .get('/cover/:id/:size', ctx => handleCover(ctx, ctx.params.id, ctx.params.size), { params: COVER_PARAMS })
+    .get('/cover', ctx => handleCover(ctx, ctx.url.searchParams.get('id')!, ctx.url.searchParams.get('size') || '640'), { query: COVER_PARAMS })
+
+    // Proxy /api/* requests to Tidal; every method is routed so the allowlist can answer with a 403
+    .get('/api/*', handleApiProxy)
+    .post('/api/*', handleApiProxy)
+    .on('PUT', '/api/*', handleApiProxy)
+    .on('PATCH', '/api/*', handleApiProxy)
+    .on('DELETE', '/api/*', handleApiProxy);
+
 // Main request handler
 export default {
-    async fetch(request: Request, env: Env): Promise<Response> {
-        const url = new URL(request.url);
-        const origin = request.headers.get('Origin') || '';
+    async fetch(request: Request, env: Env, executionContext: ExecutionContext): Promise<Response> {
+        // Browsers always send Origin on cross-origin requests; reject the ones we don't serve
+        const origin = request.headers.get('Origin');
+        if (origin !== null && !isAllowedOrigin(origin, env)) {
+            return errorResponse(403, 'origin_not_allowed', 'Origin not allowed');
+        }
 
         // Handle CORS preflight
         if (request.method === 'OPTIONS') {
-            return handleOptions(request, env);
+            return handleOptions(request);
         }
 
-        // Route requests
-        const pathname = url.pathname;
-
-        try {
-            // Health check
-            if (pathname === '/health') {
-                return new Response(JSON.stringify({ status: 'ok' }), {
-                    headers: {
-                        ...corsHeaders(origin, env),
-                        'Content-Type': 'application/json',
-                    },
-                });
-            }
-
-            // Debug Environment
-            if (pathname === '/debug-env') {
-                const clientId = env.TIDAL_CLIENT_ID;
-                const secret = env.TIDAL_CLIENT_SECRET;
-                return new Response(JSON.stringify({
-                    clientId: clientId,
-                    secretLength: secret ? secret.length : 0,
-                    secretStart: secret ? secret.substring(0, 5) : 'null',
-                    secretEnd: secret ? secret.substring(secret.length - 5) : 'null',
-                    secretB64: secret ? btoa(secret) : 'null', // safety check if it handles binary? no it's string.
-                    allowedOrigins: env.ALLOWED_ORIGINS
-                }), {
-                    headers: {
-                        ...corsHeaders(origin, env),
-                        'Content-Type': 'application/json',
-                    },
-                });
-            }
-
-            // Auth endpoints
-            if (pathname === '/auth/device') {
-                return handleDeviceAuth(env, origin);
-            }
-
-            if (pathname === '/auth/token') {
-                return handleTokenPoll(request, env, origin);
-            }
-
-            if (pathname === '/auth/refresh') {
-                return handleTokenRefresh(request, env, origin);
-            }
-
-            // Atmos auth endpoints
-            // Token swap: takes existing refresh token + Atmos credentials to get Atmos access token
-            if (pathname === '/auth/atmos-swap') {
-                return handleAtmosTokenSwap(request, env, origin);
-            }
-
-            if (pathname === '/auth/refresh-atmos') {
-                return handleAtmosTokenRefresh(request, env, origin);
-            }
-
-            // Stream URL endpoint
-            if (pathname === '/stream') {
-                return handleStreamUrl(request, env, origin);
-            }
-
-            // Dolby Atmos stream URL endpoint
-            if (pathname === '/stream-atmos') {
-                return handleStreamAtmos(request, env, origin);
-            }
-
-            // Cover art proxy endpoint
-            if (pathname === '/cover') {
-                const coverId = url.searchParams.get('id');
-                const size = url.searchParams.get('size') || '640';
-
-                if (!coverId) {
-                    return new Response(JSON.stringify({ error: 'Missing cover id' }), {
-                        status: 400,
-                        headers: {
-                            ...corsHeaders(origin, env),
-                            'Content-Type': 'application/json',
-                        },
-                    });
-                }
-
-                const formattedId = coverId.replace(/-/g, '/');
-                const coverUrl = `https://resources.tidal.com/images/${formattedId}/${size}x${size}.jpg`;
-
-                const coverResponse = await fetch(coverUrl);
-
-                if (!coverResponse.ok) {
-                    return new Response(JSON.stringify({ error: 'Failed to fetch cover' }), {
-                        status: coverResponse.status,
-                        headers: {
-                            ...corsHeaders(origin, env),
-                            'Content-Type': 'application/json',
-                        },
-                    });
-                }
-
-                return new Response(coverResponse.body, {
-                    headers: {
-                        ...corsHeaders(origin, env),
-                        'Content-Type': 'image/jpeg',
-                        'Cache-Control': 'public, max-age=86400',
-                    },
-                });
-            }
-
-            // Proxy all other /api/* requests to Tidal
-            if (pathname.startsWith('/api/')) {
-                const tidalPath = pathname.replace('/api', '');
-                return handleApiProxy(request, env, origin, tidalPath);
-            }
-
-            // 404 for unknown routes
-            return new Response(JSON.stringify({ error: 'Not found' }), {
-                status: 404,
-                headers: {
-                    ...corsHeaders(origin, env),
-                    'Content-Type': 'application/json',
-                },
-            });
-
-        } catch (error) {
-            console.error('Worker error:', error);
-            return new Response(JSON.stringify({ error: 'Internal server error' }), {
-                status: 500,
-                headers: {
-                    ...corsHeaders(origin, env),
-                    'Content-Type': 'application/json',
-                },
-            });
-        }
+        const response = await router.handle(request, env, executionContext);
+        return withHeaders(response, corsHeaders(origin));
     },
 };
@@ -0,0 +1,206 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Env } from './index';
+import { HttpError } from './http';
+import { createDurableObjectStore, createKvStore, createMemoryStore, enforceRateLimit, RateLimitCounter } from './rate-limit';
+
+function createEnv(overrides: Partial<Env> = {}): Env {
+    return {
+        ALLOWED_ORIGINS: 'http://localhost:3000',
+        TIDAL_CLIENT_ID: 'client-id',
+        TIDAL_CLIENT_SECRET: 'client-secret',
+        ...overrides,
+    };
+}
+
+function request(path: string, ip: string, authorization?: string): Request {
+    const headers: Record<string, string> = { 'CF-Connecting-IP': ip };
+    if (authorization) headers['Authorization'] = authorization;
+    return new Request(`https://worker.test${path}`, { headers });
+}
+
+async function rejection(promise: Promise<void>): Promise<HttpError | undefined> {
+    try {
+        await promise;
+    } catch (error) {
+        expect(error).toBeInstanceOf(HttpError);
+        return error as HttpError;
+    }
+    return undefined;
+}
+
+function createKv(): KVNamespace & { values: Map<string, string> } {
+    const values = new Map<string, string>();
+    return {
+        values,
+        get: vi.fn(async (key: string) => values.get(key) ?? null),
+        put: vi.fn(async (key: string, value: string) => {
+            values.set(key, value);
+        }),
+    } as unknown as KVNamespace & { values: Map<string, string> };
+}
+
+/**
+ * Namespace running RateLimitCounter objects on in-memory storage
+ * Like the runtime's input gate, requests to one object run one after another.
+ */
+function createCounterNamespace(): DurableObjectNamespace & { alarms: Map<string, number>; objects: Map<string, RateLimitCounter> } {
+    const objects = new Map<string, RateLimitCounter>();
+    const alarms = new Map<string, number>();
+    const queues = new Map<string, Promise<unknown>>();
+
+    const getObject = (name: string) => {
+        let object = objects.get(name);
+        if (!object) {
+            const values = new Map<string, unknown>();
+            const storage = {
+                get: async (key: string) => values.get(key),
+                put: async (key: string, value: unknown) => {
+                    values.set(key, value);
+                },
+                setAlarm: async (time: number) => {
+                    alarms.set(name, time);
+                },
+                deleteAll: async () => {
+                    values.clear();
+                },
+            };
+            object = new RateLimitCounter({ storage } as unknown as DurableObjectState);
+            objects.set(name, object);
+        }
+        return object;
+    };
+
+    return {
+        alarms,
+        objects,
+        idFromName: (name: string) => name,
+        get: (id: string) => ({
+            fetch: (input: string, init?: RequestInit) => {
+                const response = (queues.get(id) || Promise.resolve())
+                    .then(() => getObject(id).fetch(new Request(input, init)));
+                queues.set(id, response.catch(() => { }));
+                return response;
+            },
+        }),
+    } as unknown as DurableObjectNamespace & { alarms: Map<string, number>; objects: Map<string, RateLimitCounter> };
+}
+
+afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+});
+
+describe('createMemoryStore', () => {
+    it('counts per key and starts over after the TTL', async () => {
+        vi.useFakeTimers();
+        const store = createMemoryStore();
+
+        expect(await store.increment('a', 60)).toBe(1);
+        expect(await store.increment('a', 60)).toBe(2);
+        expect(await store.increment('b', 60)).toBe(1);
+
+        vi.advanceTimersByTime(60_000);
+        expect(await store.increment('a', 60)).toBe(1);
+    });
+});
+
+describe('createKvStore', () => {
+    it('stores the count with at least the minimum KV TTL', async () => {
+        const kv = createKv();
+        const store = createKvStore(kv);
+
+        expect(await store.increment('key', 10)).toBe(1);
+        expect(await store.increment('key', 10)).toBe(2);
+        expect(kv.values.get('key')).toBe('2');
+        expect(kv.put).toHaveBeenLastCalledWith('key', '2', { expirationTtl: 60 });
+    });
+
+    it('keeps counting when a write is rejected', async () => {
+        const warn = vi.spyOn(console, 'warn').mockImplementation(() => { });
+        const kv = createKv();
+        kv.values.set('key', '4');
+        vi.mocked(kv.put).mockRejectedValue(new Error('KV PUT failed: 429 Too Many Requests'));
+
+        expect(await createKvStore(kv).increment('key', 60)).toBe(5);
+        expect(warn).toHaveBeenCalledOnce();
+    });
+});
+
+describe('RateLimitCounter', () => {
+    it('counts concurrent requests exactly and clears at the end of the window', async () => {
+        vi.useFakeTimers({ now: 1_000_000 });
+        const namespace = createCounterNamespace();
+        const store = createDurableObjectStore(namespace);
+
+        const counts = await Promise.all(Array.from({ length: 20 }, () => store.increment('key', 30)));
+        expect(counts.sort((a, b) => a - b)).toEqual(Array.from({ length: 20 }, (_, i) => i + 1));
+        expect(namespace.alarms.get('key')).toBe(1_000_000 + 30_000);
+
+        await namespace.objects.get('key')!.alarm();
+        expect(await store.increment('key', 30)).toBe(1);
+    });
+});
+
+describe('enforceRateLimit', () => {
+    beforeEach(() => {
+        vi.useFakeTimers({ now: 1_000_000 });
+    });
+
+    it('answers 429 with Retry-After once a client is over the limit', async () => {
+        const env = createEnv({ RATE_LIMIT_API: '2' });
+
+        expect(await rejection(enforceRateLimit(request('/api/tracks/1', '10.0.0.1'), env))).toBeUndefined();
+        expect(await rejection(enforceRateLimit(request('/stream', '10.0.0.1'), env))).toBeUndefined();
+        const error = await rejection(enforceRateLimit(request('/api/tracks/1', '10.0.0.1'), env));
+
+        expect(error?.status).toBe(429);
+        expect(error?.code).toBe('rate_limited');
+        // 1000 s into a 60 s window that started at 960 s
+        expect(error?.headers).toEqual({ 'Retry-After': '20' });
+
+        // Other clients and groups have their own counters
+        expect(await rejection(enforceRateLimit(request('/api/tracks/1', '10.0.0.2'), env))).toBeUndefined();
+        expect(await rejection(enforceRateLimit(request('/auth/device', '10.0.0.1'), env))).toBeUndefined();
+    });
+
+    it('limits a token across IPs', async () => {
+        const env = createEnv({ RATE_LIMIT_AUTH: '1' });
+
+        expect(await rejection(enforceRateLimit(request('/auth/refresh', '10.0.1.1', 'Bearer shared'), env))).toBeUndefined();
+        const error = await rejection(enforceRateLimit(request('/auth/refresh', '10.0.1.2', 'Bearer shared'), env));
+        expect(error?.status).toBe(429);
+    });
+
+    it('skips unlimited paths and disabled groups', async () => {
+        const env = createEnv({ RATE_LIMIT_API: '0', RATE_LIMIT_AUTH: '1' });
+
+        for (let i = 0; i < 3; i++) {
+            expect(await rejection(enforceRateLimit(request('/api/tracks/1', '10.0.2.1'), env))).toBeUndefined();
+            expect(await rejection(enforceRateLimit(request('/health', '10.0.2.1'), env))).toBeUndefined();
+            expect(await rejection(enforceRateLimit(request('/cover/abc/640', '10.0.2.1'), env))).toBeUndefined();
+        }
+    });
+
+    it('uses the Durable Object counter over KV when both are bound', async () => {
+        const kv = createKv();
+        const namespace = createCounterNamespace();
+        const env = createEnv({ RATE_LIMIT_API: '1', RATE_LIMIT_KV: kv, RATE_LIMIT_COUNTER: namespace });
+
+        expect(await rejection(enforceRateLimit(request('/api/tracks/1', '10.0.3.1'), env))).toBeUndefined();
+        expect((await rejection(enforceRateLimit(request('/api/tracks/1', '10.0.3.1'), env)))?.status).toBe(429);
+        expect([...namespace.objects.keys()]).toEqual(['ratelimit:api:ip:10.0.3.1:16']);
+        expect(kv.get).not.toHaveBeenCalled();
+    });
+
+    it('lets requests through when the store fails', async () => {
+        const warn = vi.spyOn(console, 'warn').mockImplementation(() => { });
+        const kv = createKv();
+        vi.mocked(kv.get).mockRejectedValue(new Error('KV GET failed'));
+        const env = createEnv({ RATE_LIMIT_API: '1', RATE_LIMIT_KV: kv });
+
+        for (let i = 0; i < 3; i++) {
+            expect(await rejection(enforceRateLimit(request('/api/tracks/1', '10.0.4.1'), env))).toBeUndefined();
+        }
+        expect(warn).toHaveBeenCalledTimes(3);
+    });
+});
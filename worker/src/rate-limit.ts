@@ -0,0 +1,182 @@
+/**
+ * Per-client rate limiting for the proxy, auth and stream routes
+ *
+ * Fixed-window counters keyed by client IP and, when present, by a hash of the Authorization
+ * header, so one token can't spread its traffic across IPs (or one IP across tokens).
+ * Counters live in isolate memory by default. Bind RATE_LIMIT_COUNTER (a Durable Object, exact counts)
+ * or RATE_LIMIT_KV (approximate counts) to share them across isolates. A failing store lets the request
+ * through rather than turning into a 500.
+ */
+
+import type { Env } from './index';
+import { HttpError } from './http';
+
+type LimitGroup = 'api' | 'auth';
+
+// Requests per window and client, overridable through Env; 0 disables a group
+const DEFAULT_LIMITS: Record<LimitGroup, number> = {
+    api: 300,
+    auth: 30,
+};
+const DEFAULT_WINDOW = 60;
+// KV rejects expirations shorter than a minute
+const MIN_KV_TTL = 60;
+
+/**
+ * Counter backing; another store (e.g. a Durable Object) only has to implement increment
+ */
+export interface RateLimitStore {
+    /** Count one request for the key and return the total in the current window */
+    increment(key: string, ttlSeconds: number): Promise<number>;
+}
+
+/**
+ * Counters in isolate memory; each isolate limits on its own
+ */
+export function createMemoryStore(): RateLimitStore {
+    const counters = new Map<string, { count: number; expiresAt: number }>();
+
+    return {
+        async increment(key, ttlSeconds) {
+            const now = Date.now();
+            if (counters.size > 10000) {
+                for (const [counterKey, counter] of counters) {
+                    if (counter.expiresAt <= now) counters.delete(counterKey);
+                }
+            }
+
+            const counter = counters.get(key);
+            if (counter && counter.expiresAt > now) {
+                counter.count++;
+                return counter.count;
+            }
+            counters.set(key, { count: 1, expiresAt: now + ttlSeconds * 1000 });
+            return 1;
+        },
+    };
+}
+
+/**
+ * Counters in Workers KV, shared across isolates
+ * KV writes aren't atomic and allow about one write per second and key, so busy clients are
+ * undercounted; a rejected write keeps the count read for this request.
+ */
+export function createKvStore(kv: KVNamespace): RateLimitStore {
+    return {
+        async increment(key, ttlSeconds) {
+            const count = Number(await kv.get(key)) + 1;
+            try {
+                await kv.put(key, String(count), { expirationTtl: Math.max(MIN_KV_TTL, ttlSeconds) });
+            } catch (error) {
+                console.warn('Rate limit KV write failed:', error);
+            }
+            return count;
+        },
+    };
+}
+
+/**
+ * One counter per key; a Durable Object handles its requests one at a time, so counts are exact
+ * Export it from the worker entry and bind it as RATE_LIMIT_COUNTER (see wrangler.toml).
+ */
+export class RateLimitCounter implements DurableObject {
+    private state: DurableObjectState;
+
+    constructor(state: DurableObjectState) {
+        this.state = state;
+    }
+
+    // POST /?ttl=<seconds>: count one request and answer with the total
+    async fetch(request: Request): Promise<Response> {
+        const ttlSeconds = Number(new URL(request.url).searchParams.get('ttl')) || DEFAULT_WINDOW;
+        const count = (await this.state.storage.get<number>('count') || 0) + 1;
+        await this.state.storage.put('count', count);
+        if (count === 1) {
+            await this.state.storage.setAlarm(Date.now() + ttlSeconds * 1000);
+        }
+        return new Response(String(count));
+    }
+
+    // The window is over; drop the object's storage
+    async alarm(): Promise<void> {
+        await this.state.storage.deleteAll();
+    }
+}
+
+/**
+ * Counters in RateLimitCounter Durable Objects, exact across isolates
+ */
+export function createDurableObjectStore(namespace: DurableObjectNamespace): RateLimitStore {
+    return {
+        async increment(key, ttlSeconds) {
+            const counter = namespace.get(namespace.idFromName(key));
+            const response = await counter.fetch(`https://rate-limit/?ttl=${ttlSeconds}`, { method: 'POST' });
+            const count = Number(await response.text());
+            if (!response.ok || !Number.isInteger(count)) {
+                throw new Error(`Rate limit counter answered ${response.status}`);
+            }
+            return count;
+        },
+    };
+}
+
+const memoryStore = createMemoryStore();
+
+function parseSetting(value: string | undefined, fallback: number): number {
+    const parsed = Number(value);
+    return value !== undefined && value !== '' && Number.isInteger(parsed) && parsed >= 0 ? parsed : fallback;
+}
+
+function getLimitGroup(pathname: string): LimitGroup | null {
+    if (pathname.startsWith('/auth/')) return 'auth';
+    if (pathname.startsWith('/api/') || pathname.startsWith('/stream')) return 'api';
+    return null;
+}
+
+/**
+ * Short, non-reversible key for a bearer token
+ */
+async function hashToken(value: string): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+    return [...new Uint8Array(digest).slice(0, 16)].map(byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Count the request against its client's limits, throwing a 429 with Retry-After when over
+ */
+export async function enforceRateLimit(request: Request, env: Env): Promise<void> {
+    const group = getLimitGroup(new URL(request.url).pathname);
+    if (!group) return;
+
+    const limit = parseSetting(group === 'auth' ? env.RATE_LIMIT_AUTH : env.RATE_LIMIT_API, DEFAULT_LIMITS[group]);
+    if (limit === 0) return;
+
+    const windowSeconds = parseSetting(env.RATE_LIMIT_WINDOW, DEFAULT_WINDOW) || DEFAULT_WINDOW;
+    const now = Date.now();
+    const windowIndex = Math.floor(now / (windowSeconds * 1000));
+    const retryAfter = Math.ceil(((windowIndex + 1) * windowSeconds * 1000 - now) / 1000);
+
+    const clients = [`ip:${request.headers.get('CF-Connecting-IP') || 'unknown'}`];
+    const authHeader = request.headers.get('Authorization');
+    if (authHeader) {
+        clients.push(`token:${await hashToken(authHeader)}`);
+    }
+
+    const store = env.RATE_LIMIT_COUNTER ? createDurableObjectStore(env.RATE_LIMIT_COUNTER)
+        : env.RATE_LIMIT_KV ? createKvStore(env.RATE_LIMIT_KV)
+        : memoryStore;
+    let counts: number[];
+    try {
+        counts = await Promise.all(clients.map(client =>
+            store.increment(`ratelimit:${group}:${client}:${windowIndex}`, windowSeconds)
+        ));
+    } catch (error) {
+        // Fail open: an unavailable counter shouldn't take the proxy down
+        console.warn('Rate limit store failed, allowing request:', error);
+        return;
+    }
+
+    if (counts.some(count => count > limit)) {
+        throw new HttpError(429, 'rate_limited', 'Too many requests', undefined, { 'Retry-After': String(retryAfter) });
+    }
+}
@@ -0,0 +1,205 @@
+/**
+ * Minimal typed router for the worker
+ *
+ * Routes match on method and path: `:name` segments become params and a trailing `*` captures
+ * the rest of the path (params['*']). Unknown paths answer 404, known paths with the wrong method
+ * 405 with an Allow header, and failed validation 400, all in the shared error envelope.
+ * Hooks registered with `before` run for every matched route ahead of validation and may throw.
+ */
+
+import { errorResponse, HttpError } from './http';
+
+export type Method = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+/**
+ * Param names declared in a path, e.g. '/cover/:id/:size' → 'id' | 'size'
+ */
+export type PathParams<Path extends string> =
+    Path extends `${string}:${infer Param}/${infer Rest}` ? Param | PathParams<`/${Rest}`>
+    : Path extends `${string}:${infer Param}` ? Param
+    : Path extends `${string}*` ? '*'
+    : never;
+
+export interface FieldRule {
+    required?: boolean;
+    /** Tested against the whole value */
+    pattern?: RegExp;
+}
+
+export type FieldRules = Record<string, FieldRule>;
+
+/**
+ * Declarative validation, checked before the handler runs
+ */
+export interface RouteOptions {
+    params?: FieldRules;
+    query?: FieldRules;
+    /** Fields of a JSON body; declaring any makes the router parse the body into ctx.body */
+    body?: FieldRules;
+}
+
+export interface RouteContext<E, P extends string = string> {
+    request: Request;
+    env: E;
+    url: URL;
+    params: Record<P, string>;
+    /** Parsed JSON body, only for routes with body rules */
+    body: Record<string, unknown>;
+    /** Keep background work (e.g. cache writes) running after the response is sent */
+    waitUntil: (promise: Promise<unknown>) => void;
+}
+
+export type Handler<E, P extends string = string> = (ctx: RouteContext<E, P>) => Response | Promise<Response>;
+
+export type BeforeHook<E> = (request: Request, env: E) => void | Promise<void>;
+
+export interface Router<E> {
+    on<Path extends string>(method: Method, path: Path, handler: Handler<E, PathParams<Path>>, options?: RouteOptions): Router<E>;
+    get<Path extends string>(path: Path, handler: Handler<E, PathParams<Path>>, options?: RouteOptions): Router<E>;
+    post<Path extends string>(path: Path, handler: Handler<E, PathParams<Path>>, options?: RouteOptions): Router<E>;
+    before(hook: BeforeHook<E>): Router<E>;
+    handle(request: Request, env: E, executionContext?: ExecutionContext): Promise<Response>;
+}
+
+interface Route<E> {
+    method: Method;
+    segments: string[];
+    handler: Handler<E>;
+    options: RouteOptions;
+}
+
+function splitPath(path: string): string[] {
+    return path.split('/').filter(Boolean);
+}
+
+/**
+ * Match path segments against a route pattern
+ * @returns The captured params, or null when the path doesn't match
+ */
+function matchPath(pattern: string[], segments: string[]): Record<string, string> | null {
+    const params: Record<string, string> = {};
+
+    for (let i = 0; i < pattern.length; i++) {
+        const part = pattern[i];
+        if (part === '*') {
+            params['*'] = '/' + segments.slice(i).join('/');
+            return params;
+        }
+        if (i >= segments.length) return null;
+
+        if (part.startsWith(':')) {
+            try {
+                params[part.slice(1)] = decodeURIComponent(segments[i]);
+            } catch {
+                return null;
+            }
+        } else if (part !== segments[i]) {
+            return null;
+        }
+    }
+
+    return pattern.length === segments.length ? params : null;
+}
+
+/**
+ * Check values against their rules, throwing a 400 on the first problem
+ */
+function validateFields(rules: FieldRules | undefined, getValue: (name: string) => unknown): void {
+    for (const [name, rule] of Object.entries(rules || {})) {
+        const value = getValue(name);
+        if (value === undefined || value === null || value === '') {
+            if (rule.required) throw new HttpError(400, 'missing_field', `Missing ${name}`);
+            continue;
+        }
+        if (rule.pattern && (typeof value !== 'string' || !rule.pattern.test(value))) {
+            throw new HttpError(400, 'invalid_field', `Invalid ${name}`);
+        }
+    }
+}
+
+async function readJsonBody(request: Request): Promise<Record<string, unknown>> {
+    try {
+        const body = await request.json();
+        if (body && typeof body === 'object' && !Array.isArray(body)) {
+            return body as Record<string, unknown>;
+        }
+    } catch {
+        // Fall through to the error below
+    }
+    throw new HttpError(400, 'invalid_body', 'Expected a JSON object body');
+}
+
+/**
+ * Create an empty router; register routes with get/post/on, then call handle for each request
+ */
+export function createRouter<E>(): Router<E> {
+    const routes: Route<E>[] = [];
+    const hooks: BeforeHook<E>[] = [];
+
+    const router: Router<E> = {
+        on(method, path, handler, options = {}) {
+            routes.push({ method, segments: splitPath(path), handler: handler as Handler<E>, options });
+            return router;
+        },
+        get(path, handler, options) {
+            return router.on('GET', path, handler, options);
+        },
+        post(path, handler, options) {
+            return router.on('POST', path, handler, options);
+        },
+        before(hook) {
+            hooks.push(hook);
+            return router;
+        },
+        async handle(request, env, executionContext) {
+            const url = new URL(request.url);
+            const segments = splitPath(url.pathname);
+            const waitUntil = (promise: Promise<unknown>) => {
+                if (executionContext) executionContext.waitUntil(promise);
+            };
+
+            try {
+                const allowed = new Set<Method>();
+                for (const route of routes) {
+                    const params = matchPath(route.segments, segments);
+                    if (!params) continue;
+
+                    if (route.method !== request.method) {
+                        allowed.add(route.method);
+                        continue;
+                    }
+
+                    for (const hook of hooks) {
+                        await hook(request, env);
+                    }
+
+                    const { options } = route;
+                    validateFields(options.params, name => params[name]);
+                    validateFields(options.query, name => url.searchParams.get(name));
+
+                    let body: Record<string, unknown> = {};
+                    if (options.body) {
+                        body = await readJsonBody(request);
+                        validateFields(options.body, name => body[name]);
+                    }
+
+                    return await route.handler({ request, env, url, params, body, waitUntil });
+                }
+
+                if (allowed.size > 0) {
+                    const allow = [...allowed].join(', ');
+                    return errorResponse(405, 'method_not_allowed', `Method ${request.method} not allowed`, undefined, { 'Allow': allow });
+                }
+                return errorResponse(404, 'not_found', 'Not found');
+            } catch (error) {
+                if (error instanceof HttpError) {
+                    return errorResponse(error.status, error.code, error.message, error.details, error.headers);
+                }
+                console.error('Worker error:', error);
+                return errorResponse(500, 'internal_error', 'Internal server error');
+            }
+        },
+    };
+
+    return router;
+}